@@ -10,6 +10,7 @@ import nextTypescript from 'eslint-config-next/typescript'
 import importPlugin from 'eslint-plugin-import'
 import nPlugin from 'eslint-plugin-n'
 import promisePlugin from 'eslint-plugin-promise'
+import globals from 'globals'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
@@ -161,6 +162,21 @@ const eslintConfig = [
 			parserOptions: {}
 		}
 	},
+	{
+		// The service worker is plain JavaScript run by the browser, outside the TypeScript project
+		files: ['public/sw.js'],
+		languageOptions: {
+			globals: globals.serviceworker,
+			parserOptions: {
+				projectService: false
+			}
+		},
+		rules: {
+			...tsEslintPlugin.configs['disable-type-checked'].rules,
+			// TypeScript checks undefined names everywhere else
+			'no-undef': 'error'
+		}
+	},
 	{
 		rules: {
 			'react-hooks/set-state-in-effect': 'off'
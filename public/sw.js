@@ -0,0 +1,91 @@
+// Offline support: the app shell is cached on install, static assets are served cache-first and
+// the track and user API responses fall back to their last successful copy without a connection.
+// Writes are not handled here, the app queues them in IndexedDB and replays them itself.
+
+const CACHE_VERSION = 'v1'
+const SHELL_CACHE = `shell-${CACHE_VERSION}`
+const STATIC_CACHE = `static-${CACHE_VERSION}`
+const API_CACHE = `api-${CACHE_VERSION}`
+
+const SHELL_URLS = [
+	'/',
+	'/ingress',
+	'/signin',
+	'/manifest.webmanifest',
+	'/favicon.ico',
+	'/android-chrome-192x192.png?v=1',
+	'/android-chrome-512x512.png?v=1'
+]
+
+// API reads worth keeping for offline use, matched on the path so any API origin works
+const CACHED_API_PATHS = ['/v1/tracks', '/v1/users/user', '/v1/auth/is-authenticated']
+
+self.addEventListener('install', event => {
+	event.waitUntil(
+		caches.open(SHELL_CACHE)
+			.then(cache => cache.addAll(SHELL_URLS))
+			.then(() => self.skipWaiting())
+	)
+})
+
+self.addEventListener('activate', event => {
+	const current = [SHELL_CACHE, STATIC_CACHE, API_CACHE]
+	event.waitUntil(
+		caches.keys()
+			.then(keys => Promise.all(keys.filter(key => !current.includes(key)).map(key => caches.delete(key))))
+			.then(() => self.clients.claim())
+	)
+})
+
+self.addEventListener('message', event => {
+	// Sent on logout and when the session expires, so the next account on this device never sees the cached responses
+	if (event.data?.type === 'clear-user-data') {
+		event.waitUntil(caches.delete(API_CACHE))
+	}
+})
+
+async function networkFirst (request, cacheName, fallbackUrl) {
+	const cache = await caches.open(cacheName)
+	try {
+		const response = await fetch(request)
+		if (response.ok) {
+			await cache.put(request, response.clone())
+		}
+		return response
+	} catch (error) {
+		const cached = await cache.match(request) ?? (fallbackUrl !== undefined ? await caches.match(fallbackUrl) : undefined)
+		if (cached !== undefined) { return cached }
+		throw error
+	}
+}
+
+async function cacheFirst (request, cacheName) {
+	const cached = await caches.match(request)
+	if (cached !== undefined) { return cached }
+	const response = await fetch(request)
+	if (response.ok) {
+		const cache = await caches.open(cacheName)
+		await cache.put(request, response.clone())
+	}
+	return response
+}
+
+self.addEventListener('fetch', event => {
+	const { request } = event
+	if (request.method !== 'GET') { return }
+
+	const url = new URL(request.url)
+	const sameOrigin = url.origin === self.location.origin
+
+	if (request.mode === 'navigate') {
+		// Client-rendered pages share one shell, so any cached page can stand in for another
+		event.respondWith(networkFirst(request, SHELL_CACHE, '/'))
+	} else if (sameOrigin && url.pathname.startsWith('/_next/static/')) {
+		// Build output is content hashed and never changes under the same URL
+		event.respondWith(cacheFirst(request, STATIC_CACHE))
+	} else if (CACHED_API_PATHS.includes(url.pathname)) {
+		event.respondWith(networkFirst(request, API_CACHE))
+	} else if (sameOrigin) {
+		event.respondWith(networkFirst(request, SHELL_CACHE))
+	}
+})
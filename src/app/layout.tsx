@@ -2,6 +2,7 @@ import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
 import { type ReactElement } from 'react'
 
+import ServiceWorkerRegistration from '@/components/ServiceWorkerRegistration'
 import ErrorProvider from '@/contexts/ErrorContext/ErrorProvider'
 
 import './globals.css'
@@ -30,6 +31,7 @@ export default function RootLayout ({
 	return (
 		<html lang="en">
 			<body className={inter.className}>
+				<ServiceWorkerRegistration />
 				<ErrorProvider>
 					{children}
 				</ErrorProvider>
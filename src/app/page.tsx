@@ -1,44 +1,65 @@
 'use client'
 
-import axios from 'axios'
 import { useRouter } from 'next/navigation'
 import { useCallback, useEffect, useState, type ReactElement } from 'react'
 
 import ExportTab from '@/components/ExportTab'
 import IngressTab from '@/components/IngressTab'
 import InsightsTab from '@/components/InsightsTab'
+import LogoutButton from '@/components/LogoutButton'
+import QuickLogPanel from '@/components/QuickLogPanel'
+import SyncStatus from '@/components/SyncStatus'
 import TracksTab from '@/components/TracksTab'
 import VisualizeTab from '@/components/VisualizeTab'
-
-const API_URL = process.env.NEXT_PUBLIC_API_URL
+import TrackProvider from '@/contexts/TrackContext/TrackProvider'
+import TrackTypeProvider from '@/contexts/TrackTypeContext/TrackTypeProvider'
+import { checkAuthenticated, isCancelledRequest } from '@/utils/api'
 
 type Tab = 'visualize' | 'insights' | 'ingress' | 'export' | 'tracks'
 
+const TABS: Tab[] = ['visualize', 'insights', 'ingress', 'export', 'tracks']
+const DEFAULT_TAB: Tab = 'visualize'
+
+// The tab is kept in the query string so shared links, e.g. to a filtered tracks view, open on it
+function readTabFromUrl (): Tab {
+	if (typeof window === 'undefined') { return DEFAULT_TAB }
+	const tab = new URLSearchParams(window.location.search).get('tab')
+	return TABS.find(t => t === tab) ?? DEFAULT_TAB
+}
+
 export default function Page (): ReactElement {
 	const router = useRouter()
-	const [activeTab, setActiveTab] = useState<Tab>('visualize')
+	const [activeTab, setActiveTab] = useState<Tab>(readTabFromUrl)
 	const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null)
 
 	useEffect(() => {
+		const controller = new AbortController()
 		const checkAuth = async (): Promise<void> => {
 			try {
-				await axios.get(`${API_URL}/v1/auth/is-authenticated`, { withCredentials: true })
-				setIsAuthenticated(true)
-			} catch {
+				setIsAuthenticated(await checkAuthenticated({ signal: controller.signal }))
+			} catch (error) {
+				if (isCancelledRequest(error)) { return }
+				console.error('Failed to check authentication:', error)
 				setIsAuthenticated(false)
 			}
 		}
 		checkAuth().catch(console.error)
+		return () => controller.abort()
 	}, [])
 
-	const handleLogout = useCallback(async () => {
-		try {
-			await axios.post(`${API_URL}/v1/auth/logout`, {}, { withCredentials: true })
-			setIsAuthenticated(false)
-		} catch (error) {
-			console.error('Logout failed:', error)
+	const selectTab = useCallback((tab: Tab): void => {
+		setActiveTab(tab)
+		const params = new URLSearchParams(window.location.search)
+		if (tab === DEFAULT_TAB) {
+			params.delete('tab')
+		} else {
+			params.set('tab', tab)
 		}
-	}, [])
+		const query = params.toString()
+		router.replace(query !== '' ? `/?${query}` : '/', { scroll: false })
+	}, [router])
+
+	const handleLoggedOut = useCallback(() => setIsAuthenticated(false), [])
 
 	if (isAuthenticated === null) {
 		return (
@@ -48,7 +69,7 @@ export default function Page (): ReactElement {
 		)
 	}
 
-	return (
+	const page = (
 		<div className="min-h-screen bg-gray-900">
 			<header className="sticky top-0 z-10 bg-gray-800 border-b border-gray-700 px-4 sm:px-6 py-4">
 				<div className="max-w-7xl mx-auto">
@@ -56,12 +77,7 @@ export default function Page (): ReactElement {
 						<h1 className="text-xl sm:text-2xl font-bold text-white whitespace-nowrap">{'Life Tracker'}</h1>
 						<div className="flex items-center gap-2 sm:gap-4">
 							{isAuthenticated ? (
-								<button
-									onClick={handleLogout}
-									className="px-3 sm:px-4 py-2 rounded-lg text-sm sm:text-base font-medium bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors whitespace-nowrap"
-								>
-									{'Logout'}
-								</button>
+								<LogoutButton onLoggedOut={handleLoggedOut} />
 							) : (
 								<div className="flex gap-2">
 									<button
@@ -83,7 +99,7 @@ export default function Page (): ReactElement {
 					{isAuthenticated && (
 						<nav className="flex justify-center gap-4 sm:gap-8 sm:absolute sm:left-1/2 sm:-translate-x-1/2 sm:top-4">
 							<button
-								onClick={() => setActiveTab('visualize')}
+								onClick={() => selectTab('visualize')}
 								className={`px-2 py-2 text-sm sm:text-base font-medium transition-colors border-b-2 whitespace-nowrap ${
 									activeTab === 'visualize'
 										? 'text-blue-400 border-blue-400'
@@ -92,7 +108,7 @@ export default function Page (): ReactElement {
 							>
 								{'Visualize'}
 							</button>
-							<button							onClick={() => setActiveTab('insights')}
+							<button							onClick={() => selectTab('insights')}
 								className={`px-2 py-2 text-sm sm:text-base font-medium transition-colors border-b-2 whitespace-nowrap ${
 									activeTab === 'insights'
 										? 'text-blue-400 border-blue-400'
@@ -101,7 +117,7 @@ export default function Page (): ReactElement {
 							>
 								{'Insights'}
 							</button>
-							<button								onClick={() => setActiveTab('ingress')}
+							<button								onClick={() => selectTab('ingress')}
 								className={`px-2 py-2 text-sm sm:text-base font-medium transition-colors border-b-2 whitespace-nowrap ${
 									activeTab === 'ingress'
 										? 'text-blue-400 border-blue-400'
@@ -111,7 +127,7 @@ export default function Page (): ReactElement {
 								{'Import'}
 							</button>
 							<button
-								onClick={() => setActiveTab('export')}
+								onClick={() => selectTab('export')}
 								className={`px-2 py-2 text-sm sm:text-base font-medium transition-colors border-b-2 whitespace-nowrap ${
 									activeTab === 'export'
 										? 'text-blue-400 border-blue-400'
@@ -121,7 +137,7 @@ export default function Page (): ReactElement {
 								{'Export'}
 							</button>
 							<button
-								onClick={() => setActiveTab('tracks')}
+								onClick={() => selectTab('tracks')}
 								className={`px-2 py-2 text-sm sm:text-base font-medium transition-colors border-b-2 whitespace-nowrap ${
 									activeTab === 'tracks'
 										? 'text-blue-400 border-blue-400'
@@ -137,13 +153,15 @@ export default function Page (): ReactElement {
 
 			<main className="max-w-7xl mx-auto px-6 py-8">
 				{isAuthenticated ? (
-					<>
+					<TrackTypeProvider>
+						<SyncStatus />
+						<QuickLogPanel />
 						{activeTab === 'visualize' && <VisualizeTab />}
 						{activeTab === 'insights' && <InsightsTab />}
 						{activeTab === 'ingress' && <IngressTab />}
 						{activeTab === 'export' && <ExportTab />}
 						{activeTab === 'tracks' && <TracksTab />}
-					</>
+					</TrackTypeProvider>
 				) : (
 					<div className="flex flex-col items-center justify-center py-20">
 						<h2 className="text-2xl font-semibold text-gray-200 mb-4">{'Welcome to Life Tracker'}</h2>
@@ -155,4 +173,7 @@ export default function Page (): ReactElement {
 			</main>
 		</div>
 	)
+
+	// The track store wraps the header too, logging out syncs its outbox first
+	return isAuthenticated ? <TrackProvider>{page}</TrackProvider> : page
 }
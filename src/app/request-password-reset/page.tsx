@@ -1,10 +1,10 @@
 'use client'
 
-import axios from 'axios'
 import React, { useCallback, useState, type ReactElement } from 'react'
 
+import { ApiError, requestPasswordResetEmail } from '@/utils/api'
+
 export default function Page (): ReactElement {
-	const API_URL = process.env.NEXT_PUBLIC_API_URL
 	const [loading, setLoading] = useState(false)
 	const [error, setError] = useState<string>('')
 	const [success, setSuccess] = useState(false)
@@ -14,11 +14,11 @@ export default function Page (): ReactElement {
 		setError('')
 		setSuccess(false)
 		try {
-			await axios.post(`${API_URL}/v1/users/request-password-reset-email`, credentials)
+			await requestPasswordResetEmail(credentials.email)
 			setSuccess(true)
 		} catch (error: unknown) {
-			if (axios.isAxiosError(error) && error.response) {
-				setError(error.response.data?.message ?? 'Failed to request password reset')
+			if (error instanceof ApiError && error.status !== undefined) {
+				setError(error.serverMessage ?? 'Failed to request password reset')
 			} else {
 				setError('An error occurred. Please try again.')
 			}
@@ -26,7 +26,7 @@ export default function Page (): ReactElement {
 		} finally {
 			setLoading(false)
 		}
-	}, [API_URL])
+	}, [])
 
 	const handleSubmit = useCallback((event: React.FormEvent<HTMLFormElement>) => {
 		event.preventDefault() // Prevent default form submission
@@ -1,11 +1,11 @@
 'use client'
 
-import axios from 'axios'
 import { useRouter, useSearchParams } from 'next/navigation'
 import React, { type ReactElement, useCallback, useState } from 'react'
 
+import { ApiError, resetPassword as submitPasswordReset, type PasswordReset } from '@/utils/api'
+
 function ResetPasswordForm (): ReactElement {
-	const API_URL = process.env.NEXT_PUBLIC_API_URL
 	const router = useRouter()
 	const searchParams = useSearchParams()
 	const passwordResetCode = searchParams.get('passwordResetCode')
@@ -13,19 +13,19 @@ function ResetPasswordForm (): ReactElement {
 	const [error, setError] = useState<string>('')
 	const [success, setSuccess] = useState(false)
 
-	const resetPassword = useCallback(async (credentials: { passwordResetCode: string | null, password: string, confirmPassword: string }) => {
+	const resetPassword = useCallback(async (credentials: PasswordReset) => {
 		setLoading(true)
 		setError('')
 		setSuccess(false)
 		try {
-			await axios.patch(`${API_URL}/v1/users/reset-password`, credentials, { withCredentials: true })
+			await submitPasswordReset(credentials)
 			setSuccess(true)
 			setTimeout(() => {
 				router.push('/signin')
 			}, 2000)
 		} catch (error: unknown) {
-			if (axios.isAxiosError(error) && error.response) {
-				setError(error.response.data?.message ?? 'Failed to reset password')
+			if (error instanceof ApiError && error.status !== undefined) {
+				setError(error.serverMessage ?? 'Failed to reset password')
 			} else {
 				setError('An error occurred. Please try again.')
 			}
@@ -33,7 +33,7 @@ function ResetPasswordForm (): ReactElement {
 		} finally {
 			setLoading(false)
 		}
-	}, [API_URL, router])
+	}, [router])
 
 	const handleSubmit = useCallback((event: React.FormEvent<HTMLFormElement>) => {
 		event.preventDefault()
@@ -1,24 +1,24 @@
 'use client'
 
-import axios from 'axios'
 import { useRouter } from 'next/navigation'
 import React, { useCallback, useState, type ReactElement } from 'react'
 
+import { ApiError, login, type LoginCredentials } from '@/utils/api'
+
 export default function Page (): ReactElement {
-	const API_URL = process.env.NEXT_PUBLIC_API_URL
 	const router = useRouter()
 	const [loading, setLoading] = useState(false)
 	const [error, setError] = useState<string>('')
 
-	const signin = useCallback(async (credentials: { email: string, password: string, stayLoggedIn: boolean }) => {
+	const signin = useCallback(async (credentials: LoginCredentials) => {
 		setLoading(true)
 		setError('')
 		try {
-			await axios.post(`${API_URL}/v1/auth/login-local`, credentials, { withCredentials: true })
+			await login(credentials)
 			router.push('/')
 		} catch (error: unknown) {
-			if (axios.isAxiosError(error) && error.response) {
-				setError(error.response.data?.message ?? 'Invalid email or password')
+			if (error instanceof ApiError && error.status !== undefined) {
+				setError(error.serverMessage ?? 'Invalid email or password')
 			} else {
 				setError('An error occurred. Please try again.')
 			}
@@ -26,7 +26,7 @@ export default function Page (): ReactElement {
 		} finally {
 			setLoading(false)
 		}
-	}, [API_URL, router])
+	}, [router])
 
 	const handleSubmit = useCallback((event: React.FormEvent<HTMLFormElement>) => {
 		event.preventDefault()
@@ -1,29 +1,29 @@
 'use client'
 
-import axios from 'axios'
 import { useRouter } from 'next/navigation'
 import React, { useCallback, useState, type ReactElement } from 'react'
 
+import { ApiError, createUser, type NewUser } from '@/utils/api'
+
 export default function Page (): ReactElement {
-	const API_URL = process.env.NEXT_PUBLIC_API_URL
 	const router = useRouter()
 	const [loading, setLoading] = useState(false)
 	const [error, setError] = useState<string>('')
 	const [success, setSuccess] = useState(false)
 
-	const postUser = useCallback(async (user: { userName: string, email: string, password: string, confirmPassword: string }) => {
+	const postUser = useCallback(async (user: NewUser) => {
 		setLoading(true)
 		setError('')
 		setSuccess(false)
 		try {
-			await axios.post(`${API_URL}/v1/users`, user)
+			await createUser(user)
 			setSuccess(true)
 			setTimeout(() => {
 				router.push('/signin')
 			}, 2000)
 		} catch (error: unknown) {
-			if (axios.isAxiosError(error) && error.response) {
-				setError(error.response.data?.message ?? 'Failed to create account')
+			if (error instanceof ApiError && error.status !== undefined) {
+				setError(error.serverMessage ?? 'Failed to create account')
 			} else {
 				setError('An error occurred. Please try again.')
 			}
@@ -31,7 +31,7 @@ export default function Page (): ReactElement {
 		} finally {
 			setLoading(false)
 		}
-	}, [API_URL, router])
+	}, [router])
 
 	const handleSubmit = useCallback((event: React.FormEvent<HTMLFormElement>) => {
 		event.preventDefault()
@@ -4,22 +4,16 @@ import type { ReactElement } from 'react'
 
 import type { CoverageStats } from '../types/Insights'
 import type { Track } from '../types/Track'
+import { formatDayKey, getDayKey, getDayKeyWeekday, shiftDayKey } from '../utils/dayKeys'
+import { getDefaultTrackColor } from '../utils/trackTypes'
 
 interface ActivityCalendarProps {
 	tracks: Track[]
 	coverage?: CoverageStats
+	timeZone: string
+	dayStartHour: number
 	getTranslatedName?: (trackName: string) => string
-}
-
-function getTrackColor (trackName: string): string {
-	// Generate consistent color from track name hash
-	let hash = 0
-	for (let i = 0; i < trackName.length; i++) {
-		hash = trackName.charCodeAt(i) + ((hash << 5) - hash)
-	}
-
-	const hue = Math.abs(hash % 360)
-	return `hsl(${hue}, 70%, 50%)`
+	getTrackColor?: (trackName: string) => string
 }
 
 function mixColors (colors: string[]): string {
@@ -35,16 +29,15 @@ function mixColors (colors: string[]): string {
 	return `linear-gradient(135deg, ${stops})`
 }
 
-function parseLocalDate (dateStr: string): Date {
-	const d = new Date(dateStr)
-	return new Date(d.getFullYear(), d.getMonth(), d.getDate())
-}
-
-function toDateKey (d: Date): string {
-	return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
-}
-
-export default function ActivityCalendar ({ tracks, coverage, getTranslatedName = (name) => name }: ActivityCalendarProps): ReactElement {
+// Days are day keys throughout, which compare chronologically as strings
+export default function ActivityCalendar ({
+	tracks,
+	coverage,
+	timeZone,
+	dayStartHour,
+	getTranslatedName = (name) => name,
+	getTrackColor = getDefaultTrackColor
+}: ActivityCalendarProps): ReactElement {
 	const validTracks = tracks.filter(t => !isNaN(new Date(t.date).getTime()))
 
 	if (validTracks.length === 0) {
@@ -53,45 +46,39 @@ export default function ActivityCalendar ({ tracks, coverage, getTranslatedName
 		)
 	}
 
-	const dates = validTracks.map(t => parseLocalDate(t.date))
-	const minDate = new Date(Math.min(...dates.map(d => d.getTime())))
-	const today = new Date()
-	const todayMidnight = new Date(today.getFullYear(), today.getMonth(), today.getDate())
-	const maxDate = new Date(Math.min(Math.max(...dates.map(d => d.getTime())), todayMidnight.getTime()))
+	const dayKeys = validTracks.map(t => getDayKey(new Date(t.date), timeZone, dayStartHour))
+	const sortedDayKeys = [...dayKeys].sort()
+	const minDate = sortedDayKeys[0]
+	const today = getDayKey(new Date(), timeZone, dayStartHour)
+	const maxDate = sortedDayKeys[sortedDayKeys.length - 1] < today ? sortedDayKeys[sortedDayKeys.length - 1] : today
 
 	// Build gap periods map for easy lookup
 	const gapMap = new Map<string, boolean>()
 	if (coverage) {
 		for (const period of coverage.periods) {
 			if (period.isGap) {
-				const current = new Date(period.startDate.getFullYear(), period.startDate.getMonth(), period.startDate.getDate())
-				const end = new Date(period.endDate.getFullYear(), period.endDate.getMonth(), period.endDate.getDate())
-				while (current <= end) {
-					gapMap.set(toDateKey(current), true)
-					current.setDate(current.getDate() + 1)
+				for (let current = period.startDay; current <= period.endDay; current = shiftDayKey(current, 1)) {
+					gapMap.set(current, true)
 				}
 			}
 		}
 	}
 
 	// Start from the first Monday before or on minDate
-	const startDate = new Date(minDate)
-	const daysBeforeMinDate = startDate.getDay() // 0 = Sunday, 1 = Monday, etc.
-	startDate.setDate(startDate.getDate() - daysBeforeMinDate)
+	const startDate = shiftDayKey(minDate, -getDayKeyWeekday(minDate))
 
 	// End on maxDate (don't extend to end of week to avoid showing future dates)
-	const endDate = new Date(maxDate)
+	const endDate = maxDate
 
 	// Build map of day -> track types
 	const dayMap = new Map<string, Set<string>>()
-	for (const track of validTracks) {
-		const d = parseLocalDate(track.date)
-		const key = toDateKey(d)
+	validTracks.forEach((track, index) => {
+		const key = dayKeys[index]
 		if (!dayMap.has(key)) {
 			dayMap.set(key, new Set())
 		}
 		dayMap.get(key)!.add(track.trackName)
-	}
+	})
 
 	// Get all unique track types
 	const trackTypes = [...new Set(validTracks.map(t => t.trackName))].sort()
@@ -101,23 +88,21 @@ export default function ActivityCalendar ({ tracks, coverage, getTranslatedName
 	}
 
 	// Generate weeks (only up to maxDate, don't extend beyond)
-	const weeks: Date[][] = []
-	let currentWeek: Date[] = []
-	const current = new Date(startDate)
+	const weeks: string[][] = []
+	let currentWeek: string[] = []
 
-	while (current <= endDate) {
+	for (let current = startDate; current <= endDate; current = shiftDayKey(current, 1)) {
 		if (current <= maxDate) {
-			currentWeek.push(new Date(current))
+			currentWeek.push(current)
 		}
 
-		if (current.getDay() === 6) {
+		// Weeks end on Sunday
+		if (getDayKeyWeekday(current) === 6) {
 			if (currentWeek.length > 0) {
 				weeks.push(currentWeek)
 				currentWeek = []
 			}
 		}
-
-		current.setDate(current.getDate() + 1)
 	}
 
 	if (currentWeek.length > 0) {
@@ -129,9 +114,9 @@ export default function ActivityCalendar ({ tracks, coverage, getTranslatedName
 		let gapDays = 0
 		let totalValidDays = 0
 		for (const day of week) {
-			if (day.getTime() >= minDate.getTime() && day.getTime() <= maxDate.getTime()) {
+			if (day >= minDate && day <= maxDate) {
 				totalValidDays++
-				if (gapMap.get(toDateKey(day)) === true) {
+				if (gapMap.get(day) === true) {
 					gapDays++
 				}
 			}
@@ -148,8 +133,8 @@ export default function ActivityCalendar ({ tracks, coverage, getTranslatedName
 	weeks.forEach((week, idx) => {
 		if (week.length === 0) { return }
 		const firstDayOfWeek = week[0]
-		const month = firstDayOfWeek.getMonth()
-		const year = firstDayOfWeek.getFullYear()
+		const month = Number(firstDayOfWeek.slice(5, 7))
+		const year = Number(firstDayOfWeek.slice(0, 4))
 
 		if (year !== lastYear) {
 			yearLabels.push({
@@ -161,7 +146,7 @@ export default function ActivityCalendar ({ tracks, coverage, getTranslatedName
 
 		if (month !== lastMonth) {
 			monthLabels.push({
-				month: firstDayOfWeek.toLocaleDateString('en-US', { month: 'short' }),
+				month: formatDayKey(firstDayOfWeek, 'en-US', { month: 'short' }),
 				weekIndex: idx
 			})
 			lastMonth = month
@@ -235,12 +220,11 @@ export default function ActivityCalendar ({ tracks, coverage, getTranslatedName
 						{weeks.map((week, weekIdx) => (
 							<div key={weekIdx} className="flex flex-col gap-1">
 								{week.map((day, dayIdx) => {
-									if (day.getTime() > maxDate.getTime()) {
+									if (day > maxDate) {
 										return <div key={dayIdx} className="w-3 h-3" />
 									}
 
-									const key = toDateKey(day)
-									const tracksOnDay = dayMap.get(key)
+									const tracksOnDay = dayMap.get(day)
 									const hasActivity = tracksOnDay !== undefined && tracksOnDay.size > 0
 
 									let background = '#1f2937' // gray-800 default
@@ -249,10 +233,7 @@ export default function ActivityCalendar ({ tracks, coverage, getTranslatedName
 										background = mixColors(colors)
 									}
 
-									const isToday =
-										day.getDate() === new Date().getDate() &&
-										day.getMonth() === new Date().getMonth() &&
-										day.getFullYear() === new Date().getFullYear()
+									const isToday = day === today
 
 									return (
 										<DayCell
@@ -305,7 +286,8 @@ export default function ActivityCalendar ({ tracks, coverage, getTranslatedName
 interface DayCellProps {
 	background: string
 	isToday: boolean
-	date: Date
+	// Day key
+	date: string
 	tracks: string[]
 	getTranslatedName: (trackName: string) => string
 }
@@ -313,7 +295,7 @@ interface DayCellProps {
 function DayCell ({ background, isToday, date, tracks, getTranslatedName }: DayCellProps): ReactElement {
 	const isGradient = background.startsWith('linear-gradient')
 	const translatedTracks = tracks.map(getTranslatedName)
-	const title = `${date.toLocaleDateString()}\n${translatedTracks.length > 0 ? translatedTracks.join(', ') : 'No activity'}`
+	const title = `${formatDayKey(date)}\n${translatedTracks.length > 0 ? translatedTracks.join(', ') : 'No activity'}`
 
 	return (
 		<div
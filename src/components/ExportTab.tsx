@@ -1,86 +1,128 @@
 'use client'
 
-import axios from 'axios'
-import { useState, useEffect, useCallback, type ReactElement } from 'react'
+import { useState, useEffect, useCallback, useMemo, type ReactElement } from 'react'
 
-import type { Track } from '@/types/Track'
-import type { User } from '@/types/User'
-
-const API_URL = process.env.NEXT_PUBLIC_API_URL
+import TimeZoneSelect from '@/components/ui/TimeZoneSelect'
+import { useTrackNames, useTracks } from '@/contexts/TrackContext/TrackContext'
+import { useTrackTypes } from '@/contexts/TrackTypeContext/TrackTypeContext'
+import { createBackup } from '@/utils/backup'
+import { isInDateRange, type DateRange } from '@/utils/dayKeys'
+import {
+	AGGREGATION_PERIODS,
+	buildPivotTable,
+	pivotToCsv,
+	pivotToJson,
+	type AggregationPeriod
+} from '@/utils/export/aggregate'
+import { DATE_RANGE_PRESETS, describeDateRange, getPresetRange, type DateRangePresetId } from '@/utils/export/dateRange'
+import { toCsv, toICalendar, toNdjson } from '@/utils/export/formats'
+import { getBrowserTimeZone, getZonedParts, isAmbiguousInTimeZone } from '@/utils/timezone'
 
+type ExportMode = 'raw' | 'aggregate'
 type FormatType = 'string' | 'iso'
-type OutputType = 'list' | 'json'
-
-function formatDateTime (date: Date): string {
-	const day = date.getDate().toString().padStart(2, '0')
-	const month = (date.getMonth() + 1).toString().padStart(2, '0')
-	const year = date.getFullYear()
-	const hours = date.getHours().toString().padStart(2, '0')
-	const minutes = date.getMinutes().toString().padStart(2, '0')
-	const seconds = date.getSeconds().toString().padStart(2, '0')
+type OutputType = 'list' | 'json' | 'csv' | 'ndjson' | 'ics'
+
+const EXPORT_MODES: Array<{ value: ExportMode, label: string }> = [
+	{ value: 'raw', label: 'Raw Timestamps' },
+	{ value: 'aggregate', label: 'Counts per Period' }
+]
+
+const OUTPUT_FILES: Record<OutputType, { extension: string, mimeType: string }> = {
+	list: { extension: 'txt', mimeType: 'text/plain' },
+	json: { extension: 'json', mimeType: 'application/json' },
+	csv: { extension: 'csv', mimeType: 'text/csv' },
+	ndjson: { extension: 'ndjson', mimeType: 'application/x-ndjson' },
+	ics: { extension: 'ics', mimeType: 'text/calendar' }
+}
+
+// Structured outputs carry full records, the date format only applies to bare date lists
+function usesDateFormat (outputType: OutputType): boolean {
+	return outputType === 'list' || outputType === 'json'
+}
+
+function formatDateTime (date: Date, timeZone: string): string {
+	const parts = getZonedParts(date, timeZone)
+	const day = parts.day.toString().padStart(2, '0')
+	const month = parts.month.toString().padStart(2, '0')
+	const year = parts.year
+	const hours = parts.hour.toString().padStart(2, '0')
+	const minutes = parts.minute.toString().padStart(2, '0')
+	const seconds = parts.second.toString().padStart(2, '0')
 	return `${day}/${month}/${year} ${hours}:${minutes}:${seconds}`
 }
 
+function toFileNamePart (value: string): string {
+	return value.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '')
+}
+
+function describeTypes (selectedTypes: string[]): string {
+	if (selectedTypes.length === 0) { return 'all' }
+	if (selectedTypes.length > 3) { return `${selectedTypes.length}-types` }
+	return selectedTypes.map(toFileNamePart).join('+')
+}
+
+function downloadFile (content: string, fileName: string, mimeType: string): void {
+	const blob = new Blob([content], { type: mimeType })
+	const url = URL.createObjectURL(blob)
+	const a = document.createElement('a')
+	a.href = url
+	a.download = fileName
+	document.body.appendChild(a)
+	a.click()
+	document.body.removeChild(a)
+	URL.revokeObjectURL(url)
+}
+
 export default function ExportTab (): ReactElement {
-	const [tracks, setTracks] = useState<Track[]>([])
-	const [trackTypes, setTrackTypes] = useState<string[]>([])
-	const [selectedType, setSelectedType] = useState<string>('all')
+	const [mode, setMode] = useState<ExportMode>('raw')
+	const [aggregationPeriod, setAggregationPeriod] = useState<AggregationPeriod>('week')
+	const [aggregateOutput, setAggregateOutput] = useState<'csv' | 'json'>('csv')
+	const { tracks, loading } = useTracks()
+	const trackTypes = useTrackNames()
+	// An empty selection means every type
+	const [selectedTypes, setSelectedTypes] = useState<string[]>([])
+	const [rangePreset, setRangePreset] = useState<DateRangePresetId | 'custom'>('all')
+	const [customRange, setCustomRange] = useState<DateRange>({ from: '', to: '' })
 	const [formatType, setFormatType] = useState<FormatType>('string')
 	const [outputType, setOutputType] = useState<OutputType>('list')
-	const [loading, setLoading] = useState(true)
+	const [timeZone, setTimeZone] = useState(() => getBrowserTimeZone())
+	const [includeDisplayNames, setIncludeDisplayNames] = useState(false)
 	const [exportedData, setExportedData] = useState<string>('')
-	const [translations, setTranslations] = useState<Record<string, string>>({})
+	const { translations, settings, getTranslatedName, dayStartHour } = useTrackTypes()
 
-	const getTranslatedName = (trackName: string): string => {
-		return translations[trackName] ?? trackName
-	}
+	const dateRange = useMemo(() => rangePreset === 'custom'
+		? customRange
+		: getPresetRange(rangePreset, new Date(), timeZone, dayStartHour), [rangePreset, customRange, timeZone, dayStartHour])
 
-	const fetchTracks = useCallback(async (): Promise<void> => {
-		setLoading(true)
-		try {
-			const response = await axios.get<Track[]>(`${API_URL}/v1/tracks`, {
-				withCredentials: true
-			})
-			setTracks(response.data)
-
-			const types = [...new Set(response.data.map(t => t.trackName))].sort()
-			setTrackTypes(types)
-		} catch (err) {
-			console.error('Failed to fetch tracks:', err)
-		} finally {
-			setLoading(false)
-		}
-	}, [])
-
-	useEffect(() => {
-		fetchTracks().catch(console.error)
-
-		const fetchUser = async (): Promise<void> => {
-			try {
-				const response = await axios.get<User>(`${API_URL}/v1/users/user`, {
-					withCredentials: true
-				})
-				setTranslations(response.data.trackNameTranslations ?? {})
-			} catch (error) {
-				console.error('Failed to fetch user:', error)
-			}
-		}
-
-		fetchUser().catch(console.error)
-	}, [fetchTracks])
+	const filteredTracks = useMemo(() => tracks.filter(t =>
+		(selectedTypes.length === 0 || selectedTypes.includes(t.trackName)) &&
+		isInDateRange(new Date(t.date), dateRange, timeZone, dayStartHour)
+	), [tracks, selectedTypes, dateRange, timeZone, dayStartHour])
 
 	const generateExport = useCallback((): void => {
-		const filteredTracks = selectedType === 'all'
-			? tracks
-			: tracks.filter(t => t.trackName === selectedType)
-
 		const sortedTracks = [...filteredTracks].sort((a, b) =>
 			new Date(a.date).getTime() - new Date(b.date).getTime()
 		)
 
 		let output = ''
+		const exportOptions = { timeZone, translations: includeDisplayNames ? translations : undefined }
 
-		if (formatType === 'iso') {
+		if (mode === 'aggregate') {
+			const pivot = buildPivotTable(tracks, selectedTypes.length > 0 ? [...selectedTypes].sort() : trackTypes, {
+				period: aggregationPeriod,
+				timeZone,
+				dayStartHour,
+				range: dateRange
+			})
+			const getLabel = (trackName: string): string => includeDisplayNames ? translations[trackName] ?? trackName : trackName
+			output = aggregateOutput === 'csv' ? pivotToCsv(pivot, getLabel) : pivotToJson(pivot, getLabel)
+		} else if (outputType === 'csv') {
+			output = toCsv(sortedTracks, exportOptions)
+		} else if (outputType === 'ndjson') {
+			output = toNdjson(sortedTracks, exportOptions)
+		} else if (outputType === 'ics') {
+			output = toICalendar(sortedTracks, exportOptions)
+		} else if (formatType === 'iso') {
 			const dates = sortedTracks.map(t => t.date)
 			if (outputType === 'json') {
 				output = JSON.stringify(dates, null, '\t')
@@ -88,7 +130,7 @@ export default function ExportTab (): ReactElement {
 				output = dates.join('\n')
 			}
 		} else {
-			const dates = sortedTracks.map(t => formatDateTime(new Date(t.date)))
+			const dates = sortedTracks.map(t => formatDateTime(new Date(t.date), timeZone))
 			if (outputType === 'json') {
 				output = JSON.stringify(dates, null, '\t')
 			} else {
@@ -97,13 +139,13 @@ export default function ExportTab (): ReactElement {
 		}
 
 		setExportedData(output)
-	}, [tracks, selectedType, formatType, outputType])
+	}, [mode, tracks, trackTypes, selectedTypes, dateRange, aggregationPeriod, aggregateOutput, filteredTracks, formatType, outputType, timeZone, dayStartHour, includeDisplayNames, translations])
 
 	useEffect(() => {
 		if (tracks.length > 0) {
 			generateExport()
 		}
-	}, [tracks, selectedType, formatType, outputType, generateExport])
+	}, [tracks, generateExport])
 
 	const handleCopy = async (): Promise<void> => {
 		try {
@@ -115,15 +157,32 @@ export default function ExportTab (): ReactElement {
 	}
 
 	const handleDownload = (): void => {
-		const blob = new Blob([exportedData], { type: 'text/plain' })
-		const url = URL.createObjectURL(blob)
-		const a = document.createElement('a')
-		a.href = url
-		a.download = `tracks_${selectedType}_${formatType}_${new Date().toISOString().slice(0, 10)}.${outputType === 'json' ? 'json' : 'txt'}`
-		document.body.appendChild(a)
-		a.click()
-		document.body.removeChild(a)
-		URL.revokeObjectURL(url)
+		if (mode === 'aggregate') {
+			const { extension, mimeType } = OUTPUT_FILES[aggregateOutput]
+			downloadFile(
+				exportedData,
+				`counts_${aggregationPeriod}_${describeTypes(selectedTypes)}_${describeDateRange(dateRange)}_${new Date().toISOString().slice(0, 10)}.${extension}`,
+				mimeType
+			)
+			return
+		}
+
+		const { extension, mimeType } = OUTPUT_FILES[outputType]
+		const variant = usesDateFormat(outputType) ? `${formatType}_` : ''
+		downloadFile(
+			exportedData,
+			`tracks_${describeTypes(selectedTypes)}_${describeDateRange(dateRange)}_${variant}${new Date().toISOString().slice(0, 10)}.${extension}`,
+			mimeType
+		)
+	}
+
+	const handleBackupDownload = (): void => {
+		const backup = createBackup(tracks, translations, settings, dayStartHour)
+		downloadFile(
+			JSON.stringify(backup, null, '\t'),
+			`life-tracker-backup_${new Date().toISOString().slice(0, 10)}.json`,
+			'application/json'
+		)
 	}
 
 	if (loading) {
@@ -149,70 +208,237 @@ export default function ExportTab (): ReactElement {
 		)
 	}
 
-	const filteredCount = selectedType === 'all'
-		? tracks.length
-		: tracks.filter(t => t.trackName === selectedType).length
+	const filteredCount = filteredTracks.length
+
+	const toggleType = (type: string): void => {
+		setSelectedTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type])
+	}
+
+	// Local times repeated by a DST fall-back cannot be told apart without an offset
+	const ambiguousCount = mode === 'raw' && formatType === 'string' && usesDateFormat(outputType)
+		? filteredTracks.filter(t => isAmbiguousInTimeZone(new Date(t.date), timeZone)).length
+		: 0
 
 	return (
 		<div className="max-w-4xl mx-auto">
 			<div className="bg-gray-800 rounded-lg p-6 space-y-6">
+				<div className="flex flex-wrap gap-2">
+					{EXPORT_MODES.map(({ value, label }) => (
+						<button
+							key={value}
+							onClick={() => setMode(value)}
+							className={`px-4 py-2 rounded-lg font-medium text-sm transition-colors ${
+								mode === value
+									? 'bg-blue-600 text-white'
+									: 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+							}`}
+						>
+							{label}
+						</button>
+					))}
+				</div>
+
+				<div>
+					<div className="text-gray-300 mb-2 font-medium">{'Track Types'}</div>
+					<div className="flex flex-wrap gap-2">
+						<button
+							onClick={() => setSelectedTypes([])}
+							className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+								selectedTypes.length === 0
+									? 'bg-blue-600 text-white'
+									: 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+							}`}
+						>
+							{`All Types (${tracks.length})`}
+						</button>
+						{trackTypes.map(type => {
+							const count = tracks.filter(t => t.trackName === type).length
+							return (
+								<button
+									key={type}
+									onClick={() => toggleType(type)}
+									className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+										selectedTypes.includes(type)
+											? 'bg-blue-600 text-white'
+											: 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+									}`}
+								>
+									{`${getTranslatedName(type)} (${count})`}
+								</button>
+							)
+						})}
+					</div>
+				</div>
+
 				<div className="grid grid-cols-1 md:grid-cols-3 gap-4">
 					<div>
-						<label htmlFor="trackType" className="block text-gray-300 mb-2 font-medium">
-							{'Track Type'}
+						<label htmlFor="rangePreset" className="block text-gray-300 mb-2 font-medium">
+							{'Date Range'}
 						</label>
 						<select
-							id="trackType"
-							value={selectedType}
-							onChange={(e) => setSelectedType(e.target.value)}
+							id="rangePreset"
+							value={rangePreset}
+							onChange={(e) => {
+								const preset = e.target.value as DateRangePresetId | 'custom'
+								if (preset === 'custom') {
+									// Start editing from whatever the previous preset covered
+									setCustomRange(dateRange)
+								}
+								setRangePreset(preset)
+							}}
 							className="w-full bg-gray-700 text-white px-4 py-2 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
 						>
-							<option value="all">{`All Types (${tracks.length})`}</option>
-							{trackTypes.map(type => {
-								const count = tracks.filter(t => t.trackName === type).length
-								return (
-									<option key={type} value={type}>
-										{`${getTranslatedName(type)} (${count})`}
-									</option>
-								)
-							})}
+							{DATE_RANGE_PRESETS.map(preset => (
+								<option key={preset.id} value={preset.id}>{preset.label}</option>
+							))}
+							<option value="custom">{'Custom'}</option>
 						</select>
 					</div>
-
 					<div>
-						<label htmlFor="format" className="block text-gray-300 mb-2 font-medium">
-							{'Date Format'}
+						<label htmlFor="rangeFrom" className="block text-gray-300 mb-2 font-medium">
+							{'From'}
 						</label>
-						<select
-							id="format"
-							value={formatType}
-							onChange={(e) => setFormatType(e.target.value as FormatType)}
+						<input
+							id="rangeFrom"
+							type="date"
+							value={dateRange.from}
+							max={dateRange.to !== '' ? dateRange.to : undefined}
+							onChange={(e) => {
+								setCustomRange({ ...dateRange, from: e.target.value })
+								setRangePreset('custom')
+							}}
 							className="w-full bg-gray-700 text-white px-4 py-2 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
-						>
-							<option value="string">{'String (DD/MM/YYYY HH:mm:ss)'}</option>
-							<option value="iso">{'ISO 8601 (YYYY-MM-DDTHH:mm:ss.sssZ)'}</option>
-						</select>
+						/>
 					</div>
-
 					<div>
-						<label htmlFor="output" className="block text-gray-300 mb-2 font-medium">
-							{'Output Format'}
+						<label htmlFor="rangeTo" className="block text-gray-300 mb-2 font-medium">
+							{'To'}
 						</label>
-						<select
-							id="output"
-							value={outputType}
-							onChange={(e) => setOutputType(e.target.value as OutputType)}
+						<input
+							id="rangeTo"
+							type="date"
+							value={dateRange.to}
+							min={dateRange.from !== '' ? dateRange.from : undefined}
+							onChange={(e) => {
+								setCustomRange({ ...dateRange, to: e.target.value })
+								setRangePreset('custom')
+							}}
 							className="w-full bg-gray-700 text-white px-4 py-2 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
-						>
-							<option value="list">{'Plain List'}</option>
-							<option value="json">{'JSON Array'}</option>
-						</select>
+						/>
 					</div>
 				</div>
 
+				<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+					{mode === 'raw' ? (
+						<>
+							<div>
+								<label htmlFor="format" className="block text-gray-300 mb-2 font-medium">
+									{'Date Format'}
+								</label>
+								<select
+									id="format"
+									value={formatType}
+									onChange={(e) => setFormatType(e.target.value as FormatType)}
+									disabled={!usesDateFormat(outputType)}
+									className="w-full disabled:opacity-50 bg-gray-700 text-white px-4 py-2 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+								>
+									<option value="string">{'String (DD/MM/YYYY HH:mm:ss)'}</option>
+									<option value="iso">{'ISO 8601 (YYYY-MM-DDTHH:mm:ss.sssZ)'}</option>
+								</select>
+							</div>
+
+							<div>
+								<label htmlFor="output" className="block text-gray-300 mb-2 font-medium">
+									{'Output Format'}
+								</label>
+								<select
+									id="output"
+									value={outputType}
+									onChange={(e) => setOutputType(e.target.value as OutputType)}
+									className="w-full bg-gray-700 text-white px-4 py-2 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+								>
+									<option value="list">{'Plain List'}</option>
+									<option value="json">{'JSON Array'}</option>
+									<option value="csv">{'CSV (spreadsheets)'}</option>
+									<option value="ndjson">{'NDJSON (one track per line)'}</option>
+									<option value="ics">{'iCalendar (.ics)'}</option>
+								</select>
+								{!usesDateFormat(outputType) && (
+									<label className="flex items-center gap-2 mt-2 text-sm text-gray-300">
+										<input
+											type="checkbox"
+											checked={includeDisplayNames}
+											onChange={(e) => setIncludeDisplayNames(e.target.checked)}
+											className="h-4 w-4"
+										/>
+										{outputType === 'ics' ? 'Use display names as event titles' : 'Include display names'}
+									</label>
+								)}
+							</div>
+						</>
+					) : (
+						<>
+							<div>
+								<label htmlFor="aggregationPeriod" className="block text-gray-300 mb-2 font-medium">
+									{'Period'}
+								</label>
+								<select
+									id="aggregationPeriod"
+									value={aggregationPeriod}
+									onChange={(e) => setAggregationPeriod(e.target.value as AggregationPeriod)}
+									className="w-full bg-gray-700 text-white px-4 py-2 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+								>
+									{AGGREGATION_PERIODS.map(({ value, label }) => (
+										<option key={value} value={value}>{label}</option>
+									))}
+								</select>
+							</div>
+
+							<div>
+								<label htmlFor="aggregateOutput" className="block text-gray-300 mb-2 font-medium">
+									{'Output Format'}
+								</label>
+								<select
+									id="aggregateOutput"
+									value={aggregateOutput}
+									onChange={(e) => setAggregateOutput(e.target.value as 'csv' | 'json')}
+									className="w-full bg-gray-700 text-white px-4 py-2 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+								>
+									<option value="csv">{'CSV Pivot Table'}</option>
+									<option value="json">{'JSON'}</option>
+								</select>
+								<label className="flex items-center gap-2 mt-2 text-sm text-gray-300">
+									<input
+										type="checkbox"
+										checked={includeDisplayNames}
+										onChange={(e) => setIncludeDisplayNames(e.target.checked)}
+										className="h-4 w-4"
+									/>
+									{'Use display names as column headers'}
+								</label>
+							</div>
+						</>
+					)}
+
+					<div>
+						<TimeZoneSelect id="exportTimeZone" value={timeZone} onChange={setTimeZone} />
+						{mode === 'raw' && (formatType === 'iso' || outputType === 'ndjson' || outputType === 'ics') && (
+							<p className="text-xs text-gray-500 mt-1">{'ISO 8601 dates are always in UTC'}</p>
+						)}
+					</div>
+				</div>
+
+				{ambiguousCount > 0 && (
+					<div className="p-3 rounded-lg bg-yellow-900/40 text-yellow-200 text-sm">
+						{`${ambiguousCount} exported time${ambiguousCount !== 1 ? 's fall' : ' falls'} in a repeated hour at the end of daylight saving time in ${timeZone} and will be ambiguous without an offset. Use ISO 8601 to keep them exact.`}
+					</div>
+				)}
+
 				<div className="flex items-center justify-between">
 					<div className="text-gray-400 text-sm">
-						{`Exporting ${filteredCount} track${filteredCount !== 1 ? 's' : ''}`}
+						{mode === 'aggregate'
+							? `Counting ${filteredCount} track${filteredCount !== 1 ? 's' : ''} per ${aggregationPeriod === 'week' ? 'ISO week' : aggregationPeriod} in ${timeZone}. Blank cells are coverage gaps, not zero.`
+							: `Exporting ${filteredCount} track${filteredCount !== 1 ? 's' : ''}${(formatType === 'string' && usesDateFormat(outputType)) || outputType === 'csv' ? ` in ${timeZone}` : ''}`}
 					</div>
 					<div className="flex gap-2">
 						<button
@@ -243,6 +469,21 @@ export default function ExportTab (): ReactElement {
 					/>
 				</div>
 
+				<div className="bg-gray-700/50 rounded-lg p-4 flex items-center justify-between gap-4 flex-wrap">
+					<div>
+						<div className="text-gray-300 text-sm font-medium">{'Full Account Backup'}</div>
+						<div className="text-gray-400 text-xs mt-1">
+							{`All ${tracks.length} tracks of every type plus your display names, type settings and day start, restorable from the Import tab.`}
+						</div>
+					</div>
+					<button
+						onClick={handleBackupDownload}
+						className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors"
+					>
+						{'⬇️ Download Backup'}
+					</button>
+				</div>
+
 				<div className="bg-gray-700/50 rounded-lg p-4 space-y-2">
 					<div className="text-gray-300 text-sm font-medium">{'Format Examples:'}</div>
 					<div className="space-y-1 text-xs font-mono">
@@ -254,6 +495,14 @@ export default function ExportTab (): ReactElement {
 							<span className="text-gray-500">{'ISO:'}</span>
 							{' 2021-01-12T08:51:00.000Z'}
 						</div>
+						<div className="text-gray-400">
+							<span className="text-gray-500">{'CSV:'}</span>
+							{' Coffee,2021-01-12T08:51:00.000Z,2021-01-12,09:51:00,Tuesday'}
+						</div>
+						<div className="text-gray-400">
+							<span className="text-gray-500">{'NDJSON:'}</span>
+							{' {"_id":"…","trackName":"Coffee","date":"2021-01-12T08:51:00.000Z",…}'}
+						</div>
 					</div>
 				</div>
 			</div>
@@ -3,11 +3,13 @@
 import { useRef, useEffect, useState, useMemo, type ReactElement } from 'react'
 
 import type { InfluenceEdgeSerializable } from '../utils/continuous/workerTypes'
+import { getDefaultTrackColor } from '../utils/trackTypes'
 
 interface InfluenceGraphProps {
 	edges: InfluenceEdgeSerializable[]
 	typeNames: string[]
 	getTranslatedName: (trackName: string) => string
+	getTrackColor?: (trackName: string) => string
 }
 
 interface Node {
@@ -27,15 +29,6 @@ interface GraphEdge {
 	hazardRatioAt1h: number
 }
 
-function getNodeColor (name: string): string {
-	let hash = 0
-	for (let i = 0; i < name.length; i++) {
-		hash = name.charCodeAt(i) + ((hash << 5) - hash)
-	}
-	const hue = Math.abs(hash % 360)
-	return `hsl(${hue}, 60%, 50%)`
-}
-
 function initializeNodes (typeNames: string[], width: number, height: number): Map<string, Node> {
 	const nodes = new Map<string, Node>()
 	const cx = width / 2
@@ -56,7 +49,7 @@ function initializeNodes (typeNames: string[], width: number, height: number): M
 	return nodes
 }
 
-export default function InfluenceGraph ({ edges, typeNames, getTranslatedName }: InfluenceGraphProps): ReactElement {
+export default function InfluenceGraph ({ edges, typeNames, getTranslatedName, getTrackColor = getDefaultTrackColor }: InfluenceGraphProps): ReactElement {
 	const containerRef = useRef<HTMLDivElement>(null)
 	const [dimensions, setDimensions] = useState({ width: 600, height: 400 })
 	const [hoveredNode, setHoveredNode] = useState<string | null>(null)
@@ -258,7 +251,7 @@ export default function InfluenceGraph ({ edges, typeNames, getTranslatedName }:
 						>
 							<circle
 								r={28}
-								fill={getNodeColor(name)}
+								fill={getTrackColor(name)}
 								fillOpacity={opacity}
 								stroke={highlighted ? '#fff' : 'transparent'}
 								strokeWidth={2}
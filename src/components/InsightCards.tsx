@@ -3,6 +3,7 @@
 import type { ReactElement } from 'react'
 
 import type { CoverageStats, TrackingPeriod } from '../types/Insights'
+import { formatDayKey } from '../utils/dayKeys'
 
 interface CoverageCardProps {
 	coverage: CoverageStats
@@ -58,7 +59,7 @@ function TimelineSegment ({ period, totalDays }: TimelineSegmentProps): ReactEle
 		<div
 			className={period.isGap ? 'bg-red-900' : 'bg-green-700'}
 			style={segmentStyle}
-			title={`${period.isGap ? 'Gap' : 'Active'}: ${period.startDate.toLocaleDateString()} - ${period.endDate.toLocaleDateString()} (${period.dayCount} days)`}
+			title={`${period.isGap ? 'Gap' : 'Active'}: ${formatDayKey(period.startDay)} - ${formatDayKey(period.endDay)} (${period.dayCount} days)`}
 		/>
 	)
 }
@@ -77,8 +78,8 @@ function CoverageTimeline ({ periods }: CoverageTimelineProps): ReactElement {
 				))}
 			</div>
 			<div className="flex justify-between text-xs text-gray-500 mt-1">
-				<span>{periods[0]?.startDate.toLocaleDateString()}</span>
-				<span>{periods[periods.length - 1]?.endDate.toLocaleDateString()}</span>
+				<span>{formatDayKey(periods[0].startDay)}</span>
+				<span>{formatDayKey(periods[periods.length - 1].endDay)}</span>
 			</div>
 		</div>
 	)
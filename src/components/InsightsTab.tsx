@@ -1,18 +1,17 @@
 'use client'
 
-import axios from 'axios'
-import { useState, useEffect, useCallback, type ReactElement } from 'react'
+import { useState, useEffect, useMemo, type ReactElement } from 'react'
 
+import { useTracks } from '../contexts/TrackContext/TrackContext'
+import { useTrackTypes } from '../contexts/TrackTypeContext/TrackTypeContext'
 import { useInsightsWorker } from '../hooks/useInsightsWorker'
-import type { Track } from '../types/Track'
-import type { User } from '../types/User'
+import { getBrowserTimeZone } from '../utils/timezone'
+import { getCategories } from '../utils/trackTypes'
 
 import ActivityCalendar from './ActivityCalendar'
 import InfluenceGraph from './InfluenceGraph'
 import { CoverageCard, InfluenceEdgeCard, BaselineRhythmCard } from './InsightCards'
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:3000'
-
 interface ProgressBarProps {
 	percent: number
 	stage: string
@@ -40,61 +39,37 @@ function ProgressBar ({ percent, stage, detail }: ProgressBarProps): ReactElemen
 }
 
 export default function InsightsTab (): ReactElement {
-	const [tracks, setTracks] = useState<Track[]>([])
-	const [loading, setLoading] = useState(true)
-	const [translations, setTranslations] = useState<Record<string, string>>({})
+	const { tracks, loading } = useTracks()
+	const { translations, settings, getTranslatedName, getTrackColor, dayStartHour } = useTrackTypes()
+	const timeZone = useMemo(() => getBrowserTimeZone(), [])
+	// null analyses every type together
+	const [selectedCategory, setSelectedCategory] = useState<string | null>(null)
 	const [excitingExpanded, setExcitingExpanded] = useState(false)
 	const [inhibitingExpanded, setInhibitingExpanded] = useState(false)
 	const [rhythmsExpanded, setRhythmsExpanded] = useState(false)
 
 	const { result: continuousResult, analyzing, progress, error, analyze, cancel } = useInsightsWorker()
 
-	const getTranslatedName = (trackName: string): string => {
-		return translations[trackName] ?? trackName
-	}
-
-	const fetchTracks = useCallback(async (): Promise<void> => {
-		setLoading(true)
-		try {
-			const response = await axios.get<Track[]>(`${API_URL}/v1/tracks`, {
-				withCredentials: true
-			})
-			setTracks(response.data)
-		} catch (err) {
-			console.error('Failed to fetch tracks:', err)
-		} finally {
-			setLoading(false)
-		}
-	}, [])
-
-	useEffect(() => {
-		fetchTracks().catch(console.error)
-
-		const fetchUser = async (): Promise<void> => {
-			try {
-				const response = await axios.get<User>(`${API_URL}/v1/users/user`, {
-					withCredentials: true
-				})
-				setTranslations(response.data.trackNameTranslations ?? {})
-			} catch (error) {
-				console.error('Failed to fetch user:', error)
-			}
-		}
+	const categories = useMemo(() => getCategories(settings), [settings])
+	// A category that no longer exists falls back to every type
+	const activeCategory = selectedCategory !== null && categories.includes(selectedCategory) ? selectedCategory : null
 
-		fetchUser().catch(console.error)
-	}, [fetchTracks])
+	const analyzedTracks = useMemo(
+		() => activeCategory === null ? tracks : tracks.filter(track => settings[track.trackName]?.category === activeCategory),
+		[tracks, settings, activeCategory]
+	)
 
 	useEffect(() => {
-		if (tracks.length === 0) {
+		if (analyzedTracks.length === 0) {
 			return
 		}
 
-		analyze(tracks, { translations })
+		analyze(analyzedTracks, { translations, timeZone, dayStartHour })
 
 		return () => {
 			cancel()
 		}
-	}, [tracks, analyze, cancel, translations])
+	}, [analyzedTracks, analyze, cancel, translations, timeZone, dayStartHour])
 
 	if (loading) {
 		return (
@@ -119,10 +94,45 @@ export default function InsightsTab (): ReactElement {
 		)
 	}
 
+	const header = (
+		<div className="flex flex-wrap items-center justify-between gap-3">
+			<h2 className="text-2xl font-bold text-gray-200">{'Insights'}</h2>
+			{categories.length > 0 && (
+				<div className="flex flex-wrap gap-2">
+					{[null, ...categories].map(category => (
+						<button
+							key={category ?? ''}
+							onClick={() => setSelectedCategory(category)}
+							disabled={analyzing}
+							className={`px-3 py-1 rounded text-sm transition-colors disabled:opacity-50 ${
+								activeCategory === category
+									? 'bg-blue-600 text-white'
+									: 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+							}`}
+						>
+							{category ?? 'All types'}
+						</button>
+					))}
+				</div>
+			)}
+		</div>
+	)
+
+	if (analyzedTracks.length === 0) {
+		return (
+			<div className="space-y-6">
+				{header}
+				<div className="text-center py-10">
+					<div className="text-gray-400">{'No tracks in this category yet'}</div>
+				</div>
+			</div>
+		)
+	}
+
 	if (analyzing && progress) {
 		return (
 			<div className="space-y-6">
-				<h2 className="text-2xl font-bold text-gray-200">{'Insights'}</h2>
+				{header}
 				<div className="py-10">
 					<div className="text-center mb-6">
 						<div className="text-gray-400 mb-2">{'Fitting continuous-time point process model'}</div>
@@ -140,12 +150,12 @@ export default function InsightsTab (): ReactElement {
 	if (error !== null && error !== '') {
 		return (
 			<div className="space-y-6">
-				<h2 className="text-2xl font-bold text-gray-200">{'Insights'}</h2>
+				{header}
 				<div className="text-center py-10">
 					<div className="text-red-400">{'Analysis failed'}</div>
 					<div className="text-gray-500 text-sm mt-1">{error}</div>
 					<button
-						onClick={() => analyze(tracks)}
+						onClick={() => analyze(analyzedTracks, { translations, timeZone, dayStartHour })}
 						className="mt-4 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors"
 					>
 						{'Retry'}
@@ -158,7 +168,7 @@ export default function InsightsTab (): ReactElement {
 	if (continuousResult === null || !continuousResult.modelFitted) {
 		return (
 			<div className="space-y-6">
-				<h2 className="text-2xl font-bold text-gray-200">{'Insights'}</h2>
+				{header}
 				<div className="text-center py-10">
 					<div className="text-gray-400">{'Insufficient data for continuous analysis'}</div>
 					<div className="text-gray-500 text-sm mt-1">
@@ -176,10 +186,17 @@ export default function InsightsTab (): ReactElement {
 
 	return (
 		<div className="space-y-6">
-			<h2 className="text-2xl font-bold text-gray-200">{'Insights'}</h2>
+			{header}
 
 			<div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
-				<ActivityCalendar tracks={tracks} coverage={continuousResult.coverage} getTranslatedName={getTranslatedName} />
+				<ActivityCalendar
+					tracks={analyzedTracks}
+					coverage={continuousResult.coverage}
+					timeZone={timeZone}
+					dayStartHour={dayStartHour}
+					getTranslatedName={getTranslatedName}
+					getTrackColor={getTrackColor}
+				/>
 			</div>
 			<CoverageCard coverage={continuousResult.coverage} />
 
@@ -194,6 +211,7 @@ export default function InsightsTab (): ReactElement {
 						edges={influenceEdges}
 						typeNames={continuousResult.baselines.map(b => b.typeName)}
 						getTranslatedName={getTranslatedName}
+						getTrackColor={getTrackColor}
 					/>
 				</div>
 			)}
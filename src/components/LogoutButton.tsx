@@ -0,0 +1,49 @@
+'use client'
+
+import { useState, type ReactElement } from 'react'
+
+import { useError } from '@/contexts/ErrorContext/ErrorContext'
+import { useTrackStore } from '@/contexts/TrackContext/TrackContext'
+import { logout } from '@/utils/api'
+
+interface LogoutButtonProps {
+	onLoggedOut: () => void
+}
+
+export default function LogoutButton ({ onLoggedOut }: LogoutButtonProps): ReactElement {
+	const { syncNow, clearLocalData } = useTrackStore()
+	const { addError } = useError()
+	const [loggingOut, setLoggingOut] = useState(false)
+
+	const handleLogout = async (): Promise<void> => {
+		setLoggingOut(true)
+		try {
+			// Offline changes only exist on this device, so they get one last chance to reach the server
+			const unsynced = await syncNow()
+			if (unsynced > 0) {
+				const confirmed = confirm(
+					`${unsynced} offline change${unsynced !== 1 ? 's have' : ' has'} not been synced yet and will be lost if you log out now. Log out anyway?`
+				)
+				if (!confirmed) { return }
+			}
+			await logout()
+			await clearLocalData()
+			onLoggedOut()
+		} catch (error) {
+			console.error('Logout failed:', error)
+			addError(error)
+		} finally {
+			setLoggingOut(false)
+		}
+	}
+
+	return (
+		<button
+			onClick={() => { handleLogout().catch(console.error) }}
+			disabled={loggingOut}
+			className="px-3 sm:px-4 py-2 rounded-lg text-sm sm:text-base font-medium bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-50 transition-colors whitespace-nowrap"
+		>
+			{loggingOut ? 'Logging out...' : 'Logout'}
+		</button>
+	)
+}
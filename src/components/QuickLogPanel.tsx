@@ -0,0 +1,176 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState, type ReactElement } from 'react'
+
+import { useError } from '@/contexts/ErrorContext/ErrorContext'
+import { useTrackNames, useTrackStore } from '@/contexts/TrackContext/TrackContext'
+import { useTrackTypes } from '@/contexts/TrackTypeContext/TrackTypeContext'
+
+type OffsetUnit = 'minutes' | 'hours'
+
+const OFFSET_UNITS: Array<{ value: OffsetUnit, label: string, ms: number }> = [
+	{ value: 'minutes', label: 'minutes ago', ms: 60 * 1000 },
+	{ value: 'hours', label: 'hours ago', ms: 60 * 60 * 1000 }
+]
+
+// How long the undo toast stays up after logging
+const UNDO_TIMEOUT_MS = 8000
+
+interface LoggedTrack {
+	trackName: string
+	date: string
+	// 'saving' until the server (or the offline outbox) has the track, only then can it be undone
+	state: 'saving' | 'saved' | 'undoing'
+	queued: boolean
+}
+
+export default function QuickLogPanel (): ReactElement | null {
+	const trackNames = useTrackNames()
+	const { tracks, importTracks, deleteTrack, revalidate } = useTrackStore()
+	const { addError } = useError()
+	const { getTranslatedName, getTrackColor, getTrackIcon, isArchived } = useTrackTypes()
+	const [useCustomTime, setUseCustomTime] = useState(false)
+	const [offsetAmount, setOffsetAmount] = useState('15')
+	const [offsetUnit, setOffsetUnit] = useState<OffsetUnit>('minutes')
+	const [logged, setLogged] = useState<LoggedTrack | null>(null)
+
+	useEffect(() => {
+		if (logged?.state !== 'saved') { return }
+		const timer = setTimeout(() => setLogged(null), UNDO_TIMEOUT_MS)
+		return () => clearTimeout(timer)
+	}, [logged])
+
+	// Archived types are not offered, they are no longer being tracked
+	const sortedNames = useMemo(
+		() => trackNames.filter(name => !isArchived(name)).sort((a, b) => getTranslatedName(a).localeCompare(getTranslatedName(b))),
+		[trackNames, isArchived, getTranslatedName]
+	)
+
+	const offsetMs = useMemo(() => {
+		if (!useCustomTime) { return 0 }
+		const amount = Number(offsetAmount)
+		const unit = OFFSET_UNITS.find(u => u.value === offsetUnit) ?? OFFSET_UNITS[0]
+		return Number.isFinite(amount) && amount > 0 ? amount * unit.ms : 0
+	}, [useCustomTime, offsetAmount, offsetUnit])
+
+	const handleLog = useCallback(async (trackName: string): Promise<void> => {
+		const date = new Date(Date.now() - offsetMs).toISOString()
+		setLogged({ trackName, date, state: 'saving', queued: false })
+		try {
+			const { queued } = await importTracks(trackName, [date])
+			// Wait for the server copy so undo deletes the real track rather than its placeholder
+			if (queued === 0) {
+				await revalidate()
+			}
+			setLogged(prev => prev?.date === date ? { ...prev, state: 'saved', queued: queued > 0 } : prev)
+		} catch (error) {
+			console.error('Failed to log track:', error)
+			addError(error)
+			setLogged(prev => prev?.date === date ? null : prev)
+		}
+	}, [offsetMs, importTracks, revalidate, addError])
+
+	const handleUndo = async (): Promise<void> => {
+		if (logged === null) { return }
+		const time = new Date(logged.date).getTime()
+		const track = tracks.find(t => t.trackName === logged.trackName && new Date(t.date).getTime() === time)
+		if (track === undefined) {
+			setLogged(null)
+			return
+		}
+		setLogged({ ...logged, state: 'undoing' })
+		try {
+			await deleteTrack(track._id)
+			setLogged(null)
+		} catch (error) {
+			console.error('Failed to undo track:', error)
+			addError(error)
+			setLogged({ ...logged, state: 'saved' })
+		}
+	}
+
+	if (sortedNames.length === 0) {
+		return null
+	}
+
+	const loggedLabel = logged !== null
+		? `${getTranslatedName(logged.trackName)} logged at ${new Date(logged.date).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}`
+		: ''
+
+	return (
+		<div className="max-w-7xl mx-auto mb-6 bg-gray-800 rounded-lg p-4 space-y-3">
+			<div className="flex flex-wrap items-center justify-between gap-3">
+				<h2 className="text-lg font-semibold text-white">{'Quick Log'}</h2>
+				<div className="flex flex-wrap items-center gap-2 text-sm">
+					<label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+						<input
+							type="checkbox"
+							checked={useCustomTime}
+							onChange={(e) => setUseCustomTime(e.target.checked)}
+							className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500"
+						/>
+						{'Custom time'}
+					</label>
+					{useCustomTime && (
+						<>
+							<input
+								type="number"
+								min="1"
+								value={offsetAmount}
+								onChange={(e) => setOffsetAmount(e.target.value)}
+								aria-label="Time offset"
+								className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+							/>
+							<select
+								value={offsetUnit}
+								onChange={(e) => setOffsetUnit(e.target.value as OffsetUnit)}
+								aria-label="Time offset unit"
+								className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+							>
+								{OFFSET_UNITS.map(unit => (
+									<option key={unit.value} value={unit.value}>{unit.label}</option>
+								))}
+							</select>
+						</>
+					)}
+				</div>
+			</div>
+
+			<div className="flex flex-wrap gap-2">
+				{sortedNames.map(trackName => (
+					<button
+						key={trackName}
+						onClick={() => { handleLog(trackName).catch(console.error) }}
+						disabled={logged?.state === 'saving'}
+						className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm bg-gray-700 text-gray-200 hover:bg-blue-600 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+					>
+						<span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: getTrackColor(trackName) }} />
+						{`${getTrackIcon(trackName)} ${getTranslatedName(trackName)}`.trim()}
+					</button>
+				))}
+			</div>
+
+			{logged !== null && (
+				<div
+					className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 rounded-lg shadow-lg bg-gray-700 border border-gray-600 px-4 py-3 text-sm text-gray-100"
+					role="status"
+				>
+					<span>
+						{logged.state === 'saving'
+							? `Logging ${getTranslatedName(logged.trackName)}...`
+							: logged.queued ? `${loggedLabel} (offline, will sync later)` : loggedLabel}
+					</span>
+					{logged.state !== 'saving' && (
+						<button
+							onClick={() => { handleUndo().catch(console.error) }}
+							disabled={logged.state === 'undoing'}
+							className="px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+						>
+							{'Undo'}
+						</button>
+					)}
+				</div>
+			)}
+		</div>
+	)
+}
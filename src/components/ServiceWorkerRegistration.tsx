@@ -0,0 +1,13 @@
+'use client'
+
+import { useEffect } from 'react'
+
+import { registerServiceWorker } from '@/utils/serviceWorker'
+
+export default function ServiceWorkerRegistration (): null {
+	useEffect(() => {
+		registerServiceWorker().catch(error => console.error('Failed to register service worker:', error))
+	}, [])
+
+	return null
+}
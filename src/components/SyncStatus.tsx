@@ -0,0 +1,55 @@
+'use client'
+
+import { type ReactElement } from 'react'
+
+import { useTrackStore } from '@/contexts/TrackContext/TrackContext'
+
+export default function SyncStatus (): ReactElement | null {
+	const { online, syncing, pendingChanges, conflicts, syncNow, dismissConflict } = useTrackStore()
+
+	if (online && !syncing && pendingChanges === 0 && conflicts.length === 0) {
+		return null
+	}
+
+	const changes = `${pendingChanges} change${pendingChanges !== 1 ? 's' : ''}`
+	const message = !online
+		? (pendingChanges > 0 ? `Offline, ${changes} will sync when you reconnect` : 'Offline, showing the last synced tracks')
+		: syncing
+			? `Syncing ${changes}...`
+			: pendingChanges > 0 ? `${changes} waiting to sync` : null
+
+	return (
+		<div className="max-w-7xl mx-auto mb-6 space-y-2">
+			{message !== null && (
+				<div className={`flex items-center justify-between gap-4 rounded-lg px-4 py-2 text-sm ${
+					online ? 'bg-blue-900/40 border border-blue-700 text-blue-200' : 'bg-gray-800 border border-gray-600 text-gray-300'
+				}`}
+				>
+					<span>{message}</span>
+					{online && !syncing && pendingChanges > 0 && (
+						<button
+							onClick={() => { syncNow().catch(console.error) }}
+							className="px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+						>
+							{'Retry now'}
+						</button>
+					)}
+				</div>
+			)}
+			{conflicts.map(conflict => (
+				<div
+					key={conflict.entryId}
+					className="flex items-center justify-between gap-4 rounded-lg px-4 py-2 text-sm bg-yellow-900/40 border border-yellow-700 text-yellow-200"
+				>
+					<span>{conflict.message}</span>
+					<button
+						onClick={() => dismissConflict(conflict.entryId)}
+						className="px-3 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+					>
+						{'Dismiss'}
+					</button>
+				</div>
+			))}
+		</div>
+	)
+}
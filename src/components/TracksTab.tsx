@@ -1,123 +1,115 @@
 'use client'
 
-import axios from 'axios'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
 import { useCallback, useEffect, useMemo, useState, type ReactElement } from 'react'
 
+import BulkActionsBar from '@/components/tracks/BulkActionsBar'
+import BulkConfirmDialog from '@/components/tracks/BulkConfirmDialog'
+import HistoryPanel from '@/components/tracks/HistoryPanel'
+import SplitTrackType from '@/components/tracks/SplitTrackType'
+import TrackEditRow from '@/components/tracks/TrackEditRow'
+import TrackFilterBar from '@/components/tracks/TrackFilterBar'
+import TrackTypeSettingsFields from '@/components/tracks/TrackTypeSettingsFields'
+import TrackTypeChips from '@/components/ui/TrackTypeChips'
+import { useError } from '@/contexts/ErrorContext/ErrorContext'
+import { isPendingTrack, useTrackNames, useTracks, useTrackStore, type BatchResult, type UndoResult } from '@/contexts/TrackContext/TrackContext'
+import { useTrackTypes } from '@/contexts/TrackTypeContext/TrackTypeContext'
+import { useServerTrackNames, useServerTrackPage } from '@/hooks/useServerTracks'
+import { useVirtualRows } from '@/hooks/useVirtualRows'
 import type { Track } from '@/types/Track'
-import type { User } from '@/types/User'
-
-const API_URL = process.env.NEXT_PUBLIC_API_URL
+import type { TrackChanges } from '@/utils/api'
+import { describeBulkAction, planUpdates, summarizeSelection, type BulkAction } from '@/utils/bulkActions'
+import type { JournalEntry } from '@/utils/journal'
+import { getBrowserTimeZone } from '@/utils/timezone'
+import { createTrackFilter, EMPTY_TRACK_FILTERS, hasActiveFilters, parseTrackFilters, writeTrackFilters, type TrackFilters } from '@/utils/trackFilters'
+import { getCategories } from '@/utils/trackTypes'
+
+// Matches the py-4 cells plus the row divider
+const ROW_HEIGHT = 53
+// Smaller pages render every row, windowing only pays off for the larger page sizes
+const VIRTUALIZE_FROM = 200
+const PAGE_SIZES = [50, 100, 250, 500, 1000, 5000]
 
 export default function TracksTab (): ReactElement {
-	const [tracks, setTracks] = useState<Track[]>([])
-	const [totalCount, setTotalCount] = useState(0)
-	const [loading, setLoading] = useState(true)
+	const router = useRouter()
+	const pathname = usePathname()
+	const searchParams = useSearchParams()
+	const { tracks, loading } = useTracks()
+	const { deleteTrack, updateTrack, deleteTracks, updateTracks, renameTrackType, journal, undoJournalEntry, editingSupported } = useTrackStore()
+	const allTrackNames = useTrackNames()
 	const [showProblematic, setShowProblematic] = useState(false)
 	const [page, setPage] = useState(1)
 	const [pageSize, setPageSize] = useState(100)
 	const [sortField, setSortField] = useState<'date' | 'trackName'>('date')
 	const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc')
-	const [trackNames, setTrackNames] = useState<string[]>([])
-	const [selectedTrackName, setSelectedTrackName] = useState<string>('All')
-	const [translations, setTranslations] = useState<Record<string, string>>({})
-	const [editingTranslation, setEditingTranslation] = useState<string | null>(null)
+	// Mirrored into the query string so a filtered view can be bookmarked or shared
+	const [filters, setFilters] = useState<TrackFilters>(() => parseTrackFilters(searchParams))
+	const { translations, settings, saveTranslations: saveTranslationsRequest, renameTrackTypeEntries, getTranslatedName } = useTrackTypes()
+	// Display name being typed, saved when the field loses focus
+	const [translationDraft, setTranslationDraft] = useState<{ trackName: string, value: string } | null>(null)
 	const [savingTranslations, setSavingTranslations] = useState(false)
 	const [editingTrackName, setEditingTrackName] = useState<Record<string, string>>({})
 	const [renamingTrackName, setRenamingTrackName] = useState(false)
 	const [lockedTrackNames, setLockedTrackNames] = useState<Record<string, boolean>>({})
 	const [trackManagementExpanded, setTrackManagementExpanded] = useState(false)
-
-	const fetchTracks = useCallback(async (): Promise<void> => {
-		setLoading(true)
-		try {
-			const sortParam = sortField === 'date'
-				? (sortDirection === 'asc' ? 'date' : '-date')
-				: (sortDirection === 'asc' ? 'trackName' : '-trackName')
-
-			const response = await axios.get<Track[]>(`${API_URL}/v1/tracks`, {
-				withCredentials: true,
-				params: {
-					trackName: selectedTrackName === 'All' ? undefined : selectedTrackName,
-					sort: sortParam,
-					limit: pageSize,
-					skip: (page - 1) * pageSize
-				}
-			})
-			setTracks(response.data)
-
-			if (page === 1) {
-				const countResponse = await axios.get<Track[]>(`${API_URL}/v1/tracks`, {
-					withCredentials: true,
-					params: {
-						trackName: selectedTrackName === 'All' ? undefined : selectedTrackName
-					}
-				})
-				setTotalCount(countResponse.data.length)
-			}
-		} catch (error) {
-			console.error('Failed to fetch tracks:', error)
-		} finally {
-			setLoading(false)
-		}
-	}, [sortField, sortDirection, page, pageSize, selectedTrackName])
-
-	const fetchTrackNames = useCallback(async (): Promise<void> => {
-		try {
-			const response = await axios.get<Track[]>(`${API_URL}/v1/tracks`, {
-				withCredentials: true
-			})
-			const allNames = [...new Set(response.data.map(t => t.trackName))].sort()
-			setTrackNames(['All', ...allNames])
-		} catch (error) {
-			console.error('Failed to fetch track names:', error)
-		}
-	}, [])
-
-	const fetchUser = useCallback(async (): Promise<void> => {
-		try {
-			const response = await axios.get<User>(`${API_URL}/v1/users/user`, {
-				withCredentials: true
-			})
-			setTranslations(response.data.trackNameTranslations ?? {})
-		} catch (error) {
-			console.error('Failed to fetch user:', error)
-		}
+	const [editingTrackId, setEditingTrackId] = useState<string | null>(null)
+	const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+	// Last row clicked without shift, the other end of a shift-click range
+	const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null)
+	const [pendingAction, setPendingAction] = useState<BulkAction | null>(null)
+	const [runningBulk, setRunningBulk] = useState(false)
+	const [lastBatch, setLastBatch] = useState<{ message: string, journalId: string | null } | null>(null)
+	const [undoingBatch, setUndoingBatch] = useState(false)
+	const { addError } = useError()
+
+	const trackNames = useMemo(() => ['All', ...allTrackNames], [allTrackNames])
+	// Lets a first visit show the type buttons before the full list has downloaded
+	const serverTrackNames = useServerTrackNames(loading)
+	const filterTrackNames = serverTrackNames ?? allTrackNames
+	const categories = useMemo(() => getCategories(settings), [settings])
+	const timeZone = useMemo(() => getBrowserTimeZone(), [])
+	const selectedTrackName = filters.trackName === '' ? 'All' : filters.trackName
+
+	const setSelectedTrackName = useCallback((name: string): void => {
+		setFilters(prev => ({ ...prev, trackName: name === 'All' ? '' : name }))
 	}, [])
 
 	const saveTranslations = useCallback(async (newTranslations: Record<string, string>): Promise<void> => {
 		setSavingTranslations(true)
 		try {
-			await axios.patch(
-				`${API_URL}/v1/users/track-name-translations`,
-				{ translations: newTranslations },
-				{ withCredentials: true }
-			)
-			setTranslations(newTranslations)
+			await saveTranslationsRequest(newTranslations)
 		} catch (error) {
 			console.error('Failed to save translations:', error)
 			alert('Failed to save translations. Please try again.')
 		} finally {
 			setSavingTranslations(false)
 		}
-	}, [])
-
-	const getTranslatedName = useCallback((trackName: string): string => {
-		return translations[trackName] ?? trackName
-	}, [translations])
+	}, [saveTranslationsRequest])
 
 	useEffect(() => {
-		fetchTrackNames().catch(console.error)
-		fetchUser().catch(console.error)
-	}, [fetchTrackNames, fetchUser])
+		// The selected type may disappear after a rename elsewhere, or a shared link may name a type this user does not have
+		if (!loading && selectedTrackName !== 'All' && !allTrackNames.includes(selectedTrackName)) {
+			setSelectedTrackName('All')
+		}
+	}, [loading, allTrackNames, selectedTrackName, setSelectedTrackName])
 
 	useEffect(() => {
-		fetchTracks().catch(console.error)
-	}, [fetchTracks])
+		const next = writeTrackFilters(filters, new URLSearchParams(searchParams.toString())).toString()
+		if (next !== searchParams.toString()) {
+			router.replace(next !== '' ? `${pathname}?${next}` : pathname, { scroll: false })
+		}
+	}, [filters, searchParams, router, pathname])
 
 	useEffect(() => {
 		// Reset to page 1 when switching between views or changing sort/filter
 		setPage(1)
-	}, [showProblematic, sortField, sortDirection, selectedTrackName])
+	}, [showProblematic, sortField, sortDirection, filters])
+
+	useEffect(() => {
+		// A selection only makes sense within the list it was made in
+		setSelectedIds(new Set())
+		setSelectionAnchor(null)
+	}, [showProblematic, filters])
 
 	const handleDelete = useCallback(async (trackId: string): Promise<void> => {
 		if (!confirm('Are you sure you want to delete this track?')) {
@@ -125,17 +117,17 @@ export default function TracksTab (): ReactElement {
 		}
 
 		try {
-			await axios.delete(`${API_URL}/v1/tracks/${trackId}`, {
-				data: { confirm: true },
-				withCredentials: true
-			})
-			setTracks(prev => prev.filter(t => t._id !== trackId))
-			setTotalCount(prev => prev - 1)
+			await deleteTrack(trackId)
 		} catch (error) {
 			console.error('Failed to delete track:', error)
 			alert('Failed to delete track. Please try again.')
 		}
-	}, [])
+	}, [deleteTrack])
+
+	const handleUpdate = useCallback(async (trackId: string, changes: TrackChanges): Promise<void> => {
+		await updateTrack(trackId, changes)
+		setEditingTrackId(null)
+	}, [updateTrack])
 
 	const handleInlineRename = useCallback(async (oldName: string, newName: string): Promise<void> => {
 		const trimmedOld = oldName.trim()
@@ -156,7 +148,7 @@ export default function TracksTab (): ReactElement {
 			const confirmed = confirm(
 				`Warning: A track type named "${trimmedNew}" already exists. ` +
 				`Renaming "${trimmedOld}" to "${trimmedNew}" will combine all tracks from both types. ` +
-				'This action cannot be undone and there will be no way to separate them again.\n\n' +
+				'You can separate them again from the History panel while the merge is still listed there.\n\n' +
 				'Do you want to continue?'
 			)
 			if (!confirmed) {
@@ -172,25 +164,12 @@ export default function TracksTab (): ReactElement {
 
 		setRenamingTrackName(true)
 		try {
-			const response = await axios.patch<{ modifiedCount: number }>(
-				`${API_URL}/v1/tracks/bulk/rename`,
-				{ oldName: trimmedOld, newName: trimmedNew },
-				{ withCredentials: true }
-			)
-
-			alert(`Successfully renamed ${response.data.modifiedCount} track${response.data.modifiedCount !== 1 ? 's' : ''}`)
+			const { modifiedCount } = await renameTrackType(trimmedOld, trimmedNew)
 
-			// Update translations if the old name had a translation
-			if (translations[trimmedOld]) {
-				const newTranslations = { ...translations }
-				newTranslations[trimmedNew] = newTranslations[trimmedOld]
-				delete newTranslations[trimmedOld]
-				await saveTranslations(newTranslations)
-			}
+			alert(`Successfully renamed ${modifiedCount} track${modifiedCount !== 1 ? 's' : ''}`)
 
-			// Refresh track names and tracks
-			await fetchTrackNames()
-			await fetchTracks()
+			// The display name and type settings follow the rename
+			await renameTrackTypeEntries(trimmedOld, trimmedNew)
 
 			// Clear editing state
 			setEditingTrackName(prev => {
@@ -210,14 +189,185 @@ export default function TracksTab (): ReactElement {
 		} finally {
 			setRenamingTrackName(false)
 		}
-	}, [trackNames, translations, saveTranslations, fetchTrackNames, fetchTracks])
-
-	const problematicTracks = useMemo(() => tracks.filter(track => isNaN(new Date(track.date).getTime())), [tracks])
-	const validTracks = useMemo(() => tracks.filter(track => !isNaN(new Date(track.date).getTime())), [tracks])
+	}, [trackNames, renameTrackTypeEntries, renameTrackType])
 
-	const currentTracks = showProblematic ? problematicTracks : validTracks
+	const invalidTracks = useMemo(() => tracks.filter(track => isNaN(new Date(track.date).getTime())), [tracks])
+	// Tracks without a valid date are only narrowed by type and search, the date filters cannot place them
+	const problematicTracks = useMemo(
+		() => invalidTracks.filter(createTrackFilter({ ...EMPTY_TRACK_FILTERS, query: filters.query, trackName: filters.trackName }, timeZone, getTranslatedName)),
+		[invalidTracks, filters.query, filters.trackName, timeZone, getTranslatedName]
+	)
+	const validTracks = useMemo(() => {
+		const valid = tracks.filter(createTrackFilter(filters, timeZone, getTranslatedName))
+		const direction = sortDirection === 'asc' ? 1 : -1
+		return valid.sort((a, b) => sortField === 'date'
+			? (new Date(a.date).getTime() - new Date(b.date).getTime()) * direction
+			: a.trackName.localeCompare(b.trackName) * direction)
+	}, [tracks, filters, timeZone, getTranslatedName, sortField, sortDirection])
+
+	// The server only understands the type and the sort, the other filters and the problematic view page the shared store
+	const serverPage = useServerTrackPage({
+		trackName: filters.trackName,
+		sort: `${sortDirection === 'desc' ? '-' : ''}${sortField}`,
+		page,
+		pageSize,
+		enabled: !showProblematic && !hasActiveFilters(filters),
+		storeTracks: tracks,
+		storeReady: !loading
+	})
+	const serverPaged = serverPage.available
+	const tableLoading = serverPaged ? serverPage.tracks === null : loading
+
+	const totalCount = serverPaged ? serverPage.totalCount : validTracks.length
+	// What the filter bar counts against, the type buttons narrow the view before the filters do
+	const typeTotalCount = useMemo(() => {
+		if (serverPaged) { return serverPage.totalCount }
+		const invalidIds = new Set(invalidTracks.map(t => t._id))
+		return tracks.filter(t => !invalidIds.has(t._id) && (filters.trackName === '' || t.trackName === filters.trackName)).length
+	}, [serverPaged, serverPage.totalCount, invalidTracks, tracks, filters.trackName])
 	const totalPages = Math.ceil(totalCount / pageSize)
-	const displayTracks = currentTracks
+	const displayTracks = showProblematic
+		? problematicTracks
+		: serverPaged
+			? serverPage.tracks ?? []
+			: validTracks.slice((page - 1) * pageSize, page * pageSize)
+
+	// Shift-click ranges stay within the rows on screen when they come from the server
+	const currentTracks = showProblematic ? problematicTracks : serverPaged ? displayTracks : validTracks
+	// What "select all matching" picks, every track of the type once the store has them
+	const matchingTracks = useMemo(() => {
+		if (!serverPaged || loading) { return currentTracks }
+		return filters.trackName === '' ? tracks : tracks.filter(t => t.trackName === filters.trackName)
+	}, [serverPaged, loading, currentTracks, tracks, filters.trackName])
+	const selectedTracks = useMemo(() => matchingTracks.filter(t => selectedIds.has(t._id)), [matchingTracks, selectedIds])
+	const virtualRows = useVirtualRows({
+		count: displayTracks.length,
+		rowHeight: ROW_HEIGHT,
+		enabled: !tableLoading && displayTracks.length >= VIRTUALIZE_FROM
+	})
+	const { containerRef: tableContainerRef } = virtualRows
+
+	useEffect(() => {
+		// A new page or filter starts at the top of the table
+		tableContainerRef.current?.scrollTo({ top: 0 })
+	}, [tableContainerRef, page, pageSize, showProblematic, sortField, sortDirection, filters])
+
+	const selectableOnPage = displayTracks.filter(t => !isPendingTrack(t))
+	const pageSelected = selectableOnPage.length > 0 && selectableOnPage.every(t => selectedIds.has(t._id))
+
+	const toggleSelection = (trackId: string, range: boolean): void => {
+		const anchorIndex = selectionAnchor !== null ? currentTracks.findIndex(t => t._id === selectionAnchor) : -1
+		const index = currentTracks.findIndex(t => t._id === trackId)
+		setSelectedIds(prev => {
+			const next = new Set(prev)
+			if (range && anchorIndex !== -1 && index !== -1) {
+				const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex]
+				currentTracks.slice(from, to + 1).filter(t => !isPendingTrack(t)).forEach(t => next.add(t._id))
+			} else if (next.has(trackId)) {
+				next.delete(trackId)
+			} else {
+				next.add(trackId)
+			}
+			return next
+		})
+		if (!range) {
+			setSelectionAnchor(trackId)
+		}
+	}
+
+	const togglePageSelection = (): void => {
+		setSelectedIds(prev => {
+			const next = new Set(prev)
+			selectableOnPage.forEach(t => pageSelected ? next.delete(t._id) : next.add(t._id))
+			return next
+		})
+	}
+
+	const selectionSummary = useMemo(() => summarizeSelection(selectedTracks), [selectedTracks])
+	const pendingUpdates = useMemo(
+		() => pendingAction !== null && pendingAction.type !== 'delete' ? planUpdates(selectedTracks, pendingAction) : [],
+		[pendingAction, selectedTracks]
+	)
+
+	// A move of every track of one type is a type rename, one request instead of one per track
+	const moveWholeType = async (originals: Track[], trackName: string): Promise<BatchResult | null> => {
+		const sourceName = originals[0]?.trackName
+		// Until the store has loaded it cannot tell whether the selection covers the whole type
+		if (loading || sourceName === undefined || sourceName === trackName || originals.some(t => t.trackName !== sourceName)) { return null }
+		const selected = new Set(originals.map(t => t._id))
+		if (tracks.some(t => t.trackName === sourceName && !isPendingTrack(t) && !selected.has(t._id))) { return null }
+
+		const { journalId } = await renameTrackType(sourceName, trackName)
+		// The display name and type settings follow, as with a rename in the type settings
+		await renameTrackTypeEntries(sourceName, trackName)
+		return { succeeded: originals.map(t => t._id), failed: [], journalId }
+	}
+
+	const undoEntry = async (entryId: string): Promise<UndoResult> => {
+		const operation = journal.find(e => e.id === entryId)?.operation
+		const result = await undoJournalEntry(entryId)
+		// A plain rename moved the display name and settings along, so they go back too
+		if (result.restored > 0 && operation?.type === 'rename' && !operation.merged) {
+			await renameTrackTypeEntries(operation.newName, operation.oldName)
+		}
+		return result
+	}
+
+	const runBulkAction = async (action: BulkAction): Promise<void> => {
+		const originals = selectedTracks
+		setRunningBulk(true)
+		try {
+			const wholeTypeMove = action.type === 'move' ? await moveWholeType(originals, action.trackName) : null
+			const result = wholeTypeMove ?? (action.type === 'delete'
+				? await deleteTracks(originals.map(t => t._id))
+				: await updateTracks(planUpdates(originals, action)))
+			const failedNote = result.failed.length > 0 ? `, ${result.failed.length} failed` : ''
+			setLastBatch({
+				message: `${describeBulkAction(action, result.succeeded.length, getTranslatedName, true)}${failedNote}`,
+				journalId: result.journalId
+			})
+			setSelectedIds(new Set())
+			setSelectionAnchor(null)
+		} catch (error) {
+			console.error('Bulk action failed:', error)
+			addError(error)
+		} finally {
+			setRunningBulk(false)
+			setPendingAction(null)
+		}
+	}
+
+	const undoLastBatch = async (): Promise<void> => {
+		if (lastBatch === null || lastBatch.journalId === null) { return }
+		setUndoingBatch(true)
+		try {
+			const { failed } = await undoEntry(lastBatch.journalId)
+			if (failed > 0) {
+				alert(`${failed} track${failed !== 1 ? 's' : ''} could not be restored.`)
+				// The journal entry now holds only the tracks that failed, so undo stays available to retry them
+				setLastBatch({ ...lastBatch, message: `${failed} track${failed !== 1 ? 's' : ''} not restored` })
+				return
+			}
+			setLastBatch(null)
+		} catch (error) {
+			console.error('Failed to undo bulk action:', error)
+			addError(error)
+		} finally {
+			setUndoingBatch(false)
+		}
+	}
+
+	const handleUndoEntry = async (entry: JournalEntry): Promise<void> => {
+		try {
+			const { failed } = await undoEntry(entry.id)
+			if (failed > 0) {
+				alert(`${failed} track${failed !== 1 ? 's' : ''} could not be restored, the entry stays in the history to try again.`)
+			}
+		} catch (error) {
+			console.error('Failed to undo:', error)
+			addError(error)
+		}
+	}
 
 	const toggleSort = (field: 'date' | 'trackName'): void => {
 		if (sortField === field) {
@@ -261,10 +411,9 @@ export default function TracksTab (): ReactElement {
 								}}
 								className="bg-gray-700 text-white text-sm px-2 py-1 rounded border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
 							>
-								<option value={50}>{'50'}</option>
-								<option value={100}>{'100'}</option>
-								<option value={250}>{'250'}</option>
-								<option value={500}>{'500'}</option>
+								{PAGE_SIZES.map(size => (
+									<option key={size} value={size}>{size.toLocaleString()}</option>
+								))}
 							</select>
 						</div>
 						<div className="text-gray-400 text-sm whitespace-nowrap">
@@ -281,7 +430,7 @@ export default function TracksTab (): ReactElement {
 							onClick={() => setTrackManagementExpanded(!trackManagementExpanded)}
 							className="w-full flex items-center justify-between p-4 hover:bg-gray-700 transition-colors rounded-lg cursor-pointer"
 						>
-							<h3 className="text-lg font-semibold text-white">{'Track Name Management'}</h3>
+							<h3 className="text-lg font-semibold text-white">{'Track Type Settings'}</h3>
 							<span className="text-sm text-blue-400 font-medium">
 								{trackManagementExpanded ? 'Collapse' : 'Expand'}
 							</span>
@@ -289,9 +438,9 @@ export default function TracksTab (): ReactElement {
 						{trackManagementExpanded && (
 							<div className="px-4 pb-4">
 								<p className="text-sm text-gray-400 mb-4">
-									{'Manage your track names and display labels. Changes to internal names will affect all associated tracks.'}
+									{'Manage your track names, display labels and how each type looks. Changes to internal names will affect all associated tracks.'}
 								</p>
-								<div className="grid grid-cols-2 gap-3 mb-2">
+								<div className="grid grid-cols-2 xl:grid-cols-[minmax(0,1fr)_minmax(0,1fr)_auto] gap-3 mb-2">
 									<div>
 										<div className="flex items-center gap-2 mb-2">
 											<div className="text-xs font-semibold text-gray-400 uppercase">
@@ -327,10 +476,16 @@ export default function TracksTab (): ReactElement {
 											{'Optional friendly name shown throughout the app. Leave empty to use the internal name.'}
 										</p>
 									</div>
+									<div className="hidden xl:block text-xs font-semibold text-gray-400 uppercase">
+										{'Appearance'}
+										<p className="text-xs font-normal text-gray-500 mt-1 normal-case">
+											{'Colour and icon used in every chart, category for grouping. Archived types are hidden from pickers.'}
+										</p>
+									</div>
 								</div>
 								<div className="space-y-2">
 									{trackNames.filter(name => name !== 'All').map((trackName) => (
-										<div key={trackName} className="grid grid-cols-2 gap-3">
+										<div key={trackName} className="grid grid-cols-2 xl:grid-cols-[minmax(0,1fr)_minmax(0,1fr)_auto] gap-3">
 											<div className="flex items-center gap-2">
 												<input
 													type="text"
@@ -388,16 +543,16 @@ export default function TracksTab (): ReactElement {
 											<div className="flex items-center gap-2">
 												<input
 													type="text"
-													value={translations[trackName] ?? ''}
-													onChange={(e) => {
-														const newTranslations = { ...translations, [trackName]: e.target.value }
-														setTranslations(newTranslations)
-														setEditingTranslation(trackName)
-													}}
+													value={translationDraft?.trackName === trackName ? translationDraft.value : translations[trackName] ?? ''}
+													onChange={(e) => setTranslationDraft({ trackName, value: e.target.value })}
 													onBlur={() => {
-														if (editingTranslation === trackName) {
-															saveTranslations(translations).catch(console.error)
-															setEditingTranslation(null)
+														if (translationDraft?.trackName === trackName) {
+															const newTranslations = { ...translations, [trackName]: translationDraft.value }
+															if (translationDraft.value === '') {
+																delete newTranslations[trackName]
+															}
+															setTranslationDraft(null)
+															saveTranslations(newTranslations).catch(console.error)
 														}
 													}}
 													placeholder={trackName}
@@ -409,7 +564,6 @@ export default function TracksTab (): ReactElement {
 														onClick={() => {
 															const newTranslations = { ...translations }
 															delete newTranslations[trackName]
-															setTranslations(newTranslations)
 															saveTranslations(newTranslations).catch(console.error)
 														}}
 														disabled={savingTranslations}
@@ -419,6 +573,9 @@ export default function TracksTab (): ReactElement {
 													</button>
 												)}
 											</div>
+											<div className="col-span-2 xl:col-span-1">
+												<TrackTypeSettingsFields trackName={trackName} categories={categories} />
+											</div>
 										</div>
 									))}
 								</div>
@@ -427,39 +584,101 @@ export default function TracksTab (): ReactElement {
 					</div>
 				)}
 
-				{!showProblematic && trackNames.length > 1 && (
+				{!showProblematic && filterTrackNames.length > 0 && (
 					<div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
 						<div className="mb-3">
 							<span className="text-sm font-medium text-gray-300">{'Filter by Track Type:'}</span>
 						</div>
-						<div className="flex flex-wrap gap-2">
-							{trackNames.map((name) => (
-								<button
-									key={name}
-									onClick={() => setSelectedTrackName(name)}
-									className={`px-3 py-2 sm:px-4 sm:py-2 rounded-lg font-medium text-xs sm:text-sm transition-colors whitespace-nowrap ${
-										selectedTrackName === name
-											? 'bg-blue-600 text-white'
-											: 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-									}`}
-								>
-									{name === 'All' ? name : getTranslatedName(name)}
-								</button>
-							))}
-						</div>
+						<TrackTypeChips trackNames={filterTrackNames} selected={selectedTrackName} onSelect={setSelectedTrackName} />
 					</div>
 				)}
+
+				{!showProblematic && (
+					<TrackFilterBar
+						filters={filters}
+						onChange={setFilters}
+						matchCount={totalCount}
+						totalCount={typeTotalCount}
+					/>
+				)}
 			</div>
 
 			{showProblematic && problematicTracks.length > 0 && (
 				<div className="bg-red-900/20 border border-red-700 rounded-lg p-4">
 					<p className="text-red-300 text-sm">
 						<span className="font-bold">{'Warning: '}</span>
-						{'These tracks have invalid dates and will not appear in visualizations. You can delete them to clean up your data.'}
+						{'These tracks have invalid dates and will not appear in visualizations. Edit them to set a valid date, or delete them to clean up your data.'}
 					</p>
 				</div>
 			)}
 
+			{!editingSupported && (
+				<div className="rounded-lg px-4 py-2 text-sm bg-gray-800 border border-gray-700 text-gray-400">
+					{'Editing tracks is not supported by this server, tracks can only be deleted. Type renames still work.'}
+				</div>
+			)}
+
+			{!showProblematic && editingSupported && allTrackNames.length > 0 && (
+				<SplitTrackType
+					tracks={tracks}
+					trackNames={allTrackNames}
+					timeZone={timeZone}
+					selectedIds={selectedIds}
+					getTranslatedName={getTranslatedName}
+				/>
+			)}
+
+			{!showProblematic && (
+				<HistoryPanel journal={journal} getTranslatedName={getTranslatedName} onUndo={handleUndoEntry} />
+			)}
+
+			{lastBatch !== null && (
+				<div className="flex items-center justify-between gap-4 rounded-lg px-4 py-2 text-sm bg-blue-900/40 border border-blue-700 text-blue-200">
+					<span>{lastBatch.message}</span>
+					<div className="flex gap-2">
+						<button
+							onClick={() => { undoLastBatch().catch(console.error) }}
+							disabled={undoingBatch || lastBatch.journalId === null}
+							className="px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+						>
+							{undoingBatch ? 'Undoing...' : 'Undo'}
+						</button>
+						<button
+							onClick={() => setLastBatch(null)}
+							disabled={undoingBatch}
+							className="px-3 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors disabled:opacity-50"
+						>
+							{'Dismiss'}
+						</button>
+					</div>
+				</div>
+			)}
+
+			{selectedTracks.length > 0 && (
+				<BulkActionsBar
+					selectedCount={selectedTracks.length}
+					matchingCount={matchingTracks.filter(t => !isPendingTrack(t)).length}
+					trackNames={allTrackNames}
+					getTranslatedName={getTranslatedName}
+					onSelectAllMatching={() => setSelectedIds(new Set(matchingTracks.filter(t => !isPendingTrack(t)).map(t => t._id)))}
+					onClear={() => setSelectedIds(new Set())}
+					onAction={setPendingAction}
+					canEdit={editingSupported}
+				/>
+			)}
+
+			{pendingAction !== null && (
+				<BulkConfirmDialog
+					action={pendingAction}
+					summary={selectionSummary}
+					affectedCount={pendingAction.type === 'delete' ? selectedTracks.length : pendingUpdates.length}
+					running={runningBulk}
+					getTranslatedName={getTranslatedName}
+					onConfirm={() => { runBulkAction(pendingAction).catch(console.error) }}
+					onCancel={() => setPendingAction(null)}
+				/>
+			)}
+
 			{/* Pagination Controls */}
 			{!showProblematic && totalPages > 1 && (
 				<div className="flex items-center justify-between flex-wrap gap-4 px-4">
@@ -502,10 +721,23 @@ export default function TracksTab (): ReactElement {
 				</div>
 			)}
 
-			<div className="bg-gray-800 rounded-lg overflow-hidden">
+			<div
+				ref={tableContainerRef}
+				className={`bg-gray-800 rounded-lg ${displayTracks.length >= VIRTUALIZE_FROM ? 'max-h-[75vh] overflow-y-auto' : 'overflow-hidden'}`}
+			>
 				<table className="w-full">
-					<thead className="bg-gray-700">
+					<thead className="bg-gray-700 sticky top-0 z-[1]">
 						<tr>
+							<th className="pl-6 pr-2 py-3 w-8">
+								<input
+									type="checkbox"
+									checked={pageSelected}
+									onChange={togglePageSelection}
+									disabled={selectableOnPage.length === 0}
+									aria-label="Select all tracks on this page"
+									className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500"
+								/>
+							</th>
 							<th
 								onClick={() => toggleSort('trackName')}
 								className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider cursor-pointer hover:bg-gray-600 transition-colors"
@@ -537,9 +769,9 @@ export default function TracksTab (): ReactElement {
 						</tr>
 					</thead>
 					<tbody className="divide-y divide-gray-700">
-						{loading ? (
+						{tableLoading ? (
 							<tr>
-								<td colSpan={4} className="px-6 py-12 text-center">
+								<td colSpan={5} className="px-6 py-12 text-center">
 									<div className="flex items-center justify-center gap-2">
 										<div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
 										<span className="text-gray-400">{'Loading...'}</span>
@@ -548,53 +780,95 @@ export default function TracksTab (): ReactElement {
 							</tr>
 						) : displayTracks.length === 0 ? (
 							<tr>
-								<td colSpan={4} className="px-6 py-12 text-center text-gray-400">
-									{showProblematic ? 'No problematic tracks found' : 'No tracks found'}
+								<td colSpan={5} className="px-6 py-12 text-center text-gray-400">
+									{showProblematic ? 'No problematic tracks found' : hasActiveFilters(filters) ? 'No tracks match the filters' : 'No tracks found'}
 								</td>
 							</tr>
 						) : (
-							displayTracks.map((track, index) => {
-								const date = new Date(track.date)
-								const isInvalid = isNaN(date.getTime())
-								return (
-									<tr key={track._id ?? index} className={`hover:bg-gray-750 ${isInvalid ? 'bg-red-900/10' : ''}`}>
-										<td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-200">
-											{getTranslatedName(track.trackName)}
-										</td>
-										<td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-											{isInvalid ? (
-												<span className="text-red-400 font-mono">{String(track.date)}</span>
-											) : (
-												date.toLocaleDateString('en-GB', {
-													day: '2-digit',
-													month: 'short',
-													year: 'numeric'
-												})
-											)}
-										</td>
-										<td className="px-6 py-4 whitespace-nowrap text-sm text-gray-400">
-											{isInvalid ? (
-												<span className="text-red-400">{'Invalid Date'}</span>
-											) : (
-												date.toLocaleTimeString('en-GB', {
-													hour: '2-digit',
-													minute: '2-digit',
-													second: '2-digit'
-												})
-											)}
-										</td>
-										<td className="px-6 py-4 whitespace-nowrap text-right text-sm">
-											<button
-												onClick={() => handleDelete(track._id!)}
-												className="text-red-400 hover:text-red-300 font-medium transition-colors"
-											>
-												{'Delete'}
-											</button>
-										</td>
-									</tr>
-								)
-							}))
-						}
+							<>
+								{virtualRows.paddingTop > 0 && (
+									<tr aria-hidden="true" style={{ height: virtualRows.paddingTop }} />
+								)}
+								{displayTracks.slice(virtualRows.start, virtualRows.end).map((track, index) => {
+									if (track._id === editingTrackId) {
+										return (
+											<TrackEditRow
+												key={track._id}
+												track={track}
+												trackNames={allTrackNames}
+												timeZone={timeZone}
+												getTranslatedName={getTranslatedName}
+												onSave={async (changes) => await handleUpdate(track._id, changes)}
+												onCancel={() => setEditingTrackId(null)}
+											/>
+										)
+									}
+									const date = new Date(track.date)
+									const isInvalid = isNaN(date.getTime())
+									return (
+										<tr key={track._id ?? index} className={`hover:bg-gray-750 ${isInvalid ? 'bg-red-900/10' : ''} ${selectedIds.has(track._id) ? 'bg-blue-900/20' : ''}`}>
+											<td className="pl-6 pr-2 py-4 w-8">
+												<input
+													type="checkbox"
+													checked={selectedIds.has(track._id)}
+													readOnly
+													onClick={(e) => toggleSelection(track._id, e.shiftKey)}
+													disabled={isPendingTrack(track)}
+													aria-label="Select track"
+													className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500"
+												/>
+											</td>
+											<td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-200">
+												{getTranslatedName(track.trackName)}
+											</td>
+											<td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+												{isInvalid ? (
+													<span className="text-red-400 font-mono">{String(track.date)}</span>
+												) : (
+													date.toLocaleDateString('en-GB', {
+														day: '2-digit',
+														month: 'short',
+														year: 'numeric'
+													})
+												)}
+											</td>
+											<td className="px-6 py-4 whitespace-nowrap text-sm text-gray-400">
+												{isInvalid ? (
+													<span className="text-red-400">{'Invalid Date'}</span>
+												) : (
+													date.toLocaleTimeString('en-GB', {
+														hour: '2-digit',
+														minute: '2-digit',
+														second: '2-digit'
+													})
+												)}
+											</td>
+											<td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-4">
+												{editingSupported && (
+													<button
+														onClick={() => setEditingTrackId(track._id)}
+														disabled={isPendingTrack(track)}
+														className="text-blue-400 hover:text-blue-300 font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+													>
+														{isInvalid ? 'Fix' : 'Edit'}
+													</button>
+												)}
+												<button
+													onClick={() => handleDelete(track._id!)}
+													disabled={isPendingTrack(track)}
+													className="text-red-400 hover:text-red-300 font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+												>
+													{'Delete'}
+												</button>
+											</td>
+										</tr>
+									)
+								})}
+								{virtualRows.paddingBottom > 0 && (
+									<tr aria-hidden="true" style={{ height: virtualRows.paddingBottom }} />
+								)}
+							</>
+						)}
 					</tbody>
 				</table>
 			</div>
@@ -1,7 +1,6 @@
 'use client'
 
-import axios from 'axios'
-import { useEffect, useMemo, useState, type ReactElement } from 'react'
+import { useCallback, useEffect, useMemo, useState, type ReactElement } from 'react'
 
 import ActivityCalendar from '@/components/ActivityCalendar'
 import {
@@ -15,39 +14,84 @@ import {
 	TimeOfDayScatter,
 	WeekdayScatter
 } from '@/components/charts/Charts'
+import DateRangeBrush from '@/components/charts/DateRangeBrush'
+import PeriodComparison, { type ComparedPeriods } from '@/components/charts/PeriodComparison'
+import SmoothingControls from '@/components/charts/SmoothingControls'
+import DayStartSelect from '@/components/ui/DayStartSelect'
+import TrackTypeChips from '@/components/ui/TrackTypeChips'
+import { useTrackNames, useTracks } from '@/contexts/TrackContext/TrackContext'
+import { useTrackTypes } from '@/contexts/TrackTypeContext/TrackTypeContext'
 import {
 	useCalendarHeatmapData,
 	useCumulativeData,
 	useDeltaByTimeData,
 	useDeltaDaysData,
 	useFrequencyData,
+	useGapHistogramComparison,
 	useGapHistogramData,
 	useHourlyDistribution,
 	useMonthlyBoxPlotData,
+	usePeriodSummary,
 	useProcessedTracks,
 	useTimeOfDayData,
+	useTracksInRange,
+	useTypeSeries,
 	useWeekdayBoxPlotData,
 	useWeekdayDistribution,
 	useWeekdayHeatmapData,
-	useWeekdayScatterData
+	useWeekdayScatterData,
+	type SeriesMode,
+	type TypeSeries
 } from '@/hooks/useTrackData'
-import type { Track } from '@/types/Track'
-import type { User } from '@/types/User'
-import { computeCoverageStats } from '@/utils/continuous/coverageAnalysis'
+import type { ProcessedTrack } from '@/types/Track'
+import { clipCoverageStats, computeCoverageStats } from '@/utils/continuous/coverageAnalysis'
+import { getDayKey, shiftDayKey, type DateRange } from '@/utils/dayKeys'
+import { getPresetRange } from '@/utils/export/dateRange'
+import { DEFAULT_SMOOTHING, getSmoothingLabel, type SmoothingOptions } from '@/utils/smoothing'
+import { getBrowserTimeZone } from '@/utils/timezone'
+import { COMPARISON_CHART_COLOR, DEFAULT_CHART_COLOR, getCategoryTrackNames } from '@/utils/trackTypes'
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL
+const ALL_TIME: DateRange = { from: '', to: '' }
+// Stable inputs for the comparison and overlay hooks while they are not used
+const NO_TRACKS: ProcessedTrack[] = []
+const NO_TRACK_NAMES: string[] = []
+
+// Percent of the series total, so that periods with different numbers of tracks can be overlaid
+function toShares (counts: number[]): number[] {
+	const total = counts.reduce((sum, count) => sum + count, 0)
+	return counts.map(count => total > 0 ? count / total * 100 : 0)
+}
 
 export default function VisualizeTab (): ReactElement {
-	const [tracks, setTracks] = useState<Track[]>([])
-	const [selectedTrackName, setSelectedTrackName] = useState<string>('')
-	const [loading, setLoading] = useState(true)
-	const [trackNames, setTrackNames] = useState<string[]>([])
+	const [selectedTrackName, setSelectedTrackName] = useState<string>('All')
+	// A category is shown as one combined series of its types, it takes precedence over selectedTrackName
+	const [selectedCategory, setSelectedCategory] = useState<string | null>(null)
+	const allTrackNames = useTrackNames()
+	const { settings, getTranslatedName, getTrackColor, dayStartHour } = useTrackTypes()
+	// null outside overlay mode, otherwise the types drawn as separate series; selectedTrackName and the category are ignored
+	const [overlayTrackNames, setOverlayTrackNames] = useState<string[] | null>(null)
+	const [hiddenOverlayNames, setHiddenOverlayNames] = useState<string[]>([])
+	const [seriesMode, setSeriesMode] = useState<SeriesMode>('absolute')
+	const [smoothing, setSmoothing] = useState<SmoothingOptions>(DEFAULT_SMOOTHING)
+	const singleTrackName = overlayTrackNames === null && selectedCategory === null && selectedTrackName !== 'All' ? selectedTrackName : undefined
+	const { tracks, loading } = useTracks({ trackName: singleTrackName })
 	const [now, setNow] = useState(() => Date.now())
-	const [translations, setTranslations] = useState<Record<string, string>>({})
-
-	const getTranslatedName = (trackName: string): string => {
-		return translations[trackName] ?? trackName
-	}
+	// Shown period of every chart, kept when switching types
+	const [dateRange, setDateRange] = useState<DateRange>(ALL_TIME)
+	// null outside comparison mode
+	const [comparedPeriods, setComparedPeriods] = useState<ComparedPeriods | null>(null)
+	const timeZone = useMemo(() => getBrowserTimeZone(), [])
+	// Charts take the colour of the selected type, the default blue for all types or a category
+	const chartColor = singleTrackName !== undefined ? getTrackColor(singleTrackName) : undefined
+	const categoryTrackNames = useMemo(
+		() => selectedCategory !== null ? new Set(getCategoryTrackNames(selectedCategory, allTrackNames, settings)) : null,
+		[selectedCategory, allTrackNames, settings]
+	)
+	// Types whose tracks are merged into the single series, null for all of them
+	const mergedTrackNames = useMemo(
+		() => overlayTrackNames !== null ? overlayTrackNames.length > 0 ? new Set(overlayTrackNames) : null : categoryTrackNames,
+		[overlayTrackNames, categoryTrackNames]
+	)
 
 	useEffect(() => {
 		const interval = setInterval(() => {
@@ -56,87 +100,155 @@ export default function VisualizeTab (): ReactElement {
 		return () => clearInterval(interval)
 	}, [])
 
-	// Fetch only track names initially
 	useEffect(() => {
-		const fetchTrackNames = async (): Promise<void> => {
-			try {
-				// Fetch all tracks to get all unique track names
-				const fullResponse = await axios.get<Track[]>(`${API_URL}/v1/tracks`, {
-					withCredentials: true
-				})
-				const allNames = [...new Set(fullResponse.data.map(t => t.trackName))].sort()
-				setTrackNames(['All', ...allNames])
-
-				if (allNames.length > 0 && !selectedTrackName) {
-					setSelectedTrackName('All')
-				}
-			} catch (error) {
-				console.error('Failed to fetch track names:', error)
-			}
+		// A renamed or fully deleted type falls back to showing everything
+		if (selectedTrackName !== 'All' && !allTrackNames.includes(selectedTrackName)) {
+			setSelectedTrackName('All')
 		}
+	}, [allTrackNames, selectedTrackName])
 
-		const fetchUser = async (): Promise<void> => {
-			try {
-				const response = await axios.get<User>(`${API_URL}/v1/users/user`, {
-					withCredentials: true
-				})
-				setTranslations(response.data.trackNameTranslations ?? {})
-			} catch (error) {
-				console.error('Failed to fetch user:', error)
-			}
+	useEffect(() => {
+		// The category may have been renamed or emptied in the type settings
+		if (categoryTrackNames !== null && categoryTrackNames.size === 0) {
+			setSelectedCategory(null)
 		}
+	}, [categoryTrackNames])
 
-		fetchTrackNames().catch(console.error)
-		fetchUser().catch(console.error)
-	}, [selectedTrackName])
-
-	// Fetch tracks for selected track name only
 	useEffect(() => {
-		if (!selectedTrackName) { return }
-
-		const fetchTracks = async (): Promise<void> => {
-			setLoading(true)
-			try {
-				const response = await axios.get<Track[]>(`${API_URL}/v1/tracks`, {
-					withCredentials: true,
-					params: {
-						trackName: selectedTrackName === 'All' ? undefined : selectedTrackName,
-						sort: '-date'
-					}
-				})
-				setTracks(response.data)
-			} catch (error) {
-				console.error('Failed to fetch tracking data:', error)
-			} finally {
-				setLoading(false)
-			}
+		if (overlayTrackNames !== null && overlayTrackNames.some(name => !allTrackNames.includes(name))) {
+			setOverlayTrackNames(overlayTrackNames.filter(name => allTrackNames.includes(name)))
 		}
+	}, [allTrackNames, overlayTrackNames])
 
-		fetchTracks().catch(console.error)
-	}, [selectedTrackName])
+	const selectTrackName = useCallback((name: string): void => {
+		setSelectedCategory(null)
+		setSelectedTrackName(name)
+	}, [])
+
+	const toggleOverlayTrackName = useCallback((name: string): void => {
+		setOverlayTrackNames(names => names?.includes(name) === true ? names.filter(n => n !== name) : [...names ?? [], name])
+	}, [])
+
+	const toggleOverlay = (): void => {
+		if (overlayTrackNames !== null) {
+			setOverlayTrackNames(null)
+			return
+		}
+		// Starts from what is shown now: the selected type or the types of the selected category
+		setOverlayTrackNames(singleTrackName !== undefined ? [singleTrackName] : categoryTrackNames !== null ? [...categoryTrackNames] : [])
+		setHiddenOverlayNames([])
+		setSelectedCategory(null)
+	}
+
+	const toggleHiddenOverlayName = (name: string): void => {
+		setHiddenOverlayNames(hiddenOverlayNames.includes(name) ? hiddenOverlayNames.filter(n => n !== name) : [...hiddenOverlayNames, name])
+	}
+
+	const zoomToDates = useCallback((start: Date, end: Date): void => {
+		setDateRange({ from: getDayKey(start, timeZone, dayStartHour), to: getDayKey(end, timeZone, dayStartHour) })
+	}, [timeZone, dayStartHour])
+
+	const toggleComparison = (): void => {
+		if (comparedPeriods !== null) {
+			setComparedPeriods(null)
+			return
+		}
+		// Starts with the last 90 days against the 90 days before them
+		const b = getPresetRange('last-90-days', new Date(), timeZone, dayStartHour)
+		setComparedPeriods({ a: { from: shiftDayKey(b.from, -90), to: shiftDayKey(b.from, -1) }, b })
+	}
 
 	const filteredTracks = useMemo(() =>
-		selectedTrackName === 'All' ? tracks : tracks.filter(t => t.trackName === selectedTrackName),
-	[tracks, selectedTrackName])
-
-	const coverage = useMemo(() => computeCoverageStats(filteredTracks), [filteredTracks])
-	const processedTracks = useProcessedTracks(filteredTracks, coverage)
-	const cumulativeData = useCumulativeData(processedTracks, coverage)
-	const deltaDaysData = useDeltaDaysData(processedTracks)
-	const frequencyData = useFrequencyData(processedTracks, coverage)
-	const timeOfDayData = useTimeOfDayData(processedTracks, coverage)
-	const hourlyDistribution = useHourlyDistribution(processedTracks)
-	const weekdayScatterData = useWeekdayScatterData(processedTracks)
-	const weekdayDistribution = useWeekdayDistribution(processedTracks)
-	const weekdayHeatmapData = useWeekdayHeatmapData(processedTracks)
-	const deltaByTimeData = useDeltaByTimeData(processedTracks)
-	const calendarHeatmapData = useCalendarHeatmapData(processedTracks)
-	const gapHistogramData = useGapHistogramData(processedTracks)
-	const weekdayBoxPlotData = useWeekdayBoxPlotData(processedTracks)
-	const monthlyBoxPlotData = useMonthlyBoxPlotData(processedTracks)
+		mergedTrackNames !== null
+			? tracks.filter(t => mergedTrackNames.has(t.trackName))
+			: singleTrackName === undefined ? tracks : tracks.filter(t => t.trackName === singleTrackName),
+	[tracks, mergedTrackNames, singleTrackName])
+
+	const coverage = useMemo(() => computeCoverageStats(filteredTracks, timeZone, dayStartHour), [filteredTracks, timeZone, dayStartHour])
+	const processedTracks = useProcessedTracks(filteredTracks, timeZone, dayStartHour, coverage)
+
+	// Delta days are computed on the whole history first, so the first track in the range keeps its gap
+	const rangeTracks = useTracksInRange(processedTracks, dateRange, timeZone, dayStartHour)
+	const rangeCoverage = useMemo(
+		() => rangeTracks === processedTracks ? coverage : clipCoverageStats(coverage, rangeTracks, timeZone, dayStartHour),
+		[rangeTracks, processedTracks, coverage, timeZone, dayStartHour]
+	)
+
+	const cumulativeData = useCumulativeData(rangeTracks, rangeCoverage)
+	const deltaDaysData = useDeltaDaysData(rangeTracks)
+	const frequencyData = useFrequencyData(rangeTracks, timeZone, dayStartHour, rangeCoverage, smoothing)
+	// Memoised since the chart is redrawn whenever its props change
+	const frequencyBand = useMemo(() => smoothing.showBand
+		? { lower: frequencyData.bandLower, upper: frequencyData.bandUpper, label: `Expected ${smoothing.shortWindow}-day range (95%)` }
+		: undefined, [smoothing, frequencyData])
+	const timeOfDayData = useTimeOfDayData(rangeTracks, rangeCoverage)
+	const hourlyDistribution = useHourlyDistribution(rangeTracks)
+	const weekdayScatterData = useWeekdayScatterData(rangeTracks)
+	const weekdayDistribution = useWeekdayDistribution(rangeTracks)
+	const weekdayHeatmapData = useWeekdayHeatmapData(rangeTracks)
+	const deltaByTimeData = useDeltaByTimeData(rangeTracks)
+	const calendarHeatmapData = useCalendarHeatmapData(rangeTracks, timeZone, dayStartHour)
+	const gapHistogramData = useGapHistogramData(rangeTracks)
+	const weekdayBoxPlotData = useWeekdayBoxPlotData(rangeTracks)
+	const monthlyBoxPlotData = useMonthlyBoxPlotData(rangeTracks)
+
+	// Compared periods are taken from the whole history, independent of the date range above
+	const comparing = comparedPeriods !== null
+	const colorA = chartColor ?? DEFAULT_CHART_COLOR
+	const periodTracksA = useTracksInRange(comparing ? processedTracks : NO_TRACKS, comparedPeriods?.a ?? ALL_TIME, timeZone, dayStartHour)
+	const periodTracksB = useTracksInRange(comparing ? processedTracks : NO_TRACKS, comparedPeriods?.b ?? ALL_TIME, timeZone, dayStartHour)
+	const periodCoverageA = useMemo(() => clipCoverageStats(coverage, periodTracksA, timeZone, dayStartHour), [coverage, periodTracksA, timeZone, dayStartHour])
+	const periodCoverageB = useMemo(() => clipCoverageStats(coverage, periodTracksB, timeZone, dayStartHour), [coverage, periodTracksB, timeZone, dayStartHour])
+	const periodSummaryA = usePeriodSummary(periodTracksA, periodCoverageA)
+	const periodSummaryB = usePeriodSummary(periodTracksB, periodCoverageB)
+	const periodHourlyA = useHourlyDistribution(periodTracksA)
+	const periodHourlyB = useHourlyDistribution(periodTracksB)
+	const periodWeekdayA = useWeekdayDistribution(periodTracksA)
+	const periodWeekdayB = useWeekdayDistribution(periodTracksB)
+	const periodGapHistogram = useGapHistogramComparison(periodTracksA, periodTracksB)
+	const periodWeekdayBoxPlotA = useWeekdayBoxPlotData(periodTracksA)
+	const periodWeekdayBoxPlotB = useWeekdayBoxPlotData(periodTracksB)
+	const periodMonthlyBoxPlotA = useMonthlyBoxPlotData(periodTracksA)
+	const periodMonthlyBoxPlotB = useMonthlyBoxPlotData(periodTracksB)
+
+	const comparisons = useMemo(() => {
+		if (!comparing) { return null }
+		const series = { label: 'Period A', compareLabel: 'Period B', color: COMPARISON_CHART_COLOR }
+		return {
+			hourly: { ...series, data: toShares(periodHourlyB.data) },
+			weekday: { ...series, data: toShares(periodWeekdayB.data) },
+			gaps: { ...series, data: periodGapHistogram.compareBins },
+			weekdayBoxPlot: { ...series, data: periodWeekdayBoxPlotB.stats },
+			monthlyBoxPlot: { ...series, data: periodMonthlyBoxPlotB.stats }
+		}
+	}, [comparing, periodHourlyB, periodWeekdayB, periodGapHistogram, periodWeekdayBoxPlotB, periodMonthlyBoxPlotB])
+	const periodHourlySharesA = useMemo(() => toShares(periodHourlyA.data), [periodHourlyA])
+
+	const visibleOverlayNames = useMemo(
+		() => overlayTrackNames?.filter(name => !hiddenOverlayNames.includes(name)) ?? NO_TRACK_NAMES,
+		[overlayTrackNames, hiddenOverlayNames]
+	)
+	const typeSeries = useTypeSeries(overlayTrackNames !== null ? tracks : NO_TRACKS, visibleOverlayNames, dateRange, timeZone, dayStartHour, seriesMode, smoothing)
+	const perDay = seriesMode === 'per-day'
+
+	const overlays = useMemo(() => {
+		if (overlayTrackNames === null || overlayTrackNames.length === 0) { return null }
+		const toSeries = <T,>(pick: (series: TypeSeries) => T): Array<{ label: string, color: string, data: T }> => typeSeries.map(series => ({
+			label: getTranslatedName(series.trackName),
+			color: getTrackColor(series.trackName),
+			data: pick(series)
+		}))
+		return {
+			cumulative: toSeries(series => series.cumulative),
+			frequency: toSeries(series => series.frequency),
+			timeOfDay: toSeries(series => series.timeOfDay),
+			hourly: toSeries(series => series.hourly)
+		}
+	}, [overlayTrackNames, typeSeries, getTranslatedName, getTrackColor])
+	const periodWeekdaySharesA = useMemo(() => toShares(periodWeekdayA.data), [periodWeekdayA])
 
 	const lastTrackText = useMemo(() => {
-		const validTracks = tracks.filter(t => !isNaN(new Date(t.date).getTime()))
+		const validTracks = filteredTracks.filter(t => !isNaN(new Date(t.date).getTime()))
 		if (validTracks.length === 0) { return null }
 
 		const lastTrackDate = new Date(Math.max(...validTracks.map(t => new Date(t.date).getTime())))
@@ -148,7 +260,7 @@ export default function VisualizeTab (): ReactElement {
 		if (daysSince > 0) { return `${daysSince}d ${hoursSince}h ago` }
 		if (hoursSince > 0) { return `${hoursSince}h ${minutesSince}m ago` }
 		return `${minutesSince}m ago`
-	}, [tracks, now])
+	}, [filteredTracks, now])
 
 	return (
 		<div className="space-y-6">
@@ -158,24 +270,80 @@ export default function VisualizeTab (): ReactElement {
 					<span className="text-gray-400 text-xs sm:text-sm whitespace-nowrap">
 						{`${filteredTracks.length} tracks`}
 					</span>
+					<button
+						onClick={toggleOverlay}
+						className={`ml-auto px-3 py-1 rounded text-xs sm:text-sm transition-colors whitespace-nowrap ${
+							overlayTrackNames !== null
+								? 'bg-blue-600 text-white'
+								: 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+						}`}
+					>
+						{'Overlay types'}
+					</button>
 				</div>
 				<div className="overflow-x-auto scrollbar-thin scrollbar-thumb-gray-700 scrollbar-track-gray-800 px-4 sm:px-6">
-					<div className="flex gap-2 pb-2">
-						{trackNames.map(name => (
-							<button
-								key={name}
-								onClick={() => setSelectedTrackName(name)}
-								className={`px-3 py-2 sm:px-4 sm:py-2 rounded-lg font-medium text-xs sm:text-sm transition-colors whitespace-nowrap ${
-									selectedTrackName === name
-										? 'bg-blue-600 text-white'
-										: 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-								}`}
-							>
-								{name === 'All' ? name : getTranslatedName(name)}
-							</button>
-						))}
-					</div>
+					{allTrackNames.length > 0 && (
+						overlayTrackNames !== null ? (
+							<TrackTypeChips
+								trackNames={allTrackNames}
+								selected="All"
+								onSelect={toggleOverlayTrackName}
+								selectedNames={overlayTrackNames}
+								className="flex gap-2 pb-2"
+							/>
+						) : (
+							<TrackTypeChips
+								trackNames={allTrackNames}
+								selected={selectedTrackName}
+								onSelect={selectTrackName}
+								selectedCategory={selectedCategory}
+								onSelectCategory={setSelectedCategory}
+								className="flex gap-2 pb-2"
+							/>
+						)
+					)}
 				</div>
+				{overlayTrackNames !== null && (
+					<div className="flex flex-wrap items-center gap-2 px-4 sm:px-6 pt-2">
+						{overlayTrackNames.length === 0 && (
+							<span className="text-gray-400 text-xs sm:text-sm">{'Pick the types to draw as separate series'}</span>
+						)}
+						{overlayTrackNames.map(name => {
+							const hidden = hiddenOverlayNames.includes(name)
+							return (
+								<button
+									key={name}
+									onClick={() => toggleHiddenOverlayName(name)}
+									title={hidden ? 'Show series' : 'Hide series'}
+									className={`inline-flex items-center gap-2 px-3 py-1 rounded bg-gray-800 hover:bg-gray-700 text-xs sm:text-sm transition-colors ${
+										hidden ? 'text-gray-500 line-through' : 'text-gray-200'
+									}`}
+								>
+									<span
+										className="w-2.5 h-2.5 rounded-full border"
+										style={{ borderColor: getTrackColor(name), backgroundColor: hidden ? 'transparent' : getTrackColor(name) }}
+									/>
+									{getTranslatedName(name)}
+								</button>
+							)
+						})}
+						<div className="flex gap-1 ml-auto">
+							{(['absolute', 'per-day'] as const).map(mode => (
+								<button
+									key={mode}
+									onClick={() => setSeriesMode(mode)}
+									className={`px-3 py-1 rounded text-xs sm:text-sm transition-colors ${
+										seriesMode === mode
+											? 'bg-blue-600 text-white'
+											: 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+									}`}
+								>
+									{mode === 'absolute' ? 'Absolute' : 'Per day'}
+								</button>
+							))}
+						</div>
+					</div>
+				)}
 			</div>
 
 			{loading ? (
@@ -187,6 +355,42 @@ export default function VisualizeTab (): ReactElement {
 				</div>
 			) : (
 				<>
+					<DateRangeBrush
+						tracks={processedTracks}
+						range={dateRange}
+						onChange={setDateRange}
+						visibleCount={rangeTracks.length}
+						timeZone={timeZone}
+						dayStartHour={dayStartHour}
+						color={chartColor}
+					/>
+
+					<div className="space-y-4">
+						<div className="flex flex-wrap items-center justify-between gap-3">
+							<button
+								onClick={toggleComparison}
+								className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+									comparing
+										? 'bg-blue-600 text-white'
+										: 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+								}`}
+							>
+								{'Compare periods'}
+							</button>
+							<DayStartSelect />
+						</div>
+						{comparedPeriods !== null && (
+							<PeriodComparison
+								periods={comparedPeriods}
+								onChange={setComparedPeriods}
+								summaryA={periodSummaryA}
+								summaryB={periodSummaryB}
+								colorA={colorA}
+								colorB={COMPARISON_CHART_COLOR}
+							/>
+						)}
+					</div>
+
 					<section>
 						<div className="flex items-center justify-between mb-4">
 							<h2 className="text-xl font-semibold text-gray-200">{'Activity Calendar'}</h2>
@@ -194,13 +398,14 @@ export default function VisualizeTab (): ReactElement {
 								<span className="text-sm text-gray-500">{`Last track: ${lastTrackText}`}</span>
 							)}
 						</div>
-						{selectedTrackName === 'All' ? (
+						{singleTrackName === undefined ? (
 							<div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
-								<ActivityCalendar tracks={tracks} getTranslatedName={getTranslatedName} />
+								<ActivityCalendar tracks={rangeTracks} timeZone={timeZone} dayStartHour={dayStartHour} getTranslatedName={getTranslatedName} getTrackColor={getTrackColor} />
 							</div>
 						) : (
 							<CalendarHeatmap
 								title="Activity Calendar"
+								color={chartColor}
 								data={calendarHeatmapData.data}
 								yearRange={calendarHeatmapData.yearRange}
 								dateRange={calendarHeatmapData.dateRange}
@@ -211,29 +416,45 @@ export default function VisualizeTab (): ReactElement {
 					<section>
 						<h2 className="text-xl font-semibold text-gray-200 mb-4">{'Cumulative & Delta Days'}</h2>
 						<LineScatterChart
-							title="Cumulative Count & Delta Days (Log Scale)"
+							title={overlays === null
+								? 'Cumulative Count & Delta Days (Log Scale)'
+								: perDay ? 'Running Tracks per Day by Type (Log Scale)' : 'Cumulative Count by Type (Log Scale)'}
+							color={chartColor}
 							lineData={cumulativeData}
 							scatterData={deltaDaysData}
 							lineLabel="Cumulative Count"
 							scatterLabel="Delta Days"
-							yAxisLabel="Count / Days"
+							yAxisLabel={overlays === null ? 'Count / Days' : perDay ? 'Tracks per Day' : 'Count'}
 							logScale={true}
-							coverage={coverage}
+							coverage={overlays === null ? rangeCoverage : undefined}
+							onZoom={zoomToDates}
+							overlay={overlays?.cumulative}
 							className="h-80"
 						/>
 					</section>
 
 					<section>
-						<h2 className="text-xl font-semibold text-gray-200 mb-4">{'Frequency Analysis'}</h2>
+						<div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+							<h2 className="text-xl font-semibold text-gray-200">{'Frequency Analysis'}</h2>
+							<SmoothingControls options={smoothing} onChange={setSmoothing} />
+						</div>
 						<LineScatterChart
-							title="Tracks Per Day - Rolling Averages"
-							lineData={frequencyData.monthlyAvg}
-							scatterData={frequencyData.weeklyAvg}
-							lineLabel="Monthly Avg"
-							scatterLabel="Weekly Avg"
-							yAxisLabel="Tracks per Day"
+							title={overlays === null
+								? 'Tracks Per Day - Rolling Averages'
+								: perDay
+									? `Tracks Per Day - ${getSmoothingLabel(smoothing.method, smoothing.longWindow)} by Type`
+									: `Tracks per ${smoothing.longWindow} Days by Type`}
+							color={chartColor}
+							lineData={frequencyData.longTerm}
+							scatterData={frequencyData.shortTerm}
+							lineLabel={getSmoothingLabel(smoothing.method, smoothing.longWindow)}
+							scatterLabel={getSmoothingLabel(smoothing.method, smoothing.shortWindow)}
+							yAxisLabel={overlays !== null && !perDay ? 'Tracks' : 'Tracks per Day'}
 							useSingleAxis={true}
-							coverage={coverage}
+							coverage={overlays === null ? rangeCoverage : undefined}
+							onZoom={zoomToDates}
+							overlay={overlays?.frequency}
+							band={frequencyBand}
 							className="h-80"
 						/>
 					</section>
@@ -243,13 +464,21 @@ export default function VisualizeTab (): ReactElement {
 						<div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
 							<TimeOfDayScatter
 								title="Time of Day by Date"
+								color={chartColor}
 								data={timeOfDayData}
-								coverage={coverage}
+								coverage={overlays === null ? rangeCoverage : undefined}
+								onZoom={zoomToDates}
+								overlay={overlays?.timeOfDay}
 							/>
 							<PolarChart
-								title="Hourly Distribution"
-								data={hourlyDistribution.data}
+								title={comparisons !== null
+									? 'Hourly Distribution (% of tracks)'
+									: overlays !== null && perDay ? 'Hourly Distribution (tracks per active day)' : 'Hourly Distribution'}
+								color={chartColor}
+								data={comparisons !== null ? periodHourlySharesA : hourlyDistribution.data}
 								labels={hourlyDistribution.labels}
+								comparison={comparisons?.hourly}
+								overlay={comparisons === null ? overlays?.hourly : undefined}
 								className="h-80"
 							/>
 						</div>
@@ -260,21 +489,25 @@ export default function VisualizeTab (): ReactElement {
 						<div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
 							<WeekdayScatter
 								title="Delta Days by Weekday"
+								color={chartColor}
 								data={weekdayScatterData}
 								logScale={true}
 								className="h-80"
 							/>
 							<HeatmapChart
 								title="Weekday Heatmap"
+								color={chartColor}
 								data={weekdayHeatmapData.data}
 								xLabels={weekdayHeatmapData.xLabels}
 								yLabels={weekdayHeatmapData.yLabels}
 								className="h-80"
 							/>
 							<PolarChart
-								title="Weekday Distribution"
-								data={weekdayDistribution.data}
+								title={comparisons !== null ? 'Weekday Distribution (% of tracks)' : 'Weekday Distribution'}
+								color={chartColor}
+								data={comparisons !== null ? periodWeekdaySharesA : weekdayDistribution.data}
 								labels={weekdayDistribution.labels}
+								comparison={comparisons?.weekday}
 								className="h-80"
 							/>
 						</div>
@@ -284,6 +517,7 @@ export default function VisualizeTab (): ReactElement {
 						<h2 className="text-xl font-semibold text-gray-200 mb-4">{'Delta Days by Time of Day'}</h2>
 						<DeltaByTimeScatter
 							title="Delta Days vs Hour of Day"
+							color={chartColor}
 							data={deltaByTimeData}
 							logScale={true}
 							className="h-80"
@@ -294,8 +528,10 @@ export default function VisualizeTab (): ReactElement {
 						<h2 className="text-xl font-semibold text-gray-200 mb-4">{'Gap Distribution'}</h2>
 						<Histogram
 							title="Gap Histogram (Time Between Events)"
-							bins={gapHistogramData.bins}
-							labels={gapHistogramData.labels}
+							color={chartColor}
+							bins={comparisons !== null ? periodGapHistogram.bins : gapHistogramData.bins}
+							labels={comparisons !== null ? periodGapHistogram.labels : gapHistogramData.labels}
+							comparison={comparisons?.gaps}
 							className="h-80"
 						/>
 					</section>
@@ -305,14 +541,18 @@ export default function VisualizeTab (): ReactElement {
 						<div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
 							<BoxPlot
 								title="Gap by Weekday"
-								stats={weekdayBoxPlotData.stats}
+								color={chartColor}
+								stats={comparisons !== null ? periodWeekdayBoxPlotA.stats : weekdayBoxPlotData.stats}
 								labels={weekdayBoxPlotData.labels}
+								comparison={comparisons?.weekdayBoxPlot}
 								className="h-80"
 							/>
 							<BoxPlot
 								title="Gap by Month"
-								stats={monthlyBoxPlotData.stats}
+								color={chartColor}
+								stats={comparisons !== null ? periodMonthlyBoxPlotA.stats : monthlyBoxPlotData.stats}
 								labels={monthlyBoxPlotData.labels}
+								comparison={comparisons?.monthlyBoxPlot}
 								className="h-80"
 							/>
 						</div>
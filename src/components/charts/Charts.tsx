@@ -6,6 +6,7 @@ import {
 	BarElement,
 	CategoryScale,
 	Chart as ChartJS,
+	type ChartEvent,
 	type ChartType,
 	Filler,
 	Legend,
@@ -27,6 +28,8 @@ import { useEffect, useRef, useState, type ReactElement } from 'react'
 
 import type { BoxPlotStats } from '@/hooks/useTrackData'
 import type { CoverageStats } from '@/types/Insights'
+import { formatDayKey, getDayKeyWeekday, getDaysBetween, shiftDayKey } from '@/utils/dayKeys'
+import { DEFAULT_CHART_COLOR, getHueAndSaturation, withAlpha } from '@/utils/trackTypes'
 
 declare module 'chart.js' {
 	// eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -34,6 +37,9 @@ declare module 'chart.js' {
 		gapBackground?: {
 			coverage?: CoverageStats
 		}
+		dragZoom?: {
+			onZoom?: (start: Date, end: Date) => void
+		}
 	}
 }
 
@@ -65,6 +71,56 @@ const gapBackgroundPlugin = {
 	}
 }
 
+// Narrower drags are treated as clicks
+const MIN_ZOOM_DRAG_PX = 8
+
+// Chart.js reports touches as mouse events, but only listens for the ones in options.events
+const ZOOM_EVENTS: Array<keyof HTMLElementEventMap> = ['mousedown', 'mousemove', 'mouseup', 'mouseout', 'click', 'touchstart', 'touchmove', 'touchend']
+
+const zoomDrags = new WeakMap<ChartJS, { startX: number, currentX: number }>()
+
+// Dragging across the time axis reports the covered time span, the charts themselves do not zoom
+const dragZoomPlugin = {
+	id: 'dragZoom',
+	afterEvent: (chart: ChartJS, args: { event: ChartEvent, changed?: boolean }, options: { onZoom?: (start: Date, end: Date) => void }) => {
+		const { event } = args
+		const { chartArea, scales } = chart
+		if (options.onZoom === undefined || chartArea == null || scales.x == null || event.x === null || event.y === null) { return }
+
+		const x = Math.min(Math.max(event.x, chartArea.left), chartArea.right)
+		const drag = zoomDrags.get(chart)
+
+		if (event.type === 'mousedown') {
+			if (event.x >= chartArea.left && event.x <= chartArea.right && event.y >= chartArea.top && event.y <= chartArea.bottom) {
+				zoomDrags.set(chart, { startX: x, currentX: x })
+			}
+		} else if (event.type === 'mousemove' && drag !== undefined) {
+			drag.currentX = x
+			args.changed = true
+		} else if ((event.type === 'mouseup' || event.type === 'mouseout') && drag !== undefined) {
+			zoomDrags.delete(chart)
+			args.changed = true
+			if (event.type === 'mouseup' && Math.abs(x - drag.startX) >= MIN_ZOOM_DRAG_PX) {
+				const start = scales.x.getValueForPixel(Math.min(drag.startX, x))
+				const end = scales.x.getValueForPixel(Math.max(drag.startX, x))
+				if (start !== undefined && end !== undefined) {
+					options.onZoom(new Date(start), new Date(end))
+				}
+			}
+		}
+	},
+	afterDraw: (chart: ChartJS) => {
+		const drag = zoomDrags.get(chart)
+		if (drag === undefined) { return }
+
+		const { ctx, chartArea } = chart
+		ctx.save()
+		ctx.fillStyle = 'rgba(156, 163, 175, 0.2)'
+		ctx.fillRect(Math.min(drag.startX, drag.currentX), chartArea.top, Math.abs(drag.currentX - drag.startX), chartArea.bottom - chartArea.top)
+		ctx.restore()
+	}
+}
+
 ChartJS.register(
 	ArcElement,
 	BarController,
@@ -84,12 +140,31 @@ ChartJS.register(
 	Title,
 	Tooltip,
 	Legend,
-	gapBackgroundPlugin
+	gapBackgroundPlugin,
+	dragZoomPlugin
 )
 
 interface BaseChartProps {
 	title: string
 	className?: string
+	// Hex series colour, the colour of the selected track type
+	color?: string
+}
+
+// One of several series drawn instead of the single one, e.g. one per track type
+export interface ChartSeries<T> {
+	data: T
+	label: string
+	color: string
+}
+
+// Second series drawn next to the first, e.g. another period. Both series are then named in a legend
+export interface ChartComparison<T> {
+	data: T
+	// Legend names of the first and the second series
+	label: string
+	compareLabel: string
+	color: string
 }
 
 interface LineScatterChartProps extends BaseChartProps {
@@ -101,6 +176,16 @@ interface LineScatterChartProps extends BaseChartProps {
 	logScale?: boolean
 	useSingleAxis?: boolean
 	coverage?: CoverageStats
+	// Called with the time span dragged across the chart
+	onZoom?: (start: Date, end: Date) => void
+	// Drawn as lines on the left axis instead of lineData and scatterData
+	overlay?: ChartSeries<{ x: Date, y: number | null }[]>[]
+	// Shaded area on the left axis, e.g. where the scatter values are expected if nothing changed
+	band?: {
+		lower: { x: Date, y: number | null }[]
+		upper: { x: Date, y: number | null }[]
+		label: string
+	}
 }
 
 export function LineScatterChart ({
@@ -113,7 +198,11 @@ export function LineScatterChart ({
 	logScale = false,
 	useSingleAxis = false,
 	coverage,
-	className = ''
+	onZoom,
+	overlay,
+	band,
+	className = '',
+	color = DEFAULT_CHART_COLOR
 }: LineScatterChartProps): ReactElement {
 	const canvasRef = useRef<HTMLCanvasElement>(null)
 	const chartRef = useRef<ChartJS | null>(null)
@@ -134,17 +223,44 @@ export function LineScatterChart ({
 
 		const lineDataTimestamp = lineData.map(d => ({ x: d.x.getTime(), y: d.y }))
 		const scatterDataTimestamp = scatterData.filter(d => d.y !== null).map(d => ({ x: d.x.getTime(), y: d.y as number }))
+		const singleAxis = useSingleAxis || overlay !== undefined
+		// The upper edge fills down to the lower edge, the dataset before it
+		const bandDatasets = band !== undefined && overlay === undefined ? [
+			{ data: band.lower, label: '', fill: false as const },
+			{ data: band.upper, label: band.label, fill: '-1' }
+		].map(edge => ({
+			type: 'line' as const,
+			label: edge.label,
+			data: edge.data.map(d => ({ x: d.x.getTime(), y: d.y })),
+			borderWidth: 0,
+			backgroundColor: withAlpha(color, 0.15),
+			fill: edge.fill,
+			pointRadius: 0,
+			spanGaps: false,
+			yAxisID: 'yLeft'
+		})) : []
 
 		chartRef.current = new ChartJS(ctx, {
 			type: 'scatter',
 			data: {
-				datasets: [
+				datasets: overlay !== undefined ? overlay.map(series => ({
+					type: 'line' as const,
+					label: series.label,
+					data: series.data.map(d => ({ x: d.x.getTime(), y: d.y })),
+					borderColor: withAlpha(series.color, 1),
+					backgroundColor: withAlpha(series.color, 0.1),
+					tension: 0.1,
+					pointRadius: 0,
+					spanGaps: false,
+					yAxisID: 'yLeft'
+				})) : [
+					...bandDatasets,
 					{
 						type: 'line',
 						label: lineLabel,
 						data: lineDataTimestamp,
-						borderColor: 'rgba(59, 130, 246, 1)',
-						backgroundColor: 'rgba(59, 130, 246, 0.1)',
+						borderColor: withAlpha(color, 1),
+						backgroundColor: withAlpha(color, 0.1),
 						fill: true,
 						tension: 0.1,
 						pointRadius: 0,
@@ -155,7 +271,7 @@ export function LineScatterChart ({
 						type: 'scatter',
 						label: scatterLabel,
 						data: scatterDataTimestamp,
-						backgroundColor: 'rgba(59, 130, 246, 0.6)',
+						backgroundColor: withAlpha(color, 0.6),
 						pointRadius: 2,
 						yAxisID: 'yLeft'
 					}
@@ -164,10 +280,13 @@ export function LineScatterChart ({
 			options: {
 				responsive: true,
 				maintainAspectRatio: false,
+				...(onZoom !== undefined ? { events: ZOOM_EVENTS } : {}),
 				plugins: {
 					title: { display: true, text: title, color: '#e5e7eb' },
-					legend: { labels: { color: '#e5e7eb' } },
-					gapBackground: { coverage }
+					// Overlaid series are named in the legend of the page, which can also hide them
+					legend: { display: overlay === undefined, labels: { color: '#e5e7eb', filter: item => item.text !== '' } },
+					gapBackground: { coverage },
+					dragZoom: { onZoom }
 				},
 				scales: {
 					x: {
@@ -183,7 +302,7 @@ export function LineScatterChart ({
 						ticks: { color: '#9ca3af' },
 						grid: { color: 'rgba(75, 85, 99, 0.3)' }
 					},
-					...(useSingleAxis ? {} : {
+					...(singleAxis ? {} : {
 						yRight: {
 							type: 'linear',
 							position: 'right',
@@ -199,7 +318,7 @@ export function LineScatterChart ({
 		return () => {
 			chartRef.current?.destroy()
 		}
-	}, [lineData, scatterData, lineLabel, scatterLabel, yAxisLabel, logScale, useSingleAxis, coverage, title])
+	}, [lineData, scatterData, lineLabel, scatterLabel, yAxisLabel, logScale, useSingleAxis, coverage, onZoom, overlay, band, title, color])
 
 	return (
 		<div className={`bg-gray-800 rounded-lg p-4 ${className}`}>
@@ -211,9 +330,11 @@ export function LineScatterChart ({
 interface TimeOfDayScatterProps extends BaseChartProps {
 	data: { x: Date, y: number }[]
 	coverage?: CoverageStats
+	onZoom?: (start: Date, end: Date) => void
+	overlay?: ChartSeries<{ x: Date, y: number }[]>[]
 }
 
-export function TimeOfDayScatter ({ title, data, coverage, className = '' }: TimeOfDayScatterProps): ReactElement {
+export function TimeOfDayScatter ({ title, data, coverage, onZoom, overlay, className = '', color = DEFAULT_CHART_COLOR }: TimeOfDayScatterProps): ReactElement {
 	const canvasRef = useRef<HTMLCanvasElement>(null)
 	const chartRef = useRef<ChartJS | null>(null)
 
@@ -231,25 +352,28 @@ export function TimeOfDayScatter ({ title, data, coverage, className = '' }: Tim
 			return
 		}
 
-		const dataTimestamp = data.map(d => ({ x: d.x.getTime(), y: d.y }))
+		const series = overlay ?? [{ data, label: 'Time of Day', color }]
 
 		chartRef.current = new ChartJS(ctx, {
 			type: 'scatter',
 			data: {
-				datasets: [{
-					label: 'Time of Day',
-					data: dataTimestamp,
-					backgroundColor: 'rgba(59, 130, 246, 0.6)',
+				datasets: series.map(serie => ({
+					label: serie.label,
+					data: serie.data.map(d => ({ x: d.x.getTime(), y: d.y })),
+					backgroundColor: withAlpha(serie.color, 0.6),
 					pointRadius: 2
-				}]
+				}))
 			},
 			options: {
 				responsive: true,
 				maintainAspectRatio: false,
+				...(onZoom !== undefined ? { events: ZOOM_EVENTS } : {}),
 				plugins: {
 					title: { display: true, text: title, color: '#e5e7eb' },
-					legend: { labels: { color: '#e5e7eb' } },
-					gapBackground: { coverage }
+					// Overlaid series are named in the legend of the page, which can also hide them
+					legend: { display: overlay === undefined, labels: { color: '#e5e7eb' } },
+					gapBackground: { coverage },
+					dragZoom: { onZoom }
 				},
 				scales: {
 					x: {
@@ -276,7 +400,7 @@ export function TimeOfDayScatter ({ title, data, coverage, className = '' }: Tim
 		return () => {
 			chartRef.current?.destroy()
 		}
-	}, [data, coverage, title])
+	}, [data, coverage, onZoom, overlay, title, color])
 
 	return (
 		<div className={`bg-gray-800 rounded-lg p-4 ${className}`}>
@@ -288,9 +412,12 @@ export function TimeOfDayScatter ({ title, data, coverage, className = '' }: Tim
 interface PolarChartProps extends BaseChartProps {
 	data: number[]
 	labels: string[]
+	comparison?: ChartComparison<number[]>
+	// Drawn instead of data, the comparison is then ignored
+	overlay?: ChartSeries<number[]>[]
 }
 
-export function PolarChart ({ title, data, labels, className = '' }: PolarChartProps): ReactElement {
+export function PolarChart ({ title, data, labels, comparison, overlay, className = '', color = DEFAULT_CHART_COLOR }: PolarChartProps): ReactElement {
 	const canvasRef = useRef<HTMLCanvasElement>(null)
 	const chartRef = useRef<ChartJS | null>(null)
 
@@ -312,22 +439,26 @@ export function PolarChart ({ title, data, labels, className = '' }: PolarChartP
 			type: 'radar',
 			data: {
 				labels,
-				datasets: [{
-					data,
-					backgroundColor: 'rgba(59, 130, 246, 0.1)',
-					borderColor: 'rgba(59, 130, 246, 1)',
+				datasets: (overlay ?? [
+					{ data, label: comparison?.label ?? title, color },
+					...(comparison !== undefined ? [{ data: comparison.data, label: comparison.compareLabel, color: comparison.color }] : [])
+				]).map(series => ({
+					data: series.data,
+					label: series.label,
+					backgroundColor: withAlpha(series.color, 0.1),
+					borderColor: withAlpha(series.color, 1),
 					borderWidth: 2,
-					pointBackgroundColor: 'rgba(59, 130, 246, 1)',
-					pointBorderColor: 'rgba(59, 130, 246, 1)',
+					pointBackgroundColor: withAlpha(series.color, 1),
+					pointBorderColor: withAlpha(series.color, 1),
 					pointRadius: 2
-				}]
+				}))
 			},
 			options: {
 				responsive: true,
 				maintainAspectRatio: false,
 				plugins: {
 					title: { display: true, text: title, color: '#e5e7eb' },
-					legend: { display: false }
+					legend: { display: comparison !== undefined && overlay === undefined, labels: { color: '#e5e7eb' } }
 				},
 				scales: {
 					r: {
@@ -345,7 +476,7 @@ export function PolarChart ({ title, data, labels, className = '' }: PolarChartP
 		return () => {
 			chartRef.current?.destroy()
 		}
-	}, [data, labels, title])
+	}, [data, labels, comparison, overlay, title, color])
 
 	return (
 		<div className={`bg-gray-800 rounded-lg p-4 ${className}`}>
@@ -359,7 +490,7 @@ interface WeekdayScatterProps extends BaseChartProps {
 	logScale?: boolean
 }
 
-export function WeekdayScatter ({ title, data, logScale = false, className = '' }: WeekdayScatterProps): ReactElement {
+export function WeekdayScatter ({ title, data, logScale = false, className = '', color = DEFAULT_CHART_COLOR }: WeekdayScatterProps): ReactElement {
 	const canvasRef = useRef<HTMLCanvasElement>(null)
 	const chartRef = useRef<ChartJS | null>(null)
 
@@ -385,7 +516,7 @@ export function WeekdayScatter ({ title, data, logScale = false, className = ''
 				datasets: [{
 					label: 'Delta Days',
 					data,
-					backgroundColor: 'rgba(59, 130, 246, 0.6)',
+					backgroundColor: withAlpha(color, 0.6),
 					pointRadius: 2
 				}]
 			},
@@ -421,7 +552,7 @@ export function WeekdayScatter ({ title, data, logScale = false, className = ''
 		return () => {
 			chartRef.current?.destroy()
 		}
-	}, [data, title, logScale])
+	}, [data, title, logScale, color])
 
 	return (
 		<div className={`bg-gray-800 rounded-lg p-4 ${className}`}>
@@ -436,7 +567,7 @@ interface HeatmapChartProps extends BaseChartProps {
 	yLabels: string[]
 }
 
-export function HeatmapChart ({ title, data, xLabels, yLabels, className = '' }: HeatmapChartProps): ReactElement {
+export function HeatmapChart ({ title, data, xLabels, yLabels, className = '', color }: HeatmapChartProps): ReactElement {
 	const canvasRef = useRef<HTMLCanvasElement>(null)
 
 	useEffect(() => {
@@ -459,6 +590,7 @@ export function HeatmapChart ({ title, data, xLabels, yLabels, className = '' }:
 		const cellHeight = (height / 2 - padding.top - padding.bottom) / yLabels.length
 
 		const maxVal = Math.max(...data.flat(), 1)
+		const { hue, saturation } = color !== undefined ? getHueAndSaturation(color) : { hue: 200, saturation: 70 }
 
 		ctx.fillStyle = '#1f2937'
 		ctx.fillRect(0, 0, width / 2, height / 2)
@@ -471,8 +603,6 @@ export function HeatmapChart ({ title, data, xLabels, yLabels, className = '' }:
 		data.forEach((row, yi) => {
 			row.forEach((value, xi) => {
 				const intensity = value / maxVal
-				const hue = 200
-				const saturation = 70
 				const lightness = 90 - intensity * 60
 
 				ctx.fillStyle = `hsl(${hue}, ${saturation}%, ${lightness}%)`
@@ -496,7 +626,7 @@ export function HeatmapChart ({ title, data, xLabels, yLabels, className = '' }:
 		yLabels.forEach((label, i) => {
 			ctx.fillText(label, padding.left - 5, padding.top + i * cellHeight + cellHeight / 2 + 4)
 		})
-	}, [data, xLabels, yLabels, title])
+	}, [data, xLabels, yLabels, title, color])
 
 	return (
 		<div className={`bg-gray-800 rounded-lg p-4 ${className}`}>
@@ -510,7 +640,7 @@ interface DeltaByTimeScatterProps extends BaseChartProps {
 	logScale?: boolean
 }
 
-export function DeltaByTimeScatter ({ title, data, logScale = false, className = '' }: DeltaByTimeScatterProps): ReactElement {
+export function DeltaByTimeScatter ({ title, data, logScale = false, className = '', color = DEFAULT_CHART_COLOR }: DeltaByTimeScatterProps): ReactElement {
 	const canvasRef = useRef<HTMLCanvasElement>(null)
 	const chartRef = useRef<ChartJS | null>(null)
 
@@ -534,7 +664,7 @@ export function DeltaByTimeScatter ({ title, data, logScale = false, className =
 				datasets: [{
 					label: 'Delta Days',
 					data,
-					backgroundColor: 'rgba(59, 130, 246, 0.6)',
+					backgroundColor: withAlpha(color, 0.6),
 					pointRadius: 2
 				}]
 			},
@@ -570,7 +700,7 @@ export function DeltaByTimeScatter ({ title, data, logScale = false, className =
 		return () => {
 			chartRef.current?.destroy()
 		}
-	}, [data, title, logScale])
+	}, [data, title, logScale, color])
 
 	return (
 		<div className={`bg-gray-800 rounded-lg p-4 ${className}`}>
@@ -582,10 +712,11 @@ export function DeltaByTimeScatter ({ title, data, logScale = false, className =
 interface CalendarHeatmapProps extends BaseChartProps {
 	data: Map<string, number>
 	yearRange: { start: number, end: number }
-	dateRange?: { start: Date, end: Date }
+	// Inclusive day keys, the whole years of yearRange when missing
+	dateRange?: { start: string, end: string }
 }
 
-export function CalendarHeatmap ({ title, data, yearRange, dateRange, className = '' }: CalendarHeatmapProps): ReactElement {
+export function CalendarHeatmap ({ title, data, yearRange, dateRange, className = '', color }: CalendarHeatmapProps): ReactElement {
 	const canvasRef = useRef<HTMLCanvasElement>(null)
 	const containerRef = useRef<HTMLDivElement>(null)
 	const [tooltip, setTooltip] = useState<{ x: number, y: number, date: string, count: number } | null>(null)
@@ -602,9 +733,9 @@ export function CalendarHeatmap ({ title, data, yearRange, dateRange, className
 		const labelWidth = 20
 		const paddingRight = 10
 
-		const startDate = dateRange ? new Date(dateRange.start) : new Date(yearRange.start, 0, 1)
-		const endDate = dateRange ? new Date(dateRange.end) : new Date(yearRange.end, 11, 31)
-		const totalDays = Math.floor((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1
+		const startDay = dateRange?.start ?? `${yearRange.start}-01-01`
+		const endDay = dateRange?.end ?? `${yearRange.end}-12-31`
+		const totalDays = getDaysBetween(startDay, endDay) + 1
 		const totalWeeks = Math.ceil(totalDays / 7) + 1
 
 		const totalWidth = labelWidth + totalWeeks * (cellSize + cellGap) + paddingRight
@@ -618,6 +749,7 @@ export function CalendarHeatmap ({ title, data, yearRange, dateRange, className
 		ctx.fillRect(0, 0, totalWidth, totalHeight)
 
 		const maxVal = Math.max(...data.values(), 1)
+		const { hue, saturation } = color !== undefined ? getHueAndSaturation(color) : { hue: 200, saturation: 70 }
 		const days = ['M', '', 'W', '', 'F', '', 'S']
 
 		ctx.fillStyle = '#9ca3af'
@@ -629,14 +761,13 @@ export function CalendarHeatmap ({ title, data, yearRange, dateRange, className
 			}
 		})
 
-		const firstDayOffset = (startDate.getDay() + 6) % 7
+		const firstDayOffset = getDayKeyWeekday(startDay)
 
-		for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
-			const daysSinceStart = Math.floor((d.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24))
+		for (let daysSinceStart = 0; daysSinceStart < totalDays; daysSinceStart++) {
 			const weekNum = Math.floor((daysSinceStart + firstDayOffset) / 7)
-			const dayOfWeek = (d.getDay() + 6) % 7
+			const dayOfWeek = (daysSinceStart + firstDayOffset) % 7
 
-			const dateKey = d.toISOString().split('T')[0]
+			const dateKey = shiftDayKey(startDay, daysSinceStart)
 			const count = data.get(dateKey) ?? 0
 
 			const x = labelWidth + weekNum * (cellSize + cellGap)
@@ -647,7 +778,7 @@ export function CalendarHeatmap ({ title, data, yearRange, dateRange, className
 			} else {
 				const intensity = Math.min(count / maxVal, 1)
 				const lightness = 70 - intensity * 40
-				ctx.fillStyle = `hsl(200, 70%, ${lightness}%)`
+				ctx.fillStyle = `hsl(${hue}, ${saturation}%, ${lightness}%)`
 			}
 
 			ctx.fillRect(x, y, cellSize, cellSize)
@@ -679,16 +810,13 @@ export function CalendarHeatmap ({ title, data, yearRange, dateRange, className
 				return
 			}
 
-			const date = new Date(startDate)
-			date.setDate(date.getDate() + daysSinceStart)
-
-			const dateKey = date.toISOString().split('T')[0]
+			const dateKey = shiftDayKey(startDay, daysSinceStart)
 			const count = data.get(dateKey) ?? 0
 
 			setTooltip({
 				x: e.clientX - rect.left,
 				y: e.clientY - rect.top,
-				date: date.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' }),
+				date: formatDayKey(dateKey, 'en-GB', { day: '2-digit', month: 'short', year: 'numeric' }),
 				count
 			})
 		}
@@ -704,7 +832,7 @@ export function CalendarHeatmap ({ title, data, yearRange, dateRange, className
 			canvas.removeEventListener('mousemove', handleMouseMove)
 			canvas.removeEventListener('mouseleave', handleMouseLeave)
 		}
-	}, [data, yearRange, title, dateRange])
+	}, [data, yearRange, title, dateRange, color])
 
 	useEffect(() => {
 		if (containerRef.current) {
@@ -734,9 +862,11 @@ export function CalendarHeatmap ({ title, data, yearRange, dateRange, className
 interface HistogramProps extends BaseChartProps {
 	bins: number[]
 	labels: string[]
+	// Bins of the second series must line up with labels
+	comparison?: ChartComparison<number[]>
 }
 
-export function Histogram ({ title, bins, labels, className = '' }: HistogramProps): ReactElement {
+export function Histogram ({ title, bins, labels, comparison, className = '', color = DEFAULT_CHART_COLOR }: HistogramProps): ReactElement {
 	const canvasRef = useRef<HTMLCanvasElement>(null)
 	const chartRef = useRef<ChartJS | null>(null)
 
@@ -754,20 +884,23 @@ export function Histogram ({ title, bins, labels, className = '' }: HistogramPro
 			type: 'bar',
 			data: {
 				labels,
-				datasets: [{
-					label: 'Frequency',
-					data: bins,
-					backgroundColor: 'rgba(59, 130, 246, 0.6)',
-					borderColor: 'rgba(59, 130, 246, 1)',
+				datasets: [
+					{ data: bins, label: comparison?.label ?? 'Frequency', color },
+					...(comparison !== undefined ? [{ data: comparison.data, label: comparison.compareLabel, color: comparison.color }] : [])
+				].map(series => ({
+					label: series.label,
+					data: series.data,
+					backgroundColor: withAlpha(series.color, 0.6),
+					borderColor: withAlpha(series.color, 1),
 					borderWidth: 1
-				}]
+				}))
 			},
 			options: {
 				responsive: true,
 				maintainAspectRatio: false,
 				plugins: {
 					title: { display: true, text: title, color: '#e5e7eb' },
-					legend: { display: false }
+					legend: { display: comparison !== undefined, labels: { color: '#e5e7eb' } }
 				},
 				scales: {
 					x: {
@@ -788,7 +921,7 @@ export function Histogram ({ title, bins, labels, className = '' }: HistogramPro
 		return () => {
 			chartRef.current?.destroy()
 		}
-	}, [bins, labels, title])
+	}, [bins, labels, comparison, title, color])
 
 	return (
 		<div className={`bg-gray-800 rounded-lg p-4 ${className}`}>
@@ -800,9 +933,10 @@ export function Histogram ({ title, bins, labels, className = '' }: HistogramPro
 interface BoxPlotProps extends BaseChartProps {
 	stats: (BoxPlotStats | null)[]
 	labels: string[]
+	comparison?: ChartComparison<(BoxPlotStats | null)[]>
 }
 
-export function BoxPlot ({ title, stats, labels, className = '' }: BoxPlotProps): ReactElement {
+export function BoxPlot ({ title, stats, labels, comparison, className = '', color = DEFAULT_CHART_COLOR }: BoxPlotProps): ReactElement {
 	const canvasRef = useRef<HTMLCanvasElement>(null)
 
 	useEffect(() => {
@@ -828,7 +962,13 @@ export function BoxPlot ({ title, stats, labels, className = '' }: BoxPlotProps)
 		ctx.textAlign = 'center'
 		ctx.fillText(title, width / 4, 20)
 
-		const validStats = stats.filter((s): s is BoxPlotStats => s !== null)
+		// Compared series share each label's slot, side by side
+		const series = [
+			{ stats, color, label: comparison?.label ?? '' },
+			...(comparison !== undefined ? [{ stats: comparison.data, color: comparison.color, label: comparison.compareLabel }] : [])
+		]
+
+		const validStats = series.flatMap(serie => serie.stats).filter((s): s is BoxPlotStats => s !== null)
 		if (validStats.length === 0) {
 			ctx.fillStyle = '#9ca3af'
 			ctx.fillText('No data', width / 4, height / 4)
@@ -839,8 +979,8 @@ export function BoxPlot ({ title, stats, labels, className = '' }: BoxPlotProps)
 		const maxY = Math.max(...allValues, 1)
 		const minY = Math.min(...allValues.filter(v => v > 0), 0.1)
 
-		const boxWidth = chartWidth / labels.length * 0.6
 		const boxGap = chartWidth / labels.length
+		const boxWidth = boxGap * 0.6 / series.length
 
 		const scaleY = (value: number): number => {
 			const safeValue = Math.max(value, minY)
@@ -870,18 +1010,20 @@ export function BoxPlot ({ title, stats, labels, className = '' }: BoxPlotProps)
 			ctx.fillText(value < 1 ? value.toFixed(2) : value.toFixed(1), padding.left - 5, y + 3)
 		}
 
-		stats.forEach((stat, i) => {
-			const x = padding.left + boxGap * i + boxGap / 2
-
+		labels.forEach((label, i) => {
 			ctx.fillStyle = '#9ca3af'
 			ctx.font = '10px sans-serif'
 			ctx.textAlign = 'center'
-			ctx.fillText(labels[i], x, height / 2 - padding.bottom + 15)
+			ctx.fillText(label, padding.left + boxGap * i + boxGap / 2, height / 2 - padding.bottom + 15)
+		})
+
+		series.forEach((serie, serieIndex) => serie.stats.forEach((stat, i) => {
+			const x = padding.left + boxGap * i + boxGap / 2 + (serieIndex - (series.length - 1) / 2) * boxWidth * 1.2
 
 			if (!stat) { return }
 
-			ctx.strokeStyle = 'rgba(59, 130, 246, 1)'
-			ctx.fillStyle = 'rgba(59, 130, 246, 0.3)'
+			ctx.strokeStyle = withAlpha(serie.color, 1)
+			ctx.fillStyle = withAlpha(serie.color, 0.3)
 			ctx.lineWidth = 2
 
 			const q1Y = scaleY(stat.q1)
@@ -912,14 +1054,27 @@ export function BoxPlot ({ title, stats, labels, className = '' }: BoxPlotProps)
 			ctx.lineTo(x + boxWidth / 4, minYScaled)
 			ctx.stroke()
 
-			ctx.fillStyle = 'rgba(59, 130, 246, 0.6)'
+			ctx.fillStyle = withAlpha(serie.color, 0.6)
 			stat.outliers.forEach(outlier => {
 				const y = scaleY(outlier)
 				ctx.beginPath()
 				ctx.arc(x, y, 3, 0, Math.PI * 2)
 				ctx.fill()
 			})
-		})
+		}))
+
+		if (comparison !== undefined) {
+			ctx.font = '11px sans-serif'
+			ctx.textAlign = 'left'
+			let legendX = padding.left
+			series.forEach(serie => {
+				ctx.fillStyle = withAlpha(serie.color, 1)
+				ctx.fillRect(legendX, 28, 10, 10)
+				ctx.fillStyle = '#e5e7eb'
+				ctx.fillText(serie.label, legendX + 14, 37)
+				legendX += 24 + ctx.measureText(serie.label).width
+			})
+		}
 
 		ctx.fillStyle = '#e5e7eb'
 		ctx.font = '11px sans-serif'
@@ -929,7 +1084,7 @@ export function BoxPlot ({ title, stats, labels, className = '' }: BoxPlotProps)
 		ctx.textAlign = 'center'
 		ctx.fillText('Days', 0, 0)
 		ctx.restore()
-	}, [stats, labels, title])
+	}, [stats, labels, comparison, title, color])
 
 	return (
 		<div className={`bg-gray-800 rounded-lg p-4 ${className}`}>
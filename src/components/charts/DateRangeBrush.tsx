@@ -0,0 +1,206 @@
+'use client'
+
+import { useMemo, useRef, useState, type PointerEvent, type ReactElement } from 'react'
+
+import type { ProcessedTrack } from '@/types/Track'
+import { getDaysBetween, shiftDayKey, type DateRange } from '@/utils/dayKeys'
+import { DATE_RANGE_PRESETS, getPresetRange, type DateRangePresetId } from '@/utils/export/dateRange'
+import { DEFAULT_CHART_COLOR, withAlpha } from '@/utils/trackTypes'
+
+interface DateRangeBrushProps {
+	// Sorted tracks of the whole history, the overview always spans all of them
+	tracks: ProcessedTrack[]
+	range: DateRange
+	onChange: (range: DateRange) => void
+	// Tracks inside the range
+	visibleCount: number
+	timeZone: string
+	dayStartHour: number
+	color?: string
+}
+
+// Upper bound of bars in the overview, long histories put several days in one bar
+const MAX_BARS = 120
+
+const inputClassName = 'px-3 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+// Overview timeline of the whole history with a draggable selection, presets and exact date inputs
+export default function DateRangeBrush ({ tracks, range, onChange, visibleCount, timeZone, dayStartHour, color = DEFAULT_CHART_COLOR }: DateRangeBrushProps): ReactElement {
+	const overviewRef = useRef<HTMLDivElement>(null)
+	// Day indices while the pointer is down, the range is only reported on release
+	const [drag, setDrag] = useState<{ anchor: number, current: number } | null>(null)
+
+	const overview = useMemo(() => {
+		if (tracks.length === 0) { return null }
+
+		const firstDay = tracks[0].dayKey
+		const lastDay = tracks[tracks.length - 1].dayKey
+		const dayCount = getDaysBetween(firstDay, lastDay) + 1
+		const daysPerBar = Math.ceil(dayCount / MAX_BARS)
+		const bars = new Array<number>(Math.ceil(dayCount / daysPerBar)).fill(0)
+
+		// Tracks already carry their day key, so DST changes and the day start cannot shift a track into a neighbouring bar
+		for (const track of tracks) {
+			const day = Math.min(dayCount - 1, Math.max(0, getDaysBetween(firstDay, track.dayKey)))
+			bars[Math.floor(day / daysPerBar)]++
+		}
+
+		return { firstDay, lastDay, dayCount, bars, maxBar: Math.max(...bars) }
+	}, [tracks])
+
+	const presetRanges = useMemo(
+		() => DATE_RANGE_PRESETS.map(preset => ({ ...preset, range: getPresetRange(preset.id, new Date(), timeZone, dayStartHour) })),
+		[timeZone, dayStartHour]
+	)
+	const activePreset = presetRanges.find(preset => preset.range.from === range.from && preset.range.to === range.to)?.id ?? 'custom'
+
+	const getDayAt = (clientX: number): number => {
+		if (overview === null || overviewRef.current === null) { return 0 }
+		const rect = overviewRef.current.getBoundingClientRect()
+		const fraction = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1)
+		return Math.min(overview.dayCount - 1, Math.floor(fraction * overview.dayCount))
+	}
+
+	const handlePointerDown = (e: PointerEvent<HTMLDivElement>): void => {
+		e.currentTarget.setPointerCapture(e.pointerId)
+		const day = getDayAt(e.clientX)
+		setDrag({ anchor: day, current: day })
+	}
+
+	const handlePointerMove = (e: PointerEvent<HTMLDivElement>): void => {
+		if (drag !== null) {
+			setDrag({ ...drag, current: getDayAt(e.clientX) })
+		}
+	}
+
+	const handlePointerUp = (): void => {
+		if (drag === null || overview === null) { return }
+		setDrag(null)
+		// A click without dragging keeps the current range
+		if (drag.anchor === drag.current) { return }
+
+		const first = Math.min(drag.anchor, drag.current)
+		const last = Math.max(drag.anchor, drag.current)
+		onChange(first === 0 && last === overview.dayCount - 1
+			? { from: '', to: '' }
+			: { from: shiftDayKey(overview.firstDay, first), to: shiftDayKey(overview.firstDay, last) })
+	}
+
+	let selection: { first: number, last: number } | null = null
+	if (overview !== null) {
+		if (drag !== null) {
+			selection = { first: Math.min(drag.anchor, drag.current), last: Math.max(drag.anchor, drag.current) }
+		} else if (range.from !== '' || range.to !== '') {
+			// A range reaching past the history is clamped to its ends
+			selection = {
+				first: range.from !== '' ? Math.min(Math.max(getDaysBetween(overview.firstDay, range.from), 0), overview.dayCount) : 0,
+				last: range.to !== '' ? Math.min(Math.max(getDaysBetween(overview.firstDay, range.to), -1), overview.dayCount - 1) : overview.dayCount - 1
+			}
+		}
+	}
+
+	const isFiltered = range.from !== '' || range.to !== ''
+
+	return (
+		<div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-3">
+			<div className="flex flex-wrap items-center gap-3">
+				<select
+					value={activePreset}
+					onChange={(e) => {
+						const preset = presetRanges.find(p => p.id === e.target.value as DateRangePresetId)
+						if (preset !== undefined) {
+							onChange(preset.range)
+						}
+					}}
+					aria-label="Date range"
+					className={inputClassName}
+				>
+					{presetRanges.map(preset => (
+						<option key={preset.id} value={preset.id}>{preset.label}</option>
+					))}
+					{activePreset === 'custom' && <option value="custom">{'Custom'}</option>}
+				</select>
+				<input
+					type="date"
+					value={range.from}
+					max={range.to !== '' ? range.to : undefined}
+					onChange={(e) => onChange({ ...range, from: e.target.value })}
+					aria-label="From date"
+					className={inputClassName}
+				/>
+				<span className="text-gray-500 text-sm">{'to'}</span>
+				<input
+					type="date"
+					value={range.to}
+					min={range.from !== '' ? range.from : undefined}
+					onChange={(e) => onChange({ ...range, to: e.target.value })}
+					aria-label="To date"
+					className={inputClassName}
+				/>
+				<div className="flex items-center gap-3 ml-auto text-sm">
+					<span className="text-gray-400">
+						{isFiltered ? `${visibleCount} of ${tracks.length} tracks in range` : `${tracks.length} tracks`}
+					</span>
+					{isFiltered && (
+						<button
+							onClick={() => onChange({ from: '', to: '' })}
+							className="px-3 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+						>
+							{'Show all'}
+						</button>
+					)}
+				</div>
+			</div>
+
+			{overview !== null && (
+				<div>
+					<div
+						ref={overviewRef}
+						onPointerDown={handlePointerDown}
+						onPointerMove={handlePointerMove}
+						onPointerUp={handlePointerUp}
+						onPointerCancel={() => setDrag(null)}
+						className="relative h-14 cursor-crosshair select-none touch-none"
+						title="Drag to select a date range"
+					>
+						<div className="absolute inset-0 flex items-end gap-px">
+							{overview.bars.map((count, index) => (
+								<div
+									key={index}
+									className="flex-1 rounded-t-sm"
+									style={{
+										height: `${overview.maxBar > 0 ? Math.max(count > 0 ? 4 : 0, (count / overview.maxBar) * 100) : 0}%`,
+										backgroundColor: withAlpha(color, 0.7)
+									}}
+								/>
+							))}
+						</div>
+						{selection !== null && (
+							<>
+								<div
+									className="absolute inset-y-0 left-0 bg-gray-900/60"
+									style={{ width: `${(selection.first / overview.dayCount) * 100}%` }}
+								/>
+								<div
+									className="absolute inset-y-0 right-0 bg-gray-900/60"
+									style={{ width: `${((overview.dayCount - 1 - selection.last) / overview.dayCount) * 100}%` }}
+								/>
+								<div
+									className="absolute inset-y-0 border-x-2 border-blue-500"
+									style={{
+										left: `${(selection.first / overview.dayCount) * 100}%`,
+										right: `${((overview.dayCount - 1 - selection.last) / overview.dayCount) * 100}%`
+									}}
+								/>
+							</>
+						)}
+					</div>
+					<div className="flex justify-between text-xs text-gray-500 mt-1">
+						<span>{overview.firstDay}</span>
+						<span>{overview.lastDay}</span>
+					</div>
+				</div>
+			)}
+		</div>
+	)
+}
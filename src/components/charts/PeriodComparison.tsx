@@ -0,0 +1,140 @@
+'use client'
+
+import type { ReactElement } from 'react'
+
+import type { PeriodSummary } from '@/hooks/useTrackData'
+import type { DateRange } from '@/utils/dayKeys'
+
+export interface ComparedPeriods {
+	a: DateRange
+	b: DateRange
+}
+
+interface PeriodComparisonProps {
+	periods: ComparedPeriods
+	onChange: (periods: ComparedPeriods) => void
+	summaryA: PeriodSummary
+	summaryB: PeriodSummary
+	colorA: string
+	colorB: string
+}
+
+const inputClassName = 'px-3 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+function formatSigned (value: number, digits: number): string {
+	return `${value > 0 ? '+' : ''}${value.toFixed(digits)}`
+}
+
+function formatChange (a: number | null, b: number | null, digits: number): string {
+	if (a === null || b === null) { return '–' }
+	const percent = a !== 0 ? ` (${formatSigned((b - a) / a * 100, 0)}%)` : ''
+	return `${formatSigned(b - a, digits)}${percent}`
+}
+
+// Shortest way around the clock, e.g. 23:00 to 01:00 is +2h
+function formatHourChange (a: number | null, b: number | null): string {
+	if (a === null || b === null) { return '–' }
+	const difference = ((b - a + 36) % 24) - 12
+	return `${formatSigned(difference, 0)}h`
+}
+
+function formatHour (hour: number | null): string {
+	return hour !== null ? `${hour}:00` : '–'
+}
+
+function formatNumber (value: number | null, digits: number, unit = ''): string {
+	return value !== null ? `${value.toFixed(digits)}${unit}` : '–'
+}
+
+// Date inputs of both periods and their headline numbers with the change from A to B
+export default function PeriodComparison ({ periods, onChange, summaryA, summaryB, colorA, colorB }: PeriodComparisonProps): ReactElement {
+	const periodInputs = (key: keyof ComparedPeriods, label: string, color: string): ReactElement => (
+		<div className="flex flex-wrap items-center gap-2">
+			<span className="inline-flex items-center gap-2 w-24 text-sm font-medium text-gray-300">
+				<span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />
+				{label}
+			</span>
+			<input
+				type="date"
+				value={periods[key].from}
+				max={periods[key].to !== '' ? periods[key].to : undefined}
+				onChange={(e) => onChange({ ...periods, [key]: { ...periods[key], from: e.target.value } })}
+				aria-label={`${label} from`}
+				className={inputClassName}
+			/>
+			<span className="text-gray-500 text-sm">{'to'}</span>
+			<input
+				type="date"
+				value={periods[key].to}
+				min={periods[key].from !== '' ? periods[key].from : undefined}
+				onChange={(e) => onChange({ ...periods, [key]: { ...periods[key], to: e.target.value } })}
+				aria-label={`${label} to`}
+				className={inputClassName}
+			/>
+		</div>
+	)
+
+	const rows: Array<{ label: string, a: string, b: string, change: string }> = [
+		{
+			label: 'Tracks',
+			a: `${summaryA.trackCount}`,
+			b: `${summaryB.trackCount}`,
+			change: formatChange(summaryA.trackCount, summaryB.trackCount, 0)
+		},
+		{
+			label: 'Active days',
+			a: `${summaryA.activeDays}`,
+			b: `${summaryB.activeDays}`,
+			change: formatChange(summaryA.activeDays, summaryB.activeDays, 0)
+		},
+		{
+			label: 'Tracks per active day',
+			a: formatNumber(summaryA.ratePerActiveDay, 2),
+			b: formatNumber(summaryB.ratePerActiveDay, 2),
+			change: formatChange(summaryA.ratePerActiveDay, summaryB.ratePerActiveDay, 2)
+		},
+		{
+			label: 'Median gap',
+			a: formatNumber(summaryA.medianGap, 1, ' days'),
+			b: formatNumber(summaryB.medianGap, 1, ' days'),
+			change: formatChange(summaryA.medianGap, summaryB.medianGap, 1)
+		},
+		{
+			label: 'Peak hour',
+			a: formatHour(summaryA.peakHour),
+			b: formatHour(summaryB.peakHour),
+			change: formatHourChange(summaryA.peakHour, summaryB.peakHour)
+		}
+	]
+
+	return (
+		<div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-4">
+			<div className="space-y-2">
+				{periodInputs('a', 'Period A', colorA)}
+				{periodInputs('b', 'Period B', colorB)}
+			</div>
+			<div className="overflow-x-auto">
+				<table className="w-full text-sm">
+					<thead>
+						<tr className="text-left text-gray-400 border-b border-gray-700">
+							<th className="py-2 pr-4 font-medium"></th>
+							<th className="py-2 pr-4 font-medium">{'Period A'}</th>
+							<th className="py-2 pr-4 font-medium">{'Period B'}</th>
+							<th className="py-2 font-medium">{'Change'}</th>
+						</tr>
+					</thead>
+					<tbody>
+						{rows.map(row => (
+							<tr key={row.label} className="border-b border-gray-700/50 last:border-0">
+								<td className="py-2 pr-4 text-gray-400">{row.label}</td>
+								<td className="py-2 pr-4 text-gray-200">{row.a}</td>
+								<td className="py-2 pr-4 text-gray-200">{row.b}</td>
+								<td className="py-2 text-gray-200">{row.change}</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,79 @@
+'use client'
+
+import type { ReactElement } from 'react'
+
+import {
+	SMOOTHING_METHODS,
+	SMOOTHING_WINDOWS,
+	type SmoothingMethod,
+	type SmoothingOptions,
+	type WindowAlignment
+} from '@/utils/smoothing'
+
+interface SmoothingControlsProps {
+	options: SmoothingOptions
+	onChange: (options: SmoothingOptions) => void
+}
+
+const selectClassName = 'px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs sm:text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function SmoothingControls ({ options, onChange }: SmoothingControlsProps): ReactElement {
+	const windowSelect = (key: 'shortWindow' | 'longWindow', label: string): ReactElement => (
+		<label className="flex items-center gap-1.5 text-xs sm:text-sm text-gray-400">
+			{label}
+			<select
+				value={options[key]}
+				onChange={(e) => onChange({ ...options, [key]: Number(e.target.value) })}
+				className={selectClassName}
+			>
+				{SMOOTHING_WINDOWS.map(days => (
+					<option key={days} value={days}>{`${days} days`}</option>
+				))}
+			</select>
+		</label>
+	)
+
+	return (
+		<div className="flex flex-wrap items-center gap-3">
+			<select
+				value={options.method}
+				onChange={(e) => onChange({ ...options, method: e.target.value as SmoothingMethod })}
+				aria-label="Smoothing"
+				className={selectClassName}
+			>
+				{SMOOTHING_METHODS.map(method => (
+					<option key={method.id} value={method.id}>{method.label}</option>
+				))}
+			</select>
+			{windowSelect('shortWindow', options.method === 'ewma' ? 'Short span' : 'Short window')}
+			{windowSelect('longWindow', options.method === 'ewma' ? 'Long span' : 'Long window')}
+			<div className="flex gap-1">
+				{(['centred', 'trailing'] as WindowAlignment[]).map(alignment => (
+					<button
+						key={alignment}
+						onClick={() => onChange({ ...options, alignment })}
+						className={`px-2 py-1 rounded text-xs sm:text-sm transition-colors ${
+							options.alignment === alignment
+								? 'bg-blue-600 text-white'
+								: 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+						}`}
+					>
+						{alignment === 'centred' ? 'Centred' : 'Trailing'}
+					</button>
+				))}
+			</div>
+			<label
+				className="flex items-center gap-1.5 text-xs sm:text-sm text-gray-400 cursor-pointer"
+				title="Where the short-term rate stays 95% of the time if daily counts follow a Poisson distribution around the long-term rate"
+			>
+				<input
+					type="checkbox"
+					checked={options.showBand}
+					onChange={(e) => onChange({ ...options, showBand: e.target.checked })}
+					className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500"
+				/>
+				{'Expected range'}
+			</label>
+		</div>
+	)
+}
@@ -0,0 +1,212 @@
+'use client'
+
+import { useState, type ReactElement } from 'react'
+
+import { useTrackStore } from '@/contexts/TrackContext/TrackContext'
+import { useTrackTypes } from '@/contexts/TrackTypeContext/TrackTypeContext'
+import { getCurrentUser, listTracks } from '@/utils/api'
+import { parseBackup, planRestore, type RestorePlan, type TrackBackup } from '@/utils/backup'
+
+export default function BackupRestore (): ReactElement {
+	const [fileName, setFileName] = useState<string | null>(null)
+	const [backup, setBackup] = useState<TrackBackup | null>(null)
+	const [plan, setPlan] = useState<RestorePlan | null>(null)
+	const [status, setStatus] = useState<{ type: 'idle' | 'loading' | 'success' | 'error', message: string }>({ type: 'idle', message: '' })
+	const { importTracks } = useTrackStore()
+	const { dayStartHour, saveTranslations, saveSettings, saveDayStartHour } = useTrackTypes()
+
+	const loadFile = async (file: File): Promise<void> => {
+		setFileName(file.name)
+		setBackup(null)
+		setPlan(null)
+
+		const result = parseBackup(await file.text())
+		if (!result.ok) {
+			setStatus({ type: 'error', message: result.error })
+			return
+		}
+
+		setStatus({ type: 'loading', message: 'Comparing backup with existing tracks...' })
+		try {
+			const [tracks, user] = await Promise.all([listTracks(), getCurrentUser()])
+			setBackup(result.backup)
+			// Older backends keep the day start on this device, so it is compared with the one in use
+			setPlan(planRestore(result.backup, tracks, user.trackNameTranslations ?? {}, user.trackTypeSettings ?? {}, dayStartHour))
+			setStatus({ type: 'idle', message: '' })
+		} catch (error) {
+			console.error('Failed to fetch existing data:', error)
+			setStatus({ type: 'error', message: 'Failed to fetch existing tracks for comparison' })
+		}
+	}
+
+	const handleRestore = async (): Promise<void> => {
+		if (plan === null) { return }
+
+		const groups = plan.groups.filter(g => g.toCreate.length > 0)
+		const failures: string[] = []
+		let created = 0
+		let queued = 0
+
+		for (const [index, group] of groups.entries()) {
+			setStatus({ type: 'loading', message: `Restoring ${group.trackName} (${index + 1}/${groups.length})...` })
+			try {
+				const response = await importTracks(group.trackName, group.toCreate)
+				created += response.created
+				queued += response.queued
+			} catch (error) {
+				console.error(`Failed to restore ${group.trackName}:`, error)
+				failures.push(group.trackName)
+			}
+		}
+
+		if (plan.translationsAdded.length > 0 || plan.translationsChanged.length > 0) {
+			setStatus({ type: 'loading', message: 'Restoring display names...' })
+			try {
+				await saveTranslations(plan.mergedTranslations)
+			} catch (error) {
+				console.error('Failed to restore translations:', error)
+				failures.push('display names')
+			}
+		}
+
+		if (plan.settingsAdded.length > 0 || plan.settingsChanged.length > 0) {
+			setStatus({ type: 'loading', message: 'Restoring type settings...' })
+			try {
+				await saveSettings(plan.mergedSettings)
+			} catch (error) {
+				console.error('Failed to restore type settings:', error)
+				failures.push('type settings')
+			}
+		}
+
+		if (plan.dayStartHour !== null) {
+			setStatus({ type: 'loading', message: 'Restoring day start...' })
+			try {
+				await saveDayStartHour(plan.dayStartHour)
+			} catch (error) {
+				console.error('Failed to restore day start:', error)
+				failures.push('day start')
+			}
+		}
+
+		setPlan(null)
+		setBackup(null)
+		const queuedNote = queued > 0 ? ` (${queued} more saved offline to sync later)` : ''
+		setStatus(failures.length > 0
+			? { type: 'error', message: `Restored ${created} tracks${queuedNote}, but failed for: ${failures.join(', ')}` }
+			: { type: 'success', message: `Successfully restored ${created} tracks${queuedNote}` })
+	}
+
+	const totalToCreate = plan?.groups.reduce((sum, g) => sum + g.toCreate.length, 0) ?? 0
+	const totalDuplicates = plan?.groups.reduce((sum, g) => sum + g.duplicates, 0) ?? 0
+	const totalInFileDuplicates = plan?.groups.reduce((sum, g) => sum + g.inFileDuplicates, 0) ?? 0
+	const translationChanges = (plan?.translationsAdded.length ?? 0) + (plan?.translationsChanged.length ?? 0)
+	const settingChanges = (plan?.settingsAdded.length ?? 0) + (plan?.settingsChanged.length ?? 0) + (plan !== null && plan.dayStartHour !== null ? 1 : 0)
+	const nothingToRestore = totalToCreate === 0 && translationChanges === 0 && settingChanges === 0
+	const skipped = [
+		totalDuplicates > 0 ? `${totalDuplicates} duplicates` : null,
+		totalInFileDuplicates > 0 ? `${totalInFileDuplicates} repeated in the file` : null
+	].filter(note => note !== null)
+
+	return (
+		<div className="space-y-4">
+			<div className="border-2 border-dashed border-gray-600 rounded-lg p-6 text-center">
+				<div className="text-gray-300 mb-2">
+					{fileName ?? 'Select a backup file downloaded from the Export tab'}
+				</div>
+				<label className="inline-block px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm cursor-pointer transition-colors">
+					{'Choose Backup'}
+					<input
+						type="file"
+						accept=".json,application/json"
+						className="hidden"
+						onChange={(e) => {
+							const file = e.target.files?.[0]
+							if (file !== undefined) {
+								loadFile(file).catch(console.error)
+							}
+							e.target.value = ''
+						}}
+					/>
+				</label>
+			</div>
+
+			{backup !== null && plan !== null && (
+				<>
+					<div className="text-gray-400 text-sm">
+						{`Backup version ${backup.version}${backup.exportedAt ? `, exported ${new Date(backup.exportedAt).toLocaleString('en-GB')}` : ''}: ${backup.tracks.length} tracks, ${Object.keys(backup.trackNameTranslations).length} display names, ${Object.keys(backup.trackTypeSettings).length} type settings`}
+					</div>
+
+					<div className="overflow-x-auto rounded-lg border border-gray-700">
+						<table className="w-full text-sm">
+							<thead className="bg-gray-700">
+								<tr>
+									<th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">{'Track Name'}</th>
+									<th className="px-3 py-2 text-right text-xs font-medium text-gray-300 uppercase">{'In Backup'}</th>
+									<th className="px-3 py-2 text-right text-xs font-medium text-gray-300 uppercase">{'Already Exist'}</th>
+									<th className="px-3 py-2 text-right text-xs font-medium text-gray-300 uppercase">{'Repeated in File'}</th>
+									<th className="px-3 py-2 text-right text-xs font-medium text-gray-300 uppercase">{'Will Create'}</th>
+								</tr>
+							</thead>
+							<tbody className="divide-y divide-gray-700">
+								{plan.groups.map(group => (
+									<tr key={group.trackName}>
+										<td className="px-3 py-1.5 text-gray-200">{group.trackName}</td>
+										<td className="px-3 py-1.5 text-right text-gray-300">{group.inBackup}</td>
+										<td className="px-3 py-1.5 text-right text-gray-400">{group.duplicates}</td>
+										<td className={`px-3 py-1.5 text-right ${group.inFileDuplicates > 0 ? 'text-yellow-400' : 'text-gray-400'}`}>{group.inFileDuplicates}</td>
+										<td className="px-3 py-1.5 text-right text-green-400">{group.toCreate.length}</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+
+					{translationChanges > 0 && (
+						<div className="text-gray-400 text-sm space-y-1">
+							{plan.translationsAdded.length > 0 && (
+								<div>{`Display names added: ${plan.translationsAdded.join(', ')}`}</div>
+							)}
+							{plan.translationsChanged.length > 0 && (
+								<div className="text-yellow-400">{`Display names replaced by the backup: ${plan.translationsChanged.join(', ')}`}</div>
+							)}
+						</div>
+					)}
+
+					{settingChanges > 0 && (
+						<div className="text-gray-400 text-sm space-y-1">
+							{plan.settingsAdded.length > 0 && (
+								<div>{`Type settings added: ${plan.settingsAdded.join(', ')}`}</div>
+							)}
+							{plan.settingsChanged.length > 0 && (
+								<div className="text-yellow-400">{`Type settings replaced by the backup: ${plan.settingsChanged.join(', ')}`}</div>
+							)}
+							{plan.dayStartHour !== null && (
+								<div className="text-yellow-400">{`Day start changes from ${String(dayStartHour).padStart(2, '0')}:00 to ${String(plan.dayStartHour).padStart(2, '0')}:00`}</div>
+							)}
+						</div>
+					)}
+
+					<button
+						onClick={handleRestore}
+						disabled={status.type === 'loading' || nothingToRestore}
+						className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+					>
+						{nothingToRestore
+							? 'Nothing to restore'
+							: `Restore ${totalToCreate} Tracks${skipped.length > 0 ? ` (skipping ${skipped.join(' and ')})` : ''}`}
+					</button>
+				</>
+			)}
+
+			{status.message && (
+				<div className={`p-4 rounded-lg ${status.type === 'success' ? 'bg-green-900 text-green-200' :
+					status.type === 'error' ? 'bg-red-900 text-red-200' :
+						'bg-blue-900 text-blue-200'
+				}`}>
+					<pre className="whitespace-pre-wrap font-mono text-sm">{status.message}</pre>
+				</div>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,360 @@
+'use client'
+
+import { useMemo, useState, type DragEvent, type ReactElement } from 'react'
+
+import TimeZoneSelect from '@/components/ui/TimeZoneSelect'
+import { useTrackStore } from '@/contexts/TrackContext/TrackContext'
+import { ApiError } from '@/utils/api'
+import { detectDelimiter, parseDelimited, type Delimiter } from '@/utils/import/csv'
+import {
+	describeCandidate,
+	detectTimestamps,
+	getTimestampParsers,
+	resolveTimestamp
+} from '@/utils/import/timestampParsers'
+import { formatInTimeZone, getBrowserTimeZone } from '@/utils/timezone'
+
+const PREVIEW_ROWS = 10
+
+const DELIMITER_LABELS: Record<Delimiter, string> = {
+	',': 'Comma',
+	';': 'Semicolon',
+	'\t': 'Tab'
+}
+
+interface ImportGroupResult {
+	trackName: string
+	rows: number
+	created: number | null
+	// Saved to the offline outbox instead of being sent
+	queued: number
+	error?: string
+}
+
+export default function CsvImport (): ReactElement {
+	const [fileName, setFileName] = useState<string | null>(null)
+	const [rawText, setRawText] = useState('')
+	const [delimiter, setDelimiter] = useState<Delimiter>(',')
+	const [trackNameColumn, setTrackNameColumn] = useState<number | null>(null)
+	const [dateColumns, setDateColumns] = useState<number[]>([])
+	const [format, setFormat] = useState('auto')
+	const [timeZone, setTimeZone] = useState(() => getBrowserTimeZone())
+	const { importTracks } = useTrackStore()
+	const [skipInvalid, setSkipInvalid] = useState(false)
+	const [dragging, setDragging] = useState(false)
+	const [results, setResults] = useState<ImportGroupResult[]>([])
+	const [status, setStatus] = useState<{ type: 'idle' | 'loading' | 'success' | 'error', message: string }>({ type: 'idle', message: '' })
+
+	const table = useMemo(() => parseDelimited(rawText, delimiter), [rawText, delimiter])
+
+	const rows = useMemo(() => {
+		if (trackNameColumn === null || dateColumns.length === 0) { return [] }
+
+		const rawDates = table.rows.map(row => dateColumns.map(col => row[col]).filter(value => value !== '').join(' '))
+		const detections = detectTimestamps(rawDates, { format })
+
+		return table.rows.map((row, index) => {
+			const detection = detections[index]
+			return {
+				trackName: row[trackNameColumn]?.trim() ?? '',
+				rawDate: rawDates[index],
+				detection,
+				resolved: detection.chosen !== null ? resolveTimestamp(detection.chosen.parsed, timeZone) : null
+			}
+		})
+	}, [table, trackNameColumn, dateColumns, format, timeZone])
+
+	const invalidRows = rows.filter(row => row.trackName === '' || row.detection.chosen === null)
+	const ambiguousCount = rows.filter(row => row.detection.ambiguous).length
+	const dstIssueCount = rows.filter(row => row.resolved?.issue != null).length
+
+	const groups = useMemo(() => {
+		const grouped = new Map<string, Date[]>()
+		for (const row of rows) {
+			if (row.trackName === '' || row.resolved === null) { continue }
+			const dates = grouped.get(row.trackName) ?? []
+			dates.push(row.resolved.date)
+			grouped.set(row.trackName, dates)
+		}
+		return [...grouped.entries()].sort(([a], [b]) => a.localeCompare(b))
+	}, [rows])
+
+	const loadFile = async (file: File): Promise<void> => {
+		const text = await file.text()
+		const detected = detectDelimiter(text, file.name)
+		const parsed = parseDelimited(text, detected)
+
+		setFileName(file.name)
+		setRawText(text)
+		setDelimiter(detected)
+		setResults([])
+		setStatus({ type: 'idle', message: '' })
+
+		// Guess the mapping from common header names
+		const lowerHeaders = parsed.headers.map(h => h.toLowerCase())
+		const nameIndex = lowerHeaders.findIndex(h => ['trackname', 'track', 'name', 'type', 'event'].includes(h.replace(/[\s_-]/g, '')))
+		setTrackNameColumn(nameIndex !== -1 ? nameIndex : null)
+		const dateIndexes = lowerHeaders
+			.map((h, i) => ({ h, i }))
+			.filter(({ h, i }) => i !== nameIndex && /date|time|timestamp|when/.test(h))
+			.map(({ i }) => i)
+		setDateColumns(dateIndexes)
+	}
+
+	const handleDrop = (e: DragEvent<HTMLDivElement>): void => {
+		e.preventDefault()
+		setDragging(false)
+		const file = e.dataTransfer.files[0]
+		if (file !== undefined) {
+			loadFile(file).catch(console.error)
+		}
+	}
+
+	const toggleDateColumn = (index: number): void => {
+		setDateColumns(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index])
+	}
+
+	const handleImport = async (): Promise<void> => {
+		if (trackNameColumn === null || dateColumns.length === 0) {
+			setStatus({ type: 'error', message: 'Please map a track name column and at least one date/time column' })
+			return
+		}
+
+		if (invalidRows.length > 0 && !skipInvalid) {
+			const sample = invalidRows.slice(0, 5).map(row => `${row.trackName || '(no track name)'}: ${row.rawDate || '(no date)'}`)
+			setStatus({ type: 'error', message: `Rows that cannot be imported:\n${sample.join('\n')}${invalidRows.length > 5 ? `\n...and ${invalidRows.length - 5} more` : ''}` })
+			return
+		}
+
+		if (groups.length === 0) {
+			setStatus({ type: 'error', message: 'No rows to import' })
+			return
+		}
+
+		setResults([])
+		const groupResults: ImportGroupResult[] = []
+
+		for (const [index, [trackName, dates]] of groups.entries()) {
+			setStatus({ type: 'loading', message: `Importing ${trackName} (${index + 1}/${groups.length})...` })
+			try {
+				const { created, queued } = await importTracks(trackName, dates.map(d => d.toISOString()))
+				groupResults.push({ trackName, rows: dates.length, created, queued })
+			} catch (error) {
+				console.error(`Failed to import ${trackName}:`, error)
+				const message = error instanceof ApiError
+					? error.serverMessage ?? 'Failed to import tracks'
+					: 'Failed to import tracks'
+				groupResults.push({ trackName, rows: dates.length, created: null, queued: 0, error: message })
+			}
+		}
+
+		setResults(groupResults)
+		const totalCreated = groupResults.reduce((sum, r) => sum + (r.created ?? 0), 0)
+		const totalQueued = groupResults.reduce((sum, r) => sum + r.queued, 0)
+		const failed = groupResults.filter(r => r.created === null).length
+		const queuedNote = totalQueued > 0 ? `, ${totalQueued} saved offline to sync later` : ''
+		setStatus(failed > 0
+			? { type: 'error', message: `Created ${totalCreated} tracks${queuedNote}, ${failed} of ${groupResults.length} track types failed` }
+			: { type: 'success', message: `Successfully created ${totalCreated} tracks${queuedNote} across ${groupResults.length} track type${groupResults.length !== 1 ? 's' : ''}` })
+	}
+
+	return (
+		<div className="space-y-4">
+			<div
+				onDragOver={(e) => {
+					e.preventDefault()
+					setDragging(true)
+				}}
+				onDragLeave={() => setDragging(false)}
+				onDrop={handleDrop}
+				className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+					dragging ? 'border-blue-500 bg-blue-900/20' : 'border-gray-600'
+				}`}
+			>
+				<div className="text-gray-300 mb-2">
+					{fileName ?? 'Drop a CSV or TSV file here'}
+				</div>
+				<label className="inline-block px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm cursor-pointer transition-colors">
+					{'Choose File'}
+					<input
+						type="file"
+						accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+						className="hidden"
+						onChange={(e) => {
+							const file = e.target.files?.[0]
+							if (file !== undefined) {
+								loadFile(file).catch(console.error)
+							}
+							e.target.value = ''
+						}}
+					/>
+				</label>
+			</div>
+
+			{table.headers.length > 0 && (
+				<>
+					<div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+						<div>
+							<label htmlFor="csvDelimiter" className="block text-gray-300 mb-2">{'Delimiter'}</label>
+							<select
+								id="csvDelimiter"
+								value={delimiter}
+								onChange={(e) => setDelimiter(e.target.value as Delimiter)}
+								className="w-full bg-gray-700 text-white px-4 py-2 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+							>
+								{(Object.keys(DELIMITER_LABELS) as Delimiter[]).map(d => (
+									<option key={d} value={d}>{DELIMITER_LABELS[d]}</option>
+								))}
+							</select>
+						</div>
+						<div>
+							<label htmlFor="csvTrackName" className="block text-gray-300 mb-2">{'Track Name Column'}</label>
+							<select
+								id="csvTrackName"
+								value={trackNameColumn ?? ''}
+								onChange={(e) => {
+									const index = e.target.value === '' ? null : Number(e.target.value)
+									setTrackNameColumn(index)
+									if (index !== null) {
+										setDateColumns(prev => prev.filter(i => i !== index))
+									}
+								}}
+								className="w-full bg-gray-700 text-white px-4 py-2 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+							>
+								<option value="">{'Select column...'}</option>
+								{table.headers.map((header, index) => (
+									<option key={index} value={index}>{header}</option>
+								))}
+							</select>
+						</div>
+						<div>
+							<label htmlFor="csvFormat" className="block text-gray-300 mb-2">{'Timestamp Format'}</label>
+							<select
+								id="csvFormat"
+								value={format}
+								onChange={(e) => setFormat(e.target.value)}
+								className="w-full bg-gray-700 text-white px-4 py-2 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+							>
+								<option value="auto">{'Auto-detect'}</option>
+								{getTimestampParsers().map(parser => (
+									<option key={parser.id} value={parser.id}>{parser.label}</option>
+								))}
+							</select>
+						</div>
+					</div>
+
+					<TimeZoneSelect id="csvTimeZone" value={timeZone} onChange={setTimeZone} />
+
+					<div>
+						<div className="text-gray-300 mb-2">{'Date/Time Columns'}</div>
+						<p className="text-xs text-gray-500 mb-2">
+							{`Selected columns are joined in the order you pick them, e.g. a "Date" column followed by a "Time" column. Times without a timezone offset are read in ${timeZone}.`}
+						</p>
+						<div className="flex flex-wrap gap-2">
+							{table.headers.map((header, index) => {
+								const position = dateColumns.indexOf(index)
+								return (
+									<button
+										key={index}
+										onClick={() => toggleDateColumn(index)}
+										disabled={index === trackNameColumn}
+										className={`px-3 py-1.5 rounded-lg text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+											position !== -1
+												? 'bg-blue-600 text-white'
+												: 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+										}`}
+									>
+										{position !== -1 ? `${position + 1}. ${header}` : header}
+									</button>
+								)
+							})}
+						</div>
+					</div>
+
+					{rows.length > 0 && (
+						<div>
+							<div className="text-gray-300 mb-2">{`Preview (first ${Math.min(PREVIEW_ROWS, rows.length)} of ${rows.length} rows)`}</div>
+							<div className="overflow-x-auto rounded-lg border border-gray-700">
+								<table className="w-full text-sm">
+									<thead className="bg-gray-700">
+										<tr>
+											<th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">{'Track Name'}</th>
+											<th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">{'Raw Date'}</th>
+											<th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">{'Format'}</th>
+											<th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">{'Parsed As'}</th>
+										</tr>
+									</thead>
+									<tbody className="divide-y divide-gray-700">
+										{rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+											<tr key={index} className={row.detection.chosen === null || row.trackName === '' ? 'bg-red-900/20' : ''}>
+												<td className="px-3 py-1.5 text-gray-200 whitespace-nowrap">{row.trackName || '—'}</td>
+												<td className="px-3 py-1.5 font-mono text-gray-300 whitespace-nowrap">{row.rawDate || '—'}</td>
+												<td className="px-3 py-1.5 text-gray-400 whitespace-nowrap">
+													{row.detection.chosen !== null
+														? `${describeCandidate(row.detection.chosen)}${row.detection.ambiguous ? ' (ambiguous)' : ''}`
+														: <span className="text-red-400">{'Unrecognized'}</span>}
+												</td>
+												<td className="px-3 py-1.5 text-gray-300 whitespace-nowrap">
+													{row.resolved !== null && formatInTimeZone(row.resolved.date, timeZone)}
+													{row.resolved?.issue === 'gap' && <span className="ml-2 text-yellow-400">{'⚠ DST gap, shifted forward'}</span>}
+													{row.resolved?.issue === 'overlap' && <span className="ml-2 text-yellow-400">{'⚠ DST overlap, first occurrence used'}</span>}
+												</td>
+											</tr>
+										))}
+									</tbody>
+								</table>
+							</div>
+							<div className="text-gray-400 text-sm mt-2">
+								{`${groups.length} track type${groups.length !== 1 ? 's' : ''}: ${groups.map(([name, dates]) => `${name} (${dates.length})`).join(', ')}`}
+								{ambiguousCount > 0 && <span className="text-yellow-400">{` • ${ambiguousCount} ambiguous, pick a format to be sure`}</span>}
+								{invalidRows.length > 0 && <span className="text-red-400">{` • ${invalidRows.length} invalid`}</span>}
+								{dstIssueCount > 0 && <span className="text-yellow-400">{` • ${dstIssueCount} affected by DST changes`}</span>}
+							</div>
+							{invalidRows.length > 0 && (
+								<label className="flex items-center gap-2 mt-2 text-sm text-gray-300">
+									<input
+										type="checkbox"
+										checked={skipInvalid}
+										onChange={(e) => setSkipInvalid(e.target.checked)}
+										className="h-4 w-4"
+									/>
+									{'Skip rows that cannot be imported'}
+								</label>
+							)}
+						</div>
+					)}
+
+					<button
+						onClick={handleImport}
+						disabled={status.type === 'loading' || groups.length === 0}
+						className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+					>
+						{status.type === 'loading' ? 'Importing...' : `Import ${groups.reduce((sum, [, dates]) => sum + dates.length, 0)} Tracks`}
+					</button>
+				</>
+			)}
+
+			{status.message && (
+				<div className={`p-4 rounded-lg ${status.type === 'success' ? 'bg-green-900 text-green-200' :
+					status.type === 'error' ? 'bg-red-900 text-red-200' :
+						'bg-blue-900 text-blue-200'
+				}`}>
+					<pre className="whitespace-pre-wrap font-mono text-sm">{status.message}</pre>
+					{results.length > 0 && (
+						<ul className="mt-2 space-y-1 text-sm font-mono">
+							{results.map(result => (
+								<li key={result.trackName}>
+									{result.created === null
+										? `${result.trackName}: failed (${result.error})`
+										: result.queued > 0
+											? `${result.trackName}: ${result.queued} of ${result.rows} saved offline`
+											: `${result.trackName}: ${result.created} of ${result.rows} created`}
+								</li>
+							))}
+						</ul>
+					)}
+				</div>
+			)}
+		</div>
+	)
+}
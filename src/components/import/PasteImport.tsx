@@ -0,0 +1,412 @@
+'use client'
+
+import { useMemo, useState, type ReactElement } from 'react'
+
+import TimeZoneSelect from '@/components/ui/TimeZoneSelect'
+import { useTrackStore } from '@/contexts/TrackContext/TrackContext'
+import { ApiError, listTracks } from '@/utils/api'
+import { DUPLICATE_TOLERANCES, findDuplicates, formatDelta, type DuplicateMatch } from '@/utils/import/duplicates'
+import {
+	describeCandidate,
+	detectTimestamps,
+	getTimestampParsers,
+	resolveTimestamp,
+	type LineDetection
+} from '@/utils/import/timestampParsers'
+import { formatInTimeZone, getBrowserTimeZone } from '@/utils/timezone'
+
+function formatPreviewDate (date: Date, timeZone: string): string {
+	return formatInTimeZone(date, timeZone, {
+		day: '2-digit',
+		month: 'short',
+		year: 'numeric',
+		hour: '2-digit',
+		minute: '2-digit',
+		second: '2-digit'
+	})
+}
+
+const DST_WARNINGS: Record<'gap' | 'overlap', string> = {
+	gap: 'Skipped by a DST change, shifted forward',
+	overlap: 'Occurs twice due to a DST change, first occurrence used'
+}
+
+interface DetectionPreviewProps {
+	detections: LineDetection[]
+	timeZone: string
+	onOverride: (index: number, parserId: string) => void
+}
+
+function DetectionPreview ({ detections, timeZone, onOverride }: DetectionPreviewProps): ReactElement {
+	return (
+		<div className="max-h-80 overflow-y-auto rounded-lg border border-gray-700">
+			<table className="w-full text-sm">
+				<thead className="bg-gray-700 sticky top-0">
+					<tr>
+						<th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">{'Line'}</th>
+						<th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">{'Detected Format'}</th>
+						<th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">{'Parsed As'}</th>
+					</tr>
+				</thead>
+				<tbody className="divide-y divide-gray-700">
+					{detections.map((detection, index) => (
+						<tr key={index} className={detection.chosen === null ? 'bg-red-900/20' : detection.ambiguous ? 'bg-yellow-900/20' : ''}>
+							<td className="px-3 py-1.5 font-mono text-gray-300 whitespace-nowrap">{detection.line.trim()}</td>
+							<td className="px-3 py-1.5 text-gray-400 whitespace-nowrap">
+								{detection.chosen === null ? (
+									<span className="text-red-400">{'Unrecognized'}</span>
+								) : detection.ambiguous ? (
+									<select
+										value={detection.chosen.parser.id}
+										onChange={(e) => onOverride(index, e.target.value)}
+										className="bg-gray-700 text-yellow-300 text-xs px-2 py-1 rounded border border-yellow-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+									>
+										{detection.candidates.map(candidate => (
+											<option key={candidate.parser.id} value={candidate.parser.id}>
+												{describeCandidate(candidate)}
+											</option>
+										))}
+									</select>
+								) : (
+									describeCandidate(detection.chosen)
+								)}
+							</td>
+							<td className="px-3 py-1.5 text-gray-300 whitespace-nowrap">
+								{detection.chosen !== null && (() => {
+									const resolved = resolveTimestamp(detection.chosen.parsed, timeZone)
+									return (
+										<>
+											{formatPreviewDate(resolved.date, timeZone)}
+											{resolved.issue !== null && (
+												<span className="ml-2 text-yellow-400" title={DST_WARNINGS[resolved.issue]}>{'⚠ DST'}</span>
+											)}
+										</>
+									)
+								})()}
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	)
+}
+
+type DuplicateAction = 'skip' | 'keep' | 'review'
+
+interface DuplicateReviewProps {
+	duplicates: Array<DuplicateMatch & { line: string }>
+	timeZone: string
+	included: Record<number, boolean>
+	onToggle: (index: number) => void
+}
+
+function DuplicateReview ({ duplicates, timeZone, included, onToggle }: DuplicateReviewProps): ReactElement {
+	return (
+		<div className="max-h-80 overflow-y-auto rounded-lg border border-gray-700">
+			<table className="w-full text-sm">
+				<thead className="bg-gray-700 sticky top-0">
+					<tr>
+						<th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">{'Import'}</th>
+						<th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">{'Line'}</th>
+						<th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">{'Diff'}</th>
+						<th className="px-3 py-2 text-right text-xs font-medium text-gray-300 uppercase">{'Offset'}</th>
+					</tr>
+				</thead>
+				<tbody className="divide-y divide-gray-700">
+					{duplicates.map(duplicate => (
+						<tr key={duplicate.index}>
+							<td className="px-3 py-1.5">
+								<input
+									type="checkbox"
+									checked={included[duplicate.index] === true}
+									onChange={() => onToggle(duplicate.index)}
+									className="h-4 w-4"
+								/>
+							</td>
+							<td className="px-3 py-1.5 font-mono text-gray-300 whitespace-nowrap">{duplicate.line.trim()}</td>
+							<td className="px-3 py-1.5 font-mono text-xs whitespace-nowrap">
+								<div className="text-red-300">{`− existing ${formatPreviewDate(duplicate.existing, timeZone)}`}</div>
+								<div className="text-green-300">{`+ incoming ${formatPreviewDate(duplicate.incoming, timeZone)}`}</div>
+							</td>
+							<td className="px-3 py-1.5 text-right text-gray-400 whitespace-nowrap">{formatDelta(duplicate.deltaMs)}</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	)
+}
+
+export default function PasteImport (): ReactElement {
+	const [trackName, setTrackName] = useState('')
+	const [rawTimes, setRawTimes] = useState('')
+	const [format, setFormat] = useState('auto')
+	const [overrides, setOverrides] = useState<Record<number, string>>({})
+	const [timeZone, setTimeZone] = useState(() => getBrowserTimeZone())
+	const { importTracks } = useTrackStore()
+	const [existingDates, setExistingDates] = useState<Date[] | null>(null)
+	const [toleranceMs, setToleranceMs] = useState(60 * 1000)
+	const [duplicateAction, setDuplicateAction] = useState<DuplicateAction>('skip')
+	const [reviewIncluded, setReviewIncluded] = useState<Record<number, boolean>>({})
+	const [status, setStatus] = useState<{ type: 'idle' | 'loading' | 'success' | 'error', message: string }>({ type: 'idle', message: '' })
+
+	const lines = useMemo(() => rawTimes.split('\n').filter(line => line.trim()), [rawTimes])
+	const detections = useMemo(() => detectTimestamps(lines, { format, overrides }), [lines, format, overrides])
+	const ambiguousCount = detections.filter(d => d.ambiguous).length
+	const invalidCount = detections.filter(d => d.chosen === null).length
+
+	const resolved = useMemo(() => detections.map(d => d.chosen !== null ? resolveTimestamp(d.chosen.parsed, timeZone) : null), [detections, timeZone])
+	const parsedDates = useMemo(() => resolved.map(r => r?.date ?? null), [resolved])
+	const dstIssueCount = resolved.filter(r => r?.issue != null).length
+
+	const duplicates = useMemo(() => {
+		if (existingDates === null) { return [] }
+		const valid = parsedDates.flatMap((date, index) => date !== null ? [{ date, index }] : [])
+		return findDuplicates(valid.map(v => v.date), existingDates, toleranceMs)
+			.map(match => ({ ...match, index: valid[match.index].index, line: lines[valid[match.index].index] }))
+	}, [existingDates, parsedDates, toleranceMs, lines])
+
+	const resetDryRun = (): void => {
+		setExistingDates(null)
+		setReviewIncluded({})
+	}
+
+	const selectDatesToImport = (): Date[] => {
+		const duplicateIndexes = new Set(duplicates.map(d => d.index))
+		return parsedDates.flatMap((date, index) => {
+			if (date === null) { return [] }
+			if (!duplicateIndexes.has(index) || duplicateAction === 'keep') { return [date] }
+			if (duplicateAction === 'review' && reviewIncluded[index] === true) { return [date] }
+			return []
+		})
+	}
+
+	const importDates = async (dates: Date[]): Promise<void> => {
+		if (dates.length === 0) {
+			setStatus({ type: 'success', message: 'Nothing to import, all timestamps already exist' })
+			return
+		}
+
+		setStatus({ type: 'loading', message: `Importing ${dates.length} tracks...` })
+
+		try {
+			const { created, queued } = await importTracks(trackName.trim(), dates.map(d => d.toISOString()))
+			setStatus({
+				type: 'success',
+				message: queued > 0
+					? `Saved ${queued} tracks offline, they will be created when you are back online`
+					: `Successfully created ${created} tracks`
+			})
+			setRawTimes('')
+			setOverrides({})
+			resetDryRun()
+		} catch (error) {
+			console.error('Failed to import tracks:', error)
+			setStatus({ type: 'error', message: error instanceof ApiError ? error.serverMessage ?? 'Failed to import tracks' : 'Failed to import tracks' })
+		}
+	}
+
+	const handleSubmit = async (): Promise<void> => {
+		if (!trackName.trim()) {
+			setStatus({ type: 'error', message: 'Please enter a track name' })
+			return
+		}
+
+		if (lines.length === 0) {
+			setStatus({ type: 'error', message: 'Please enter at least one timestamp' })
+			return
+		}
+
+		const invalidLines = detections.filter(d => d.chosen === null).map(d => d.line)
+		if (invalidLines.length > 0) {
+			setStatus({ type: 'error', message: `Invalid timestamps:\n${invalidLines.slice(0, 5).join('\n')}${invalidLines.length > 5 ? `\n...and ${invalidLines.length - 5} more` : ''}` })
+			return
+		}
+
+		// The duplicate check has already been shown, so import with the chosen handling
+		if (existingDates !== null) {
+			await importDates(selectDatesToImport())
+			return
+		}
+
+		setStatus({ type: 'loading', message: `Checking existing ${trackName.trim()} tracks for duplicates...` })
+
+		let existing: Date[]
+		try {
+			const tracks = await listTracks({ trackName: trackName.trim() })
+			existing = tracks.map(t => new Date(t.date))
+		} catch (error) {
+			console.error('Failed to fetch existing tracks:', error)
+			setStatus({ type: 'error', message: 'Failed to check for duplicates' })
+			return
+		}
+
+		const validDates = parsedDates.filter((d): d is Date => d !== null)
+		if (findDuplicates(validDates, existing, toleranceMs).length === 0) {
+			await importDates(validDates)
+			return
+		}
+
+		setExistingDates(existing)
+		setStatus({ type: 'idle', message: '' })
+	}
+
+	const previewCount = lines.length
+
+	return (
+		<div className="space-y-4">
+			<div>
+				<label htmlFor="trackName" className="block text-gray-300 mb-2">{'Track Name'}</label>
+				<input
+					id="trackName"
+					type="text"
+					value={trackName}
+					onChange={(e) => {
+						setTrackName(e.target.value)
+						resetDryRun()
+					}}
+					placeholder="e.g., Reddit"
+					className="w-full bg-gray-700 text-white px-4 py-2 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+				/>
+			</div>
+
+			<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+				<div>
+					<label htmlFor="timestampFormat" className="block text-gray-300 mb-2">{'Timestamp Format'}</label>
+					<select
+						id="timestampFormat"
+						value={format}
+						onChange={(e) => {
+							setFormat(e.target.value)
+							setOverrides({})
+							resetDryRun()
+						}}
+						className="w-full bg-gray-700 text-white px-4 py-2 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+					>
+						<option value="auto">{'Auto-detect'}</option>
+						{getTimestampParsers().map(parser => (
+							<option key={parser.id} value={parser.id}>
+								{`${parser.label} (e.g. ${parser.example})`}
+							</option>
+						))}
+					</select>
+				</div>
+				<TimeZoneSelect
+					id="importTimeZone"
+					value={timeZone}
+					onChange={(zone) => {
+						setTimeZone(zone)
+						resetDryRun()
+					}}
+				/>
+			</div>
+
+			<div>
+				<label htmlFor="timestamps" className="block text-gray-300 mb-2">
+					{'Timestamps (one per line)'}
+				</label>
+				<textarea
+					id="timestamps"
+					value={rawTimes}
+					onChange={(e) => {
+						setRawTimes(e.target.value)
+						setOverrides({})
+						resetDryRun()
+					}}
+					placeholder={'12/01/2021 08:51:00\n2021-01-13T14:30:00Z\n01/14/2021 10:15 PM\n1610662500'}
+					rows={15}
+					className="w-full bg-gray-700 text-white px-4 py-3 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+				/>
+				<div className="text-gray-400 text-sm mt-1">
+					{`${previewCount} timestamp${previewCount !== 1 ? 's' : ''} detected`}
+					{ambiguousCount > 0 && <span className="text-yellow-400">{` • ${ambiguousCount} ambiguous`}</span>}
+					{invalidCount > 0 && <span className="text-red-400">{` • ${invalidCount} unrecognized`}</span>}
+					{dstIssueCount > 0 && <span className="text-yellow-400">{` • ${dstIssueCount} affected by DST changes`}</span>}
+				</div>
+			</div>
+
+			{detections.length > 0 && (
+				<DetectionPreview
+					detections={detections}
+					timeZone={timeZone}
+					onOverride={(index, parserId) => {
+						setOverrides(prev => ({ ...prev, [index]: parserId }))
+						resetDryRun()
+					}}
+				/>
+			)}
+
+			<div>
+				<label htmlFor="duplicateTolerance" className="block text-gray-300 mb-2">{'Duplicate Tolerance'}</label>
+				<select
+					id="duplicateTolerance"
+					value={toleranceMs}
+					onChange={(e) => setToleranceMs(Number(e.target.value))}
+					className="w-full bg-gray-700 text-white px-4 py-2 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+				>
+					{DUPLICATE_TOLERANCES.map(tolerance => (
+						<option key={tolerance.ms} value={tolerance.ms}>{tolerance.label}</option>
+					))}
+				</select>
+				<div className="text-gray-500 text-xs mt-1">
+					{'Existing tracks with the same name within this window are treated as duplicates.'}
+				</div>
+			</div>
+
+			{existingDates !== null && duplicates.length > 0 && (
+				<div className="bg-yellow-900/20 border border-yellow-700 rounded-lg p-4 space-y-3">
+					<div className="text-yellow-300 text-sm">
+						{`${duplicates.length} of ${lines.length} timestamps already exist as ${trackName.trim()} tracks.`}
+					</div>
+					<div className="flex flex-wrap gap-4 text-sm text-gray-300">
+						{([['skip', 'Skip duplicates'], ['keep', 'Keep duplicates'], ['review', 'Review individually']] as const).map(([value, label]) => (
+							<label key={value} className="flex items-center gap-2">
+								<input
+									type="radio"
+									name="duplicateAction"
+									checked={duplicateAction === value}
+									onChange={() => setDuplicateAction(value)}
+								/>
+								{label}
+							</label>
+						))}
+					</div>
+					{duplicateAction === 'review' && (
+						<DuplicateReview
+							duplicates={duplicates}
+							timeZone={timeZone}
+							included={reviewIncluded}
+							onToggle={(index) => setReviewIncluded(prev => ({ ...prev, [index]: prev[index] !== true }))}
+						/>
+					)}
+				</div>
+			)}
+
+			<div className="text-gray-400 text-sm">
+				{`Times without a timezone offset will be interpreted in ${timeZone} and converted to UTC for storage.`}
+			</div>
+
+			<button
+				onClick={handleSubmit}
+				disabled={status.type === 'loading'}
+				className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+			>
+				{status.type === 'loading'
+					? 'Importing...'
+					: existingDates !== null && duplicates.length > 0
+						? `Import ${selectDatesToImport().length} Tracks`
+						: 'Check Duplicates & Import'}
+			</button>
+
+			{status.message && (
+				<div className={`p-4 rounded-lg ${status.type === 'success' ? 'bg-green-900 text-green-200' :
+					status.type === 'error' ? 'bg-red-900 text-red-200' :
+						'bg-blue-900 text-blue-200'
+				}`}>
+					<pre className="whitespace-pre-wrap font-mono text-sm">{status.message}</pre>
+				</div>
+			)}
+		</div>
+	)
+}
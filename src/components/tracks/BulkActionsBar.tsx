@@ -0,0 +1,121 @@
+'use client'
+
+import { useState, type ReactElement } from 'react'
+
+import type { BulkAction } from '@/utils/bulkActions'
+
+type ShiftUnit = 'minutes' | 'hours'
+
+const SHIFT_UNITS: Array<{ value: ShiftUnit, label: string, ms: number }> = [
+	{ value: 'minutes', label: 'Minutes', ms: 60 * 1000 },
+	{ value: 'hours', label: 'Hours', ms: 60 * 60 * 1000 }
+]
+
+interface BulkActionsBarProps {
+	selectedCount: number
+	matchingCount: number
+	trackNames: string[]
+	getTranslatedName: (trackName: string) => string
+	onSelectAllMatching: () => void
+	onClear: () => void
+	onAction: (action: BulkAction) => void
+	// Moving and shifting edit each track, which older servers cannot do
+	canEdit: boolean
+}
+
+export default function BulkActionsBar ({
+	selectedCount,
+	matchingCount,
+	trackNames,
+	getTranslatedName,
+	onSelectAllMatching,
+	onClear,
+	onAction,
+	canEdit
+}: BulkActionsBarProps): ReactElement {
+	const [moveTarget, setMoveTarget] = useState('')
+	const [shiftAmount, setShiftAmount] = useState('1')
+	const [shiftUnit, setShiftUnit] = useState<ShiftUnit>('hours')
+
+	const shiftMs = (Number(shiftAmount) || 0) * (SHIFT_UNITS.find(u => u.value === shiftUnit)?.ms ?? 0)
+	const trimmedTarget = moveTarget.trim()
+
+	return (
+		<div className="sticky top-20 z-10 bg-gray-800 border border-blue-700 rounded-lg p-4 flex flex-wrap items-center gap-4 text-sm">
+			<div className="flex items-center gap-3 text-gray-200">
+				<span className="font-medium">{`${selectedCount.toLocaleString()} selected`}</span>
+				{selectedCount < matchingCount && (
+					<button onClick={onSelectAllMatching} className="text-blue-400 hover:text-blue-300">
+						{`Select all ${matchingCount.toLocaleString()} matching`}
+					</button>
+				)}
+				<button onClick={onClear} className="text-gray-400 hover:text-gray-200">
+					{'Clear'}
+				</button>
+			</div>
+
+			{canEdit && (
+				<>
+					<div className="flex flex-wrap items-center gap-2">
+						<input
+							type="text"
+							list="bulk-move-track-names"
+							value={moveTarget}
+							onChange={(e) => setMoveTarget(e.target.value)}
+							placeholder="Track name"
+							aria-label="Move to track name"
+							className="w-40 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+						/>
+						<datalist id="bulk-move-track-names">
+							{trackNames.map(name => (
+								<option key={name} value={name}>{getTranslatedName(name)}</option>
+							))}
+						</datalist>
+						<button
+							onClick={() => onAction({ type: 'move', trackName: trimmedTarget })}
+							disabled={trimmedTarget === ''}
+							className="px-3 py-1 rounded bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+						>
+							{'Move'}
+						</button>
+					</div>
+
+					<div className="flex flex-wrap items-center gap-2">
+						<input
+							type="number"
+							step="1"
+							value={shiftAmount}
+							onChange={(e) => setShiftAmount(e.target.value)}
+							aria-label="Time shift amount, negative to move earlier"
+							className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+						/>
+						<select
+							value={shiftUnit}
+							onChange={(e) => setShiftUnit(e.target.value as ShiftUnit)}
+							aria-label="Time shift unit"
+							className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+						>
+							{SHIFT_UNITS.map(unit => (
+								<option key={unit.value} value={unit.value}>{unit.label}</option>
+							))}
+						</select>
+						<button
+							onClick={() => onAction({ type: 'shift', offsetMs: shiftMs })}
+							disabled={shiftMs === 0}
+							className="px-3 py-1 rounded bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+						>
+							{'Shift Time'}
+						</button>
+					</div>
+				</>
+			)}
+
+			<button
+				onClick={() => onAction({ type: 'delete' })}
+				className="ml-auto px-3 py-1 rounded bg-red-600 text-white hover:bg-red-700 transition-colors"
+			>
+				{'Delete'}
+			</button>
+		</div>
+	)
+}
@@ -0,0 +1,81 @@
+'use client'
+
+import { type ReactElement } from 'react'
+
+import { describeBulkAction, type BulkAction, type SelectionSummary } from '@/utils/bulkActions'
+
+interface BulkConfirmDialogProps {
+	action: BulkAction
+	summary: SelectionSummary
+	// Tracks the action actually changes, fewer than selected when some are already in the target state
+	affectedCount: number
+	running: boolean
+	getTranslatedName: (trackName: string) => string
+	onConfirm: () => void
+	onCancel: () => void
+}
+
+const formatDate = (date: Date): string => date.toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })
+
+export default function BulkConfirmDialog ({
+	action,
+	summary,
+	affectedCount,
+	running,
+	getTranslatedName,
+	onConfirm,
+	onCancel
+}: BulkConfirmDialogProps): ReactElement {
+	const skipped = summary.count - affectedCount
+
+	return (
+		<div className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true">
+			<div className="w-full max-w-lg bg-gray-800 border border-gray-700 rounded-lg p-6 space-y-4">
+				<h3 className="text-lg font-semibold text-white">
+					{`${describeBulkAction(action, affectedCount, getTranslatedName)}?`}
+				</h3>
+
+				<dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+					<dt className="text-gray-400">{'Selected'}</dt>
+					<dd className="text-gray-200">{summary.count.toLocaleString()}</dd>
+					<dt className="text-gray-400">{'Track types'}</dt>
+					<dd className="text-gray-200">{summary.trackNames.map(getTranslatedName).join(', ')}</dd>
+					{summary.first !== null && summary.last !== null && (
+						<>
+							<dt className="text-gray-400">{'Time span'}</dt>
+							<dd className="text-gray-200">{`${formatDate(summary.first)} – ${formatDate(summary.last)}`}</dd>
+						</>
+					)}
+				</dl>
+
+				{skipped > 0 && (
+					<p className="text-sm text-yellow-400">
+						{action.type === 'shift'
+							? `${skipped} track${skipped !== 1 ? 's have' : ' has'} an invalid date and will be skipped`
+							: `${skipped} track${skipped !== 1 ? 's are' : ' is'} already in that track type and will be skipped`}
+					</p>
+				)}
+				<p className="text-sm text-gray-400">{'You can undo the whole batch afterwards.'}</p>
+
+				<div className="flex justify-end gap-2">
+					<button
+						onClick={onCancel}
+						disabled={running}
+						className="px-4 py-2 rounded bg-gray-700 text-gray-300 text-sm font-medium hover:bg-gray-600 transition-colors disabled:opacity-50"
+					>
+						{'Cancel'}
+					</button>
+					<button
+						onClick={onConfirm}
+						disabled={running || affectedCount === 0}
+						className={`px-4 py-2 rounded text-white text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+							action.type === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+						}`}
+					>
+						{running ? 'Working...' : 'Confirm'}
+					</button>
+				</div>
+			</div>
+		</div>
+	)
+}
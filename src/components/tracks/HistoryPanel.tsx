@@ -0,0 +1,77 @@
+'use client'
+
+import { useState, type ReactElement } from 'react'
+
+import { describeJournalEntry, type JournalEntry } from '@/utils/journal'
+
+interface HistoryPanelProps {
+	journal: JournalEntry[]
+	getTranslatedName: (trackName: string) => string
+	onUndo: (entry: JournalEntry) => Promise<void>
+}
+
+function describeUndo ({ operation }: JournalEntry): string {
+	switch (operation.type) {
+		case 'delete':
+			return 'Re-creates the tracks with their original names and times'
+		case 'rename':
+			return operation.merged
+				? 'Moves the merged tracks back to their original type'
+				: 'Renames the type back'
+		case 'update':
+			return 'Restores the previous names and times'
+	}
+}
+
+export default function HistoryPanel ({ journal, getTranslatedName, onUndo }: HistoryPanelProps): ReactElement | null {
+	const [expanded, setExpanded] = useState(false)
+	const [undoingId, setUndoingId] = useState<string | null>(null)
+
+	if (journal.length === 0) {
+		return null
+	}
+
+	const handleUndo = async (entry: JournalEntry): Promise<void> => {
+		setUndoingId(entry.id)
+		try {
+			await onUndo(entry)
+		} finally {
+			setUndoingId(null)
+		}
+	}
+
+	return (
+		<div className="bg-gray-800 rounded-lg border border-gray-700 mb-4">
+			<button
+				onClick={() => setExpanded(!expanded)}
+				className="w-full flex items-center justify-between p-4 hover:bg-gray-700 transition-colors rounded-lg cursor-pointer"
+			>
+				<h3 className="text-lg font-semibold text-white">{`History (${journal.length})`}</h3>
+				<span className="text-sm text-blue-400 font-medium">
+					{expanded ? 'Collapse' : 'Expand'}
+				</span>
+			</button>
+			{expanded && (
+				<ul className="px-4 pb-4 divide-y divide-gray-700">
+					{journal.map(entry => (
+						<li key={entry.id} className="flex items-center justify-between gap-4 py-3">
+							<div className="min-w-0">
+								<p className="text-sm text-gray-200">{describeJournalEntry(entry, getTranslatedName)}</p>
+								<p className="text-xs text-gray-500">
+									{`${new Date(entry.recordedAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })} · ${describeUndo(entry)}`}
+								</p>
+							</div>
+							<button
+								onClick={() => { handleUndo(entry).catch(console.error) }}
+								disabled={undoingId !== null}
+								className="px-3 py-1 rounded bg-gray-700 text-gray-200 text-sm hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+							>
+								{undoingId === entry.id ? 'Undoing...' : 'Undo'}
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	)
+}
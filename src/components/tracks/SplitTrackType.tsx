@@ -0,0 +1,295 @@
+'use client'
+
+import { useMemo, useState, type ReactElement } from 'react'
+
+import { isPendingTrack, useTrackStore } from '@/contexts/TrackContext/TrackContext'
+import type { Track } from '@/types/Track'
+import {
+	describeSplitRule,
+	matchesSplitRule,
+	SPLIT_RULE_TYPES,
+	WEEKDAY_LABELS,
+	type SplitRule,
+	type SplitRuleType
+} from '@/utils/splitRules'
+
+interface SplitTrackTypeProps {
+	tracks: Track[]
+	trackNames: string[]
+	timeZone: string
+	// Rows ticked in the table, used by the "Selected Rows" rule
+	selectedIds: ReadonlySet<string>
+	getTranslatedName: (trackName: string) => string
+}
+
+// Number of matching events listed in the preview
+const PREVIEW_LIMIT = 10
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+const formatHour = (hour: number): string => `${hour.toString().padStart(2, '0')}:00`
+
+export default function SplitTrackType ({ tracks, trackNames, timeZone, selectedIds, getTranslatedName }: SplitTrackTypeProps): ReactElement {
+	const { updateTracks } = useTrackStore()
+	const [expanded, setExpanded] = useState(false)
+	const [sourceName, setSourceName] = useState('')
+	const [targetName, setTargetName] = useState('')
+	const [ruleType, setRuleType] = useState<SplitRuleType>('dateRange')
+	const [dateFrom, setDateFrom] = useState('')
+	const [dateTo, setDateTo] = useState('')
+	const [hourFrom, setHourFrom] = useState(22)
+	const [hourTo, setHourTo] = useState(6)
+	const [weekdays, setWeekdays] = useState<number[]>([5, 6])
+	const [splitting, setSplitting] = useState(false)
+	const [status, setStatus] = useState<{ type: 'success' | 'error', message: string } | null>(null)
+
+	const rule = useMemo((): SplitRule => {
+		switch (ruleType) {
+			case 'dateRange':
+				return { type: 'dateRange', range: { from: dateFrom, to: dateTo } }
+			case 'hours':
+				return { type: 'hours', from: hourFrom, to: hourTo }
+			case 'weekdays':
+				return { type: 'weekdays', days: weekdays }
+			case 'selection':
+				return { type: 'selection', trackIds: selectedIds }
+		}
+	}, [ruleType, dateFrom, dateTo, hourFrom, hourTo, weekdays, selectedIds])
+
+	const sourceTracks = useMemo(() => tracks.filter(t => t.trackName === sourceName), [tracks, sourceName])
+	const allMatching = useMemo(() => sourceTracks.filter(t => matchesSplitRule(t, rule, timeZone)), [sourceTracks, rule, timeZone])
+	// Tracks still queued offline have no server id to update yet, they can be split once they have synced
+	const matching = useMemo(() => allMatching.filter(t => !isPendingTrack(t)), [allMatching])
+	const pendingCount = allMatching.length - matching.length
+	const pendingNote = pendingCount > 0
+		? `${pendingCount} matching track${pendingCount !== 1 ? 's are' : ' is'} still waiting to sync and will be skipped.`
+		: null
+
+	const trimmedTarget = targetName.trim()
+	const ruleError = rule.type === 'dateRange' && rule.range.from === '' && rule.range.to === ''
+		? 'Choose a start or end date'
+		: rule.type === 'hours' && rule.from === rule.to
+			? 'Start and end hour must differ'
+			: rule.type === 'weekdays' && rule.days.length === 0
+				? 'Choose at least one weekday'
+				: null
+	const error = sourceName === ''
+		? 'Choose the track type to split'
+		: trimmedTarget === ''
+			? 'Enter a name for the split-off tracks'
+			: trimmedTarget === sourceName
+				? 'The new name must differ from the original'
+				: ruleError
+
+	const toggleWeekday = (day: number): void => {
+		setWeekdays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day])
+	}
+
+	const handleSplit = async (): Promise<void> => {
+		if (error !== null || matching.length === 0) { return }
+		const merging = trackNames.includes(trimmedTarget)
+		const confirmed = confirm(
+			`Move ${matching.length} of ${sourceTracks.length} "${getTranslatedName(sourceName)}" tracks ${describeSplitRule(rule)} ` +
+			`to ${merging ? 'the existing type' : 'the new type'} "${trimmedTarget}"?${pendingNote !== null ? ` ${pendingNote}` : ''}\n\nYou can undo this from the History panel.`
+		)
+		if (!confirmed) { return }
+
+		setSplitting(true)
+		setStatus(null)
+		try {
+			const result = await updateTracks(matching.map(t => ({ trackId: t._id, changes: { trackName: trimmedTarget } })))
+			const skippedNote = pendingCount > 0 ? `, skipped ${pendingCount} not yet synced` : ''
+			setStatus(result.failed.length > 0
+				? { type: 'error', message: `Moved ${result.succeeded.length} tracks, ${result.failed.length} failed${skippedNote}` }
+				: { type: 'success', message: `Moved ${result.succeeded.length} tracks to "${trimmedTarget}"${skippedNote}` })
+		} catch (err) {
+			console.error('Failed to split track type:', err)
+			setStatus({ type: 'error', message: 'Failed to split track type' })
+		} finally {
+			setSplitting(false)
+		}
+	}
+
+	return (
+		<div className="bg-gray-800 rounded-lg border border-gray-700 mb-4">
+			<button
+				onClick={() => setExpanded(!expanded)}
+				className="w-full flex items-center justify-between p-4 hover:bg-gray-700 transition-colors rounded-lg cursor-pointer"
+			>
+				<h3 className="text-lg font-semibold text-white">{'Split Track Type'}</h3>
+				<span className="text-sm text-blue-400 font-medium">
+					{expanded ? 'Collapse' : 'Expand'}
+				</span>
+			</button>
+			{expanded && (
+				<div className="px-4 pb-4 space-y-4 text-sm">
+					<p className="text-gray-400">
+						{'Move the events of one type that match a rule to another name, for example to separate two types that were merged by a rename.'}
+					</p>
+
+					<div className="flex flex-wrap gap-4">
+						<label className="flex flex-col gap-1 text-gray-300">
+							{'Track type'}
+							<select
+								value={sourceName}
+								onChange={(e) => setSourceName(e.target.value)}
+								className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+							>
+								<option value="">{'Choose...'}</option>
+								{trackNames.map(name => (
+									<option key={name} value={name}>{getTranslatedName(name)}</option>
+								))}
+							</select>
+						</label>
+						<label className="flex flex-col gap-1 text-gray-300">
+							{'Move matching events to'}
+							<input
+								type="text"
+								list="split-target-names"
+								value={targetName}
+								onChange={(e) => setTargetName(e.target.value)}
+								placeholder="New track name"
+								className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+							/>
+							<datalist id="split-target-names">
+								{trackNames.filter(name => name !== sourceName).map(name => (
+									<option key={name} value={name}>{getTranslatedName(name)}</option>
+								))}
+							</datalist>
+						</label>
+					</div>
+
+					<div className="flex flex-wrap gap-2">
+						{SPLIT_RULE_TYPES.map(({ value, label }) => (
+							<button
+								key={value}
+								onClick={() => setRuleType(value)}
+								className={`px-4 py-2 rounded-lg font-medium text-sm transition-colors ${
+									ruleType === value
+										? 'bg-blue-600 text-white'
+										: 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+								}`}
+							>
+								{label}
+							</button>
+						))}
+					</div>
+
+					{ruleType === 'dateRange' && (
+						<div className="flex flex-wrap gap-4">
+							<label className="flex flex-col gap-1 text-gray-300">
+								{'From'}
+								<input
+									type="date"
+									value={dateFrom}
+									onChange={(e) => setDateFrom(e.target.value)}
+									className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+								/>
+							</label>
+							<label className="flex flex-col gap-1 text-gray-300">
+								{'To'}
+								<input
+									type="date"
+									value={dateTo}
+									onChange={(e) => setDateTo(e.target.value)}
+									className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+								/>
+							</label>
+						</div>
+					)}
+					{ruleType === 'hours' && (
+						<div className="flex flex-wrap items-end gap-4">
+							<label className="flex flex-col gap-1 text-gray-300">
+								{'From'}
+								<select
+									value={hourFrom}
+									onChange={(e) => setHourFrom(Number(e.target.value))}
+									className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+								>
+									{HOURS.map(hour => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+								</select>
+							</label>
+							<label className="flex flex-col gap-1 text-gray-300">
+								{'Until'}
+								<select
+									value={hourTo}
+									onChange={(e) => setHourTo(Number(e.target.value))}
+									className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+								>
+									{HOURS.map(hour => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+								</select>
+							</label>
+							{hourFrom > hourTo && (
+								<span className="text-gray-400 pb-2">{'Wraps past midnight'}</span>
+							)}
+						</div>
+					)}
+					{ruleType === 'weekdays' && (
+						<div className="flex flex-wrap gap-2">
+							{WEEKDAY_LABELS.map((label, day) => (
+								<button
+									key={label}
+									onClick={() => toggleWeekday(day)}
+									className={`px-3 py-1 rounded transition-colors ${
+										weekdays.includes(day)
+											? 'bg-blue-600 text-white'
+											: 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+									}`}
+								>
+									{label}
+								</button>
+							))}
+						</div>
+					)}
+					{ruleType === 'selection' && (
+						<p className="text-gray-400">
+							{selectedIds.size > 0
+								? `${selectedIds.size} row${selectedIds.size !== 1 ? 's are' : ' is'} ticked in the table below, only those of the chosen type are moved.`
+								: 'Tick rows in the table below to choose which events to move.'}
+						</p>
+					)}
+
+					{error !== null ? (
+						<p className="text-yellow-400">{error}</p>
+					) : (
+						<div className="space-y-2">
+							<p className="text-gray-300">
+								{`${matching.length} of ${sourceTracks.length} events match and would move to "${trimmedTarget}"${trackNames.includes(trimmedTarget) ? ' (an existing type)' : ''}.`}
+							</p>
+							{pendingNote !== null && (
+								<p className="text-yellow-400">{pendingNote}</p>
+							)}
+							{matching.length > 0 && (
+								<ul className="font-mono text-xs text-gray-400 space-y-1">
+									{matching.slice(0, PREVIEW_LIMIT).map(track => (
+										<li key={track._id}>
+											{isNaN(new Date(track.date).getTime())
+												? String(track.date)
+												: new Date(track.date).toLocaleString('en-GB', { timeZone, weekday: 'short', day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+										</li>
+									))}
+									{matching.length > PREVIEW_LIMIT && (
+										<li>{`...and ${matching.length - PREVIEW_LIMIT} more`}</li>
+									)}
+								</ul>
+							)}
+						</div>
+					)}
+
+					<div className="flex items-center gap-4">
+						<button
+							onClick={() => { handleSplit().catch(console.error) }}
+							disabled={splitting || error !== null || matching.length === 0}
+							className="px-4 py-2 rounded bg-blue-600 text-white font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+						>
+							{splitting ? 'Splitting...' : `Split ${matching.length} Event${matching.length !== 1 ? 's' : ''}`}
+						</button>
+						{status !== null && (
+							<span className={status.type === 'success' ? 'text-green-400' : 'text-red-400'}>{status.message}</span>
+						)}
+					</div>
+				</div>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,170 @@
+'use client'
+
+import { useMemo, useState, type ReactElement } from 'react'
+
+import type { Track } from '@/types/Track'
+import type { TrackChanges } from '@/utils/api'
+import { formatInTimeZone, formatOffset, getZonedParts, zonedWallClockToDate } from '@/utils/timezone'
+
+interface TrackEditRowProps {
+	track: Track
+	trackNames: string[]
+	timeZone: string
+	getTranslatedName: (trackName: string) => string
+	onSave: (changes: TrackChanges) => Promise<void>
+	onCancel: () => void
+}
+
+function pad (value: number, length = 2): string {
+	return value.toString().padStart(length, '0')
+}
+
+// Splits a stored date into the values of the date and time inputs, both empty when it does not parse
+function toInputValues (value: string, timeZone: string): { date: string, time: string } {
+	const date = new Date(value)
+	if (isNaN(date.getTime())) { return { date: '', time: '' } }
+	const parts = getZonedParts(date, timeZone)
+	return {
+		date: `${pad(parts.year, 4)}-${pad(parts.month)}-${pad(parts.day)}`,
+		time: `${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}`
+	}
+}
+
+export default function TrackEditRow ({ track, trackNames, timeZone, getTranslatedName, onSave, onCancel }: TrackEditRowProps): ReactElement {
+	const initial = useMemo(() => toInputValues(track.date, timeZone), [track.date, timeZone])
+	const [trackName, setTrackName] = useState(track.trackName)
+	const [dateValue, setDateValue] = useState(initial.date)
+	const [timeValue, setTimeValue] = useState(initial.time)
+	const [saving, setSaving] = useState(false)
+	const [saveError, setSaveError] = useState<string | null>(null)
+
+	const result = useMemo(() => {
+		const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateValue)
+		// Time inputs drop the seconds when they are zero
+		const timeMatch = /^(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(timeValue)
+		if (dateMatch === null || timeMatch === null) { return null }
+		return zonedWallClockToDate({
+			year: Number(dateMatch[1]),
+			month: Number(dateMatch[2]),
+			day: Number(dateMatch[3]),
+			hour: Number(timeMatch[1]),
+			minute: Number(timeMatch[2]),
+			second: Number(timeMatch[3] ?? '0')
+		}, timeZone)
+	}, [dateValue, timeValue, timeZone])
+
+	const trimmedName = trackName.trim()
+	const validationError = trimmedName === ''
+		? 'Track name is required'
+		: result === null
+			? 'Enter a valid date and time'
+			: result.issue === 'gap'
+				? 'This time does not exist in your timezone because of a daylight saving change'
+				: null
+
+	const changes = useMemo((): TrackChanges => {
+		const next: TrackChanges = {}
+		if (trimmedName !== track.trackName) { next.trackName = trimmedName }
+		if (result !== null && result.date.toISOString() !== track.date) { next.date = result.date.toISOString() }
+		return next
+	}, [trimmedName, result, track.trackName, track.date])
+
+	const hasChanges = Object.keys(changes).length > 0
+	const isNewType = trimmedName !== '' && !trackNames.includes(trimmedName)
+
+	const handleSave = async (): Promise<void> => {
+		if (validationError !== null || !hasChanges) { return }
+		setSaving(true)
+		setSaveError(null)
+		try {
+			await onSave(changes)
+		} catch (error) {
+			console.error('Failed to update track:', error)
+			setSaveError(error instanceof Error ? error.message : 'Failed to update track')
+			setSaving(false)
+		}
+	}
+
+	const listId = `track-names-${track._id}`
+
+	return (
+		<tr className="bg-gray-750">
+			<td colSpan={5} className="px-6 py-4">
+				<div className="flex flex-wrap items-end gap-3">
+					<label className="flex flex-col gap-1 text-xs text-gray-400">
+						{'Track Name'}
+						<input
+							type="text"
+							list={listId}
+							value={trackName}
+							onChange={(e) => setTrackName(e.target.value)}
+							className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+						/>
+						<datalist id={listId}>
+							{trackNames.map(name => (
+								<option key={name} value={name}>{getTranslatedName(name)}</option>
+							))}
+						</datalist>
+					</label>
+					<label className="flex flex-col gap-1 text-xs text-gray-400">
+						{'Date'}
+						<input
+							type="date"
+							value={dateValue}
+							onChange={(e) => setDateValue(e.target.value)}
+							className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+						/>
+					</label>
+					<label className="flex flex-col gap-1 text-xs text-gray-400">
+						{'Time'}
+						<input
+							type="time"
+							step="1"
+							value={timeValue}
+							onChange={(e) => setTimeValue(e.target.value)}
+							className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+						/>
+					</label>
+					<div className="flex gap-2 ml-auto">
+						<button
+							onClick={() => { handleSave().catch(console.error) }}
+							disabled={saving || validationError !== null || !hasChanges}
+							className="px-4 py-2 rounded bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+						>
+							{saving ? 'Saving...' : 'Save'}
+						</button>
+						<button
+							onClick={onCancel}
+							disabled={saving}
+							className="px-4 py-2 rounded bg-gray-700 text-gray-300 text-sm font-medium hover:bg-gray-600 transition-colors disabled:opacity-50"
+						>
+							{'Cancel'}
+						</button>
+					</div>
+				</div>
+
+				<div className="mt-3 space-y-1 text-xs">
+					{isNaN(new Date(track.date).getTime()) && (
+						<p className="text-red-400 font-mono">{`Stored value: ${String(track.date)}`}</p>
+					)}
+					{validationError !== null ? (
+						<p className="text-red-400">{validationError}</p>
+					) : result !== null && (
+						<p className="text-gray-400">
+							{`Local: ${formatInTimeZone(result.date, timeZone, { dateStyle: 'medium', timeStyle: 'medium' })} (UTC${formatOffset(result.date, timeZone)}) · UTC: ${result.date.toISOString()}`}
+						</p>
+					)}
+					{result?.issue === 'overlap' && (
+						<p className="text-yellow-400">{'This time occurs twice because of a daylight saving change, the first occurrence is used'}</p>
+					)}
+					{isNewType && (
+						<p className="text-yellow-400">{`"${trimmedName}" is a new track type`}</p>
+					)}
+					{saveError !== null && (
+						<p className="text-red-400">{saveError}</p>
+					)}
+				</div>
+			</td>
+		</tr>
+	)
+}
@@ -0,0 +1,112 @@
+'use client'
+
+import type { ReactElement } from 'react'
+
+import { WEEKDAY_LABELS } from '@/utils/splitRules'
+import { EMPTY_TRACK_FILTERS, hasActiveFilters, type TrackFilters } from '@/utils/trackFilters'
+
+interface TrackFilterBarProps {
+	filters: TrackFilters
+	onChange: (filters: TrackFilters) => void
+	// Tracks of the selected type before and after filtering
+	matchCount: number
+	totalCount: number
+}
+
+const inputClassName = 'px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function TrackFilterBar ({ filters, onChange, matchCount, totalCount }: TrackFilterBarProps): ReactElement {
+	const active = hasActiveFilters(filters)
+
+	const toggleWeekday = (day: number): void => {
+		onChange({
+			...filters,
+			weekdays: filters.weekdays.includes(day) ? filters.weekdays.filter(d => d !== day) : [...filters.weekdays, day]
+		})
+	}
+
+	return (
+		<div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-3">
+			<div className="flex flex-wrap items-end gap-3">
+				<label className="flex flex-col gap-1 text-xs text-gray-400 grow min-w-48">
+					{'Search'}
+					<input
+						type="search"
+						value={filters.query}
+						onChange={(e) => onChange({ ...filters, query: e.target.value })}
+						placeholder="Track name or translation"
+						className={inputClassName}
+					/>
+				</label>
+				<label className="flex flex-col gap-1 text-xs text-gray-400">
+					{'From date'}
+					<input
+						type="date"
+						value={filters.dateRange.from}
+						onChange={(e) => onChange({ ...filters, dateRange: { ...filters.dateRange, from: e.target.value } })}
+						className={inputClassName}
+					/>
+				</label>
+				<label className="flex flex-col gap-1 text-xs text-gray-400">
+					{'To date'}
+					<input
+						type="date"
+						value={filters.dateRange.to}
+						onChange={(e) => onChange({ ...filters, dateRange: { ...filters.dateRange, to: e.target.value } })}
+						className={inputClassName}
+					/>
+				</label>
+				<label className="flex flex-col gap-1 text-xs text-gray-400">
+					{'After'}
+					<input
+						type="time"
+						value={filters.timeFrom}
+						onChange={(e) => onChange({ ...filters, timeFrom: e.target.value })}
+						className={inputClassName}
+					/>
+				</label>
+				<label className="flex flex-col gap-1 text-xs text-gray-400">
+					{'Before'}
+					<input
+						type="time"
+						value={filters.timeTo}
+						onChange={(e) => onChange({ ...filters, timeTo: e.target.value })}
+						className={inputClassName}
+					/>
+				</label>
+			</div>
+
+			<div className="flex flex-wrap items-center gap-2 text-sm">
+				{WEEKDAY_LABELS.map((label, day) => (
+					<button
+						key={label}
+						onClick={() => toggleWeekday(day)}
+						className={`px-3 py-1 rounded transition-colors ${
+							filters.weekdays.includes(day)
+								? 'bg-blue-600 text-white'
+								: 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+						}`}
+					>
+						{label}
+					</button>
+				))}
+				{filters.timeFrom !== '' && filters.timeTo !== '' && filters.timeFrom > filters.timeTo && (
+					<span className="text-gray-400">{'Time range wraps past midnight'}</span>
+				)}
+				<div className="flex items-center gap-3 ml-auto">
+					<span className="text-gray-400">
+						{active ? `${matchCount} of ${totalCount} tracks match` : `${totalCount} tracks`}
+					</span>
+					{active && (
+						<button
+							onClick={() => onChange({ ...EMPTY_TRACK_FILTERS, trackName: filters.trackName })}
+							className="px-3 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+						>
+							{'Clear filters'}
+						</button>
+					)}
+				</div>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import { useState, type ReactElement } from 'react'
+
+import { useTrackTypes } from '@/contexts/TrackTypeContext/TrackTypeContext'
+import type { TrackTypeSettings } from '@/types/TrackType'
+
+interface TrackTypeSettingsFieldsProps {
+	trackName: string
+	// Existing categories, offered as suggestions
+	categories: string[]
+}
+
+// Colour, icon, category and archive flag of one type, text fields save when they lose focus
+export default function TrackTypeSettingsFields ({ trackName, categories }: TrackTypeSettingsFieldsProps): ReactElement {
+	const { settings, saveSettings, getTrackColor } = useTrackTypes()
+	const [draft, setDraft] = useState<TrackTypeSettings | null>(null)
+	const [saving, setSaving] = useState(false)
+
+	const current = settings[trackName] ?? {}
+	const values = { ...current, ...draft }
+
+	const save = async (changes: TrackTypeSettings): Promise<void> => {
+		setDraft(null)
+		const next = { ...current, ...changes }
+		if (next.color === current.color && next.icon === current.icon && next.category === current.category && next.archived === current.archived) {
+			return
+		}
+		setSaving(true)
+		try {
+			await saveSettings({ ...settings, [trackName]: next })
+		} catch (error) {
+			console.error('Failed to save track type settings:', error)
+			alert('Failed to save track type settings. Please try again.')
+		} finally {
+			setSaving(false)
+		}
+	}
+
+	const commitDraft = (): void => {
+		if (draft !== null) {
+			save(draft).catch(console.error)
+		}
+	}
+
+	const listId = `track-type-categories-${trackName}`
+
+	return (
+		<div className="flex items-center gap-2">
+			<input
+				type="color"
+				value={values.color ?? getTrackColor(trackName)}
+				onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+				onBlur={commitDraft}
+				disabled={saving}
+				aria-label="Colour"
+				title={current.color === undefined ? 'Colour (derived from the name)' : 'Colour'}
+				className="w-9 h-8 p-0.5 bg-gray-700 border border-gray-600 rounded cursor-pointer disabled:opacity-50"
+			/>
+			<input
+				type="text"
+				value={values.icon ?? ''}
+				onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+				onBlur={commitDraft}
+				disabled={saving}
+				placeholder="Icon"
+				aria-label="Icon"
+				className="w-14 px-2 py-1.5 text-sm text-center bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+			/>
+			<input
+				type="text"
+				list={listId}
+				value={values.category ?? ''}
+				onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+				onBlur={commitDraft}
+				disabled={saving}
+				placeholder="Category"
+				aria-label="Category"
+				className="w-32 px-2 py-1.5 text-sm bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+			/>
+			<datalist id={listId}>
+				{categories.map(category => <option key={category} value={category} />)}
+			</datalist>
+			<label className="flex items-center gap-1.5 text-xs text-gray-400 cursor-pointer whitespace-nowrap">
+				<input
+					type="checkbox"
+					checked={values.archived === true}
+					onChange={(e) => { save({ ...draft, archived: e.target.checked }).catch(console.error) }}
+					disabled={saving}
+					className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500"
+				/>
+				{'Archived'}
+			</label>
+			{current.color !== undefined && (
+				<button
+					onClick={() => { save({ ...draft, color: undefined }).catch(console.error) }}
+					disabled={saving}
+					className="px-2 py-1 text-xs text-gray-400 hover:text-gray-200 disabled:opacity-50"
+					title="Use the colour derived from the name"
+				>
+					{'Reset colour'}
+				</button>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,42 @@
+'use client'
+
+import type { ReactElement } from 'react'
+
+import { useError } from '@/contexts/ErrorContext/ErrorContext'
+import { useTrackTypes } from '@/contexts/TrackTypeContext/TrackTypeContext'
+
+// Any later and ordinary mornings would count towards the day before
+const DAY_START_HOURS = [0, 1, 2, 3, 4, 5, 6]
+
+// Saved on the user, so every day-based chart on every device counts days the same way. Older backends keep it on this device
+export default function DayStartSelect (): ReactElement {
+	const { dayStartHour, saveDayStartHour } = useTrackTypes()
+	const { addError } = useError()
+
+	const handleChange = async (hour: number): Promise<void> => {
+		try {
+			await saveDayStartHour(hour)
+		} catch (error) {
+			console.error('Failed to save day start:', error)
+			addError(error)
+		}
+	}
+
+	return (
+		<label
+			className="flex items-center gap-1.5 text-xs sm:text-sm text-gray-400"
+			title="Tracks before this hour count towards the previous day"
+		>
+			{'Day starts at'}
+			<select
+				value={dayStartHour}
+				onChange={(e) => { handleChange(Number(e.target.value)).catch(console.error) }}
+				className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs sm:text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+			>
+				{DAY_START_HOURS.map(hour => (
+					<option key={hour} value={hour}>{`${String(hour).padStart(2, '0')}:00`}</option>
+				))}
+			</select>
+		</label>
+	)
+}
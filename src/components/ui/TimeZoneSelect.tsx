@@ -0,0 +1,40 @@
+'use client'
+
+import { useMemo, type ReactElement } from 'react'
+
+import { formatOffset, getBrowserTimeZone, getTimeZones } from '@/utils/timezone'
+
+interface TimeZoneSelectProps {
+	id: string
+	value: string
+	onChange: (timeZone: string) => void
+	label?: string
+}
+
+export default function TimeZoneSelect ({ id, value, onChange, label = 'Timezone' }: TimeZoneSelectProps): ReactElement {
+	const browserTimeZone = useMemo(() => getBrowserTimeZone(), [])
+	const zones = useMemo(() => {
+		const now = new Date()
+		const all = getTimeZones()
+		if (!all.includes(browserTimeZone)) { all.unshift(browserTimeZone) }
+		return all.map(zone => ({ zone, offset: formatOffset(now, zone) }))
+	}, [browserTimeZone])
+
+	return (
+		<div>
+			<label htmlFor={id} className="block text-gray-300 mb-2">{label}</label>
+			<select
+				id={id}
+				value={value}
+				onChange={(e) => onChange(e.target.value)}
+				className="w-full bg-gray-700 text-white px-4 py-2 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+			>
+				{zones.map(({ zone, offset }) => (
+					<option key={zone} value={zone}>
+						{`${zone.replace(/_/g, ' ')} (UTC${offset})${zone === browserTimeZone ? ' — this device' : ''}`}
+					</option>
+				))}
+			</select>
+		</div>
+	)
+}
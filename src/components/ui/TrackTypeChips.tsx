@@ -0,0 +1,131 @@
+'use client'
+
+import { useMemo, useState, type ReactElement } from 'react'
+
+import { useTrackTypes } from '@/contexts/TrackTypeContext/TrackTypeContext'
+import { groupByCategory } from '@/utils/trackTypes'
+
+interface TrackTypeChipsProps {
+	trackNames: string[]
+	// 'All' or one of trackNames
+	selected: string
+	onSelect: (name: string) => void
+	// Given when a whole category can be selected as one combined series
+	selectedCategory?: string | null
+	onSelectCategory?: (category: string) => void
+	// Given when several types can be picked: these are shown as selected, onSelect toggles one and there is no "All"
+	selectedNames?: string[]
+	className?: string
+}
+
+// Key of the group of types without a category, categories are never empty strings
+const UNCATEGORIZED = ''
+
+// Type picker with an "All" chip. Once categories exist the types are grouped: the first row lists the
+// categories and the types of the open category follow below. Archived types stay behind a toggle unless selected.
+export default function TrackTypeChips ({
+	trackNames,
+	selected,
+	onSelect,
+	selectedCategory = null,
+	onSelectCategory,
+	selectedNames,
+	className = 'flex flex-wrap gap-2'
+}: TrackTypeChipsProps): ReactElement {
+	const { settings, getTranslatedName, getTrackColor, getTrackIcon, isArchived } = useTrackTypes()
+	const [showArchived, setShowArchived] = useState(false)
+	const [openGroup, setOpenGroup] = useState<string | null>(null)
+
+	const isSelected = (name: string): boolean => selectedNames !== undefined
+		? selectedNames.includes(name)
+		: selected === name && selectedCategory === null
+
+	const archivedCount = trackNames.filter(isArchived).length
+	const visibleNames = useMemo(
+		() => showArchived ? trackNames : trackNames.filter(name => !isArchived(name) || name === selected || selectedNames?.includes(name) === true),
+		[showArchived, trackNames, isArchived, selected, selectedNames]
+	)
+	const groups = useMemo(() => groupByCategory(visibleNames, settings), [visibleNames, settings])
+	const grouped = groups.some(group => group.category !== null)
+
+	// Without an explicit choice the group of the current selection is open
+	const selectedGroup = selectedCategory ?? (selected !== 'All' ? settings[selected]?.category ?? UNCATEGORIZED : null)
+	const activeGroup = openGroup ?? selectedGroup
+
+	const chipClassName = (active: boolean): string => `px-3 py-2 sm:px-4 sm:py-2 rounded-lg font-medium text-xs sm:text-sm transition-colors whitespace-nowrap ${
+		active
+			? 'bg-blue-600 text-white'
+			: 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+	}`
+
+	const renderTypeChip = (name: string): ReactElement => (
+		<button
+			key={name}
+			onClick={() => onSelect(name)}
+			className={`${chipClassName(isSelected(name))} inline-flex items-center gap-2 ${isArchived(name) ? 'opacity-60' : ''}`}
+		>
+			<span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: getTrackColor(name) }} />
+			{`${getTrackIcon(name)} ${getTranslatedName(name)}`.trim()}
+		</button>
+	)
+
+	const allChip = selectedNames === undefined && (
+		<button onClick={() => onSelect('All')} className={chipClassName(selected === 'All' && selectedCategory === null)}>
+			{'All'}
+		</button>
+	)
+
+	const archivedToggle = archivedCount > 0 && (
+		<button
+			onClick={() => setShowArchived(!showArchived)}
+			className="px-3 py-2 rounded-lg text-xs sm:text-sm text-gray-400 hover:text-gray-200 transition-colors whitespace-nowrap"
+		>
+			{showArchived ? 'Hide archived' : `Archived (${archivedCount})`}
+		</button>
+	)
+
+	if (!grouped) {
+		return (
+			<div className={className}>
+				{allChip}
+				{visibleNames.map(renderTypeChip)}
+				{archivedToggle}
+			</div>
+		)
+	}
+
+	const openTypes = groups.find(group => (group.category ?? UNCATEGORIZED) === activeGroup)?.trackNames ?? []
+
+	return (
+		<div className="space-y-2">
+			<div className={className}>
+				{allChip}
+				{groups.map(({ category, trackNames: names }) => {
+					const key = category ?? UNCATEGORIZED
+					const categorySelected = category !== null && selectedCategory === category
+					return (
+						<button
+							key={key}
+							onClick={() => {
+								setOpenGroup(key)
+								// The uncategorised group only opens, it is not a category of its own
+								if (category !== null && onSelectCategory !== undefined) {
+									onSelectCategory(category)
+								}
+							}}
+							className={`${chipClassName(categorySelected)} ${activeGroup === key && !categorySelected ? 'ring-1 ring-blue-500' : ''}`}
+						>
+							{`${category ?? 'Other'} (${names.length})`}
+						</button>
+					)
+				})}
+				{archivedToggle}
+			</div>
+			{openTypes.length > 0 && (
+				<div className={`${className} pl-3 border-l-2 border-gray-700`}>
+					{openTypes.map(renderTypeChip)}
+				</div>
+			)}
+		</div>
+	)
+}
@@ -1,9 +1,11 @@
 'use client'
 
+import { isAxiosError } from 'axios'
 import React, { type ReactNode, useCallback, useState } from 'react'
 
 import ErrorWindow from '@/components/ui/ErrorWindow'
 import { ErrorContext, type ErrorInfo } from '@/contexts/ErrorContext/ErrorContext'
+import { ApiError, normalizeApiError } from '@/utils/api'
 
 interface ErrorProviderProps {
 	children: ReactNode
@@ -13,9 +15,14 @@ const ErrorProvider: React.FC<ErrorProviderProps> = ({ children }) => {
 	const [errors, setErrors] = useState<ErrorInfo[]>([])
 
 	const addError = useCallback((error: unknown) => {
+		const normalized = isAxiosError(error) ? normalizeApiError(error) : error
+		// Cancelled requests are intentional and a 401 is already redirecting to sign in
+		if (normalized instanceof ApiError && (normalized.kind === 'cancelled' || normalized.kind === 'unauthorized')) {
+			return
+		}
 		setErrors(prevErrors => [...prevErrors, {
 			id: Date.now(),
-			error
+			error: normalized
 		}])
 	}, [])
 
@@ -0,0 +1,107 @@
+import { createContext, useContext, useMemo } from 'react'
+
+import type { Track } from '@/types/Track'
+import type { TrackChanges } from '@/utils/api'
+import type { JournalEntry } from '@/utils/journal'
+import type { SyncConflict } from '@/utils/outbox'
+
+export type TrackStoreStatus = 'loading' | 'ready' | 'error'
+
+export interface TrackUpdate {
+	trackId: string
+	changes: TrackChanges
+}
+
+export interface BatchResult {
+	succeeded: string[]
+	failed: string[]
+	// Journal entry recording the batch, null when nothing went through
+	journalId: string | null
+}
+
+export interface UndoResult {
+	restored: number
+	failed: number
+}
+
+export interface TrackStore {
+	// Every track of the user, newest first
+	tracks: Track[]
+	status: TrackStoreStatus
+	revalidating: boolean
+	lastSyncedAt: number | null
+	online: boolean
+	// Replaying the offline outbox against the API
+	syncing: boolean
+	// Offline changes still waiting in the outbox
+	pendingChanges: number
+	conflicts: SyncConflict[]
+	// false once the server turned down an edit as an unknown endpoint, editing stays hidden until the page is reloaded
+	editingSupported: boolean
+	revalidate: () => Promise<void>
+	// Resolves to the number of changes still queued afterwards
+	syncNow: () => Promise<number>
+	dismissConflict: (entryId: string) => void
+	// queued counts dates saved to the outbox because the server could not be reached
+	importTracks: (trackName: string, dates: string[]) => Promise<{ created: number, queued: number }>
+	deleteTrack: (trackId: string) => Promise<void>
+	updateTrack: (trackId: string, changes: TrackChanges) => Promise<void>
+	deleteTracks: (trackIds: string[]) => Promise<BatchResult>
+	updateTracks: (updates: TrackUpdate[]) => Promise<BatchResult>
+	// journalId is the entry that undoes the rename
+	renameTrackType: (oldName: string, newName: string) => Promise<{ modifiedCount: number, journalId: string | null }>
+	// Recent deletes, renames and edits, newest first
+	journal: JournalEntry[]
+	undoJournalEntry: (entryId: string) => Promise<UndoResult>
+	// Drops the cached tracks, outbox and journal kept on this device, for logging out
+	clearLocalData: () => Promise<void>
+}
+
+const missingProvider = async (): Promise<never> => {
+	throw new Error('TrackProvider is missing')
+}
+
+export const TrackContext = createContext<TrackStore>({
+	tracks: [],
+	status: 'loading',
+	revalidating: false,
+	lastSyncedAt: null,
+	online: true,
+	syncing: false,
+	pendingChanges: 0,
+	conflicts: [],
+	editingSupported: true,
+	revalidate: missingProvider,
+	syncNow: missingProvider,
+	dismissConflict: missingProvider,
+	importTracks: missingProvider,
+	deleteTrack: missingProvider,
+	updateTrack: missingProvider,
+	deleteTracks: missingProvider,
+	updateTracks: missingProvider,
+	renameTrackType: missingProvider,
+	journal: [],
+	undoJournalEntry: missingProvider,
+	clearLocalData: missingProvider
+})
+
+export const PENDING_TRACK_PREFIX = 'pending-'
+
+// Optimistically added or offline queued tracks that the server has not assigned an ID to yet
+export const isPendingTrack = (track: Track): boolean => track._id.startsWith(PENDING_TRACK_PREFIX)
+
+export const useTrackStore = (): TrackStore => useContext(TrackContext)
+
+export function useTracks ({ trackName }: { trackName?: string } = {}): { tracks: Track[], loading: boolean, revalidating: boolean } {
+	const { tracks, status, revalidating } = useTrackStore()
+	const filtered = useMemo(
+		() => trackName === undefined ? tracks : tracks.filter(t => t.trackName === trackName),
+		[tracks, trackName]
+	)
+	return { tracks: filtered, loading: status === 'loading', revalidating }
+}
+
+export function useTrackNames (): string[] {
+	const { tracks } = useTrackStore()
+	return useMemo(() => [...new Set(tracks.map(t => t.trackName))].sort(), [tracks])
+}
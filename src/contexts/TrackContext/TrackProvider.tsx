@@ -0,0 +1,688 @@
+'use client'
+
+import React, { type ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+
+import { useError } from '@/contexts/ErrorContext/ErrorContext'
+import {
+	type BatchResult,
+	isPendingTrack,
+	PENDING_TRACK_PREFIX,
+	TrackContext,
+	type TrackStoreStatus,
+	type TrackUpdate,
+	type UndoResult
+} from '@/contexts/TrackContext/TrackContext'
+import type { Track } from '@/types/Track'
+import {
+	ApiError,
+	bulkRenameTracks,
+	deleteTrack as deleteTrackRequest,
+	getCurrentUser,
+	importTracks as importTracksRequest,
+	isUnsupportedEndpoint,
+	listTracks,
+	type TrackChanges,
+	updateTrack as updateTrackRequest
+} from '@/utils/api'
+import {
+	appendToJournal,
+	clearJournal,
+	createJournalEntry,
+	type JournalEntry,
+	type JournalOperation,
+	loadJournal,
+	saveJournal
+} from '@/utils/journal'
+import {
+	clearOutbox,
+	enqueue,
+	loadOutbox,
+	type OutboxEntry,
+	type OutboxOperation,
+	removeEntry,
+	replayEntry,
+	type SyncConflict,
+	updateEntry
+} from '@/utils/outbox'
+import { clearServiceWorkerData, isBrowserOnline } from '@/utils/serviceWorker'
+import { clearCachedTracks, loadCachedTracks, saveCachedTracks } from '@/utils/trackCache'
+
+// Returning to the tab refetches only when the data is older than this
+const REVALIDATE_AFTER_MS = 60 * 1000
+// How often a non-empty outbox is retried while the browser reports a connection
+const RETRY_SYNC_MS = 30 * 1000
+// Parallel requests per bulk operation, enough to be quick without flooding the API
+const BATCH_CONCURRENCY = 4
+
+// Keeps placeholder IDs unique when several imports are queued within the same millisecond
+let pendingSequence = 0
+
+interface TrackProviderProps {
+	children: ReactNode
+}
+
+function sortTracks (tracks: Track[]): Track[] {
+	// Invalid dates sort last so they do not scatter through the list
+	const time = (track: Track): number => {
+		const value = new Date(track.date).getTime()
+		return isNaN(value) ? -Infinity : value
+	}
+	return [...tracks].sort((a, b) => time(b) - time(a))
+}
+
+function sameTracks (a: Track[], b: Track[]): boolean {
+	return a.length === b.length && a.every((track, index) =>
+		track._id === b[index]._id && track.date === b[index].date && track.trackName === b[index].trackName)
+}
+
+// Layers the queued offline changes over a server copy of the tracks
+function applyOutbox (serverTracks: Track[], entries: OutboxEntry[]): Track[] {
+	const deleted = new Set<string>()
+	const pending: Track[] = []
+	for (const { queuedAt, operation } of entries) {
+		if (operation.type === 'delete') {
+			deleted.add(operation.trackId)
+		} else {
+			const queuedDate = new Date(queuedAt).toISOString()
+			operation.dates.forEach((date, index) => pending.push({
+				_id: operation.pendingIds[index],
+				trackName: operation.trackName,
+				date,
+				userId: '',
+				createdAt: queuedDate,
+				updatedAt: queuedDate
+			}))
+		}
+	}
+	return sortTracks([...serverTracks.filter(t => !deleted.has(t._id)), ...pending])
+}
+
+// Only requests that never got an answer are queued, everything else still fails for the caller
+function isOffline (error: unknown): boolean {
+	return !isBrowserOnline() || (error instanceof ApiError && error.kind === 'network')
+}
+
+async function settleWithConcurrency<T, R> (items: T[], worker: (item: T) => Promise<R>): Promise<Array<PromiseSettledResult<R>>> {
+	const results: Array<PromiseSettledResult<R>> = new Array(items.length)
+	let next = 0
+	const run = async (): Promise<void> => {
+		while (next < items.length) {
+			const index = next++
+			try {
+				results[index] = { status: 'fulfilled', value: await worker(items[index]) }
+			} catch (reason) {
+				results[index] = { status: 'rejected', reason }
+			}
+		}
+	}
+	await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, items.length) }, run))
+	return results
+}
+
+const TrackProvider: React.FC<TrackProviderProps> = ({ children }) => {
+	const { addError } = useError()
+	const [tracks, setTracks] = useState<Track[]>([])
+	const [status, setStatus] = useState<TrackStoreStatus>('loading')
+	const [revalidating, setRevalidating] = useState(false)
+	const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null)
+	const [online, setOnline] = useState(true)
+	const [syncing, setSyncing] = useState(false)
+	const [outbox, setOutbox] = useState<OutboxEntry[]>([])
+	const [conflicts, setConflicts] = useState<SyncConflict[]>([])
+	const [editingSupported, setEditingSupported] = useState(true)
+	const [journal, setJournal] = useState<JournalEntry[]>([])
+
+	// Mirrors the state so mutations can compute rollbacks without stale closures
+	const tracksRef = useRef<Track[]>([])
+	const outboxRef = useRef<OutboxEntry[]>([])
+	const journalRef = useRef<JournalEntry[]>([])
+	// Bumped by every mutation and again when its request settles; a fetch that overlapped a mutation must not overwrite it
+	const mutationVersion = useRef(0)
+	// Mutation requests still waiting for the server, revalidating waits for them before it fetches
+	const activeMutations = useRef(0)
+	const mutationsSettled = useRef<Array<() => void>>([])
+	const inFlight = useRef<Promise<void> | null>(null)
+	const syncInFlight = useRef<Promise<void> | null>(null)
+	const lastSyncedRef = useRef<number | null>(null)
+	// Account the cache, outbox and journal on this device are read and written for, null until it is known
+	const userIdRef = useRef<string | null>(null)
+
+	const commit = useCallback((next: Track[]) => {
+		tracksRef.current = next
+		setTracks(next)
+		if (userIdRef.current !== null) {
+			saveCachedTracks(userIdRef.current, next).catch(console.error)
+		}
+	}, [])
+
+	const setOutboxEntries = useCallback((next: OutboxEntry[]) => {
+		outboxRef.current = next
+		setOutbox(next)
+	}, [])
+
+	const setJournalEntries = useCallback((next: JournalEntry[]) => {
+		journalRef.current = next
+		setJournal(next)
+		if (userIdRef.current !== null) {
+			saveJournal(userIdRef.current, next).catch(console.error)
+		}
+	}, [])
+
+	const record = useCallback((operation: JournalOperation): string => {
+		const entry = createJournalEntry(operation)
+		setJournalEntries(appendToJournal(journalRef.current, entry))
+		return entry.id
+	}, [setJournalEntries])
+
+	const sendMutation = useCallback(async <T,>(request: () => Promise<T>): Promise<T> => {
+		activeMutations.current++
+		try {
+			return await request()
+		} finally {
+			activeMutations.current--
+			mutationVersion.current++
+			if (activeMutations.current === 0) {
+				mutationsSettled.current.splice(0).forEach(resolve => resolve())
+			}
+		}
+	}, [])
+
+	const waitForMutations = useCallback(async (): Promise<void> => {
+		if (activeMutations.current === 0) { return }
+		await new Promise<void>(resolve => mutationsSettled.current.push(resolve))
+	}, [])
+
+	const revalidate = useCallback(async (): Promise<void> => {
+		if (inFlight.current !== null) { return await inFlight.current }
+
+		const run = async (): Promise<void> => {
+			setRevalidating(true)
+			try {
+				let version: number
+				let fresh: Track[]
+				do {
+					// A list fetched while a delete or rename is in flight may still show the tracks before it
+					await waitForMutations()
+					version = mutationVersion.current
+					fresh = await listTracks()
+				} while (version !== mutationVersion.current || activeMutations.current > 0)
+				const next = applyOutbox(fresh, outboxRef.current)
+				if (!sameTracks(next, tracksRef.current)) {
+					commit(next)
+				}
+				setStatus('ready')
+				lastSyncedRef.current = Date.now()
+				setLastSyncedAt(lastSyncedRef.current)
+			} catch (error) {
+				console.error('Failed to fetch tracks:', error)
+				// Being offline is shown by the sync status, the cached tracks stay usable
+				if (!isOffline(error)) {
+					addError(error)
+				}
+				setStatus(prev => prev === 'loading' ? 'error' : prev)
+			} finally {
+				setRevalidating(false)
+				inFlight.current = null
+			}
+		}
+
+		inFlight.current = run()
+		return await inFlight.current
+	}, [addError, commit, waitForMutations])
+
+	const syncNow = useCallback(async (): Promise<number> => {
+		if (syncInFlight.current !== null) {
+			await syncInFlight.current
+			return outboxRef.current.length
+		}
+		if (outboxRef.current.length === 0 || !isBrowserOnline()) { return outboxRef.current.length }
+
+		const run = async (): Promise<void> => {
+			setSyncing(true)
+			let replayed = false
+			try {
+				// Entries are replayed in the order they were queued, stopping at the first one that cannot be sent yet
+				while (outboxRef.current.length > 0) {
+					const entry = outboxRef.current[0]
+					let conflict: SyncConflict | null
+					try {
+						conflict = await sendMutation(async () => await replayEntry(entry))
+					} catch (error) {
+						console.error('Failed to sync offline changes:', error)
+						break
+					}
+					replayed = true
+					setOutboxEntries(outboxRef.current.filter(e => e.id !== entry.id))
+					await removeEntry(entry.id).catch(console.error)
+					if (conflict !== null) {
+						setConflicts(prev => [...prev, conflict])
+					}
+				}
+			} finally {
+				setSyncing(false)
+				syncInFlight.current = null
+			}
+			if (replayed) {
+				await revalidate()
+			}
+		}
+
+		syncInFlight.current = run()
+		await syncInFlight.current
+		return outboxRef.current.length
+	}, [revalidate, sendMutation, setOutboxEntries])
+
+	const queue = useCallback(async (operation: OutboxOperation): Promise<void> => {
+		if (userIdRef.current === null) {
+			throw new Error('Offline changes cannot be saved before your account has loaded')
+		}
+		const entry = await enqueue(userIdRef.current, operation)
+		setOutboxEntries([...outboxRef.current, entry])
+	}, [setOutboxEntries])
+
+	useEffect(() => {
+		let cancelled = false
+
+		const load = async (): Promise<void> => {
+			let userId: string
+			try {
+				// Answered from the service worker cache while offline
+				userId = (await getCurrentUser())._id
+			} catch (error) {
+				// Without knowing whose they are, nothing stored on this device is shown or replayed
+				console.error('Failed to load the current user:', error)
+				await revalidate()
+				return
+			}
+			if (cancelled) { return }
+			userIdRef.current = userId
+			const [cached, entries, journalEntries] = await Promise.all([loadCachedTracks(userId), loadOutbox(userId), loadJournal(userId)])
+			if (cancelled) { return }
+			setOutboxEntries(entries)
+			journalRef.current = journalEntries
+			setJournal(journalEntries)
+			// Show the cached copy straight away unless the network already answered
+			if (cached !== null && lastSyncedRef.current === null) {
+				tracksRef.current = applyOutbox(cached.tracks.filter(t => !isPendingTrack(t)), entries)
+				setTracks(tracksRef.current)
+				setStatus('ready')
+				setLastSyncedAt(cached.savedAt)
+			}
+			await syncNow()
+			await revalidate()
+		}
+
+		setOnline(isBrowserOnline())
+		load().catch(console.error)
+
+		const handleVisible = (): void => {
+			if (document.visibilityState !== 'visible') { return }
+			syncNow().catch(console.error)
+			if (lastSyncedRef.current === null || Date.now() - lastSyncedRef.current > REVALIDATE_AFTER_MS) {
+				revalidate().catch(console.error)
+			}
+		}
+		const handleOnline = (): void => {
+			setOnline(true)
+			syncNow().then(revalidate).catch(console.error)
+		}
+		const handleOffline = (): void => setOnline(false)
+
+		document.addEventListener('visibilitychange', handleVisible)
+		window.addEventListener('focus', handleVisible)
+		window.addEventListener('online', handleOnline)
+		window.addEventListener('offline', handleOffline)
+
+		return () => {
+			cancelled = true
+			document.removeEventListener('visibilitychange', handleVisible)
+			window.removeEventListener('focus', handleVisible)
+			window.removeEventListener('online', handleOnline)
+			window.removeEventListener('offline', handleOffline)
+		}
+	}, [revalidate, setOutboxEntries, syncNow])
+
+	useEffect(() => {
+		// navigator.onLine can report a connection that does not reach the API, so keep retrying
+		if (outbox.length === 0 || !online) { return }
+		const timer = window.setInterval(() => {
+			syncNow().catch(console.error)
+		}, RETRY_SYNC_MS)
+		return () => window.clearInterval(timer)
+	}, [outbox.length, online, syncNow])
+
+	const importTracks = useCallback(async (trackName: string, dates: string[]): Promise<{ created: number, queued: number }> => {
+		mutationVersion.current++
+		const now = new Date().toISOString()
+		pendingSequence = (pendingSequence + 1) % 1000000
+		const pending: Track[] = dates.map((date, index) => ({
+			_id: `${PENDING_TRACK_PREFIX}${Date.now()}-${pendingSequence}-${index}`,
+			trackName,
+			date,
+			userId: '',
+			createdAt: now,
+			updatedAt: now
+		}))
+		const pendingIds = new Set(pending.map(t => t._id))
+		commit(sortTracks([...tracksRef.current, ...pending]))
+
+		const queueImport = async (): Promise<{ created: number, queued: number }> => {
+			await queue({ type: 'import', trackName, dates, pendingIds: pending.map(t => t._id) })
+			return { created: 0, queued: dates.length }
+		}
+
+		if (!isBrowserOnline()) {
+			return await queueImport()
+		}
+
+		try {
+			const result = await sendMutation(async () => await importTracksRequest(trackName, dates))
+			// The server assigns IDs and may skip duplicates, so replace the placeholders with its copy
+			revalidate().catch(console.error)
+			return { ...result, queued: 0 }
+		} catch (error) {
+			if (isOffline(error)) {
+				return await queueImport()
+			}
+			commit(tracksRef.current.filter(t => !pendingIds.has(t._id)))
+			throw error
+		}
+	}, [commit, queue, revalidate, sendMutation])
+
+	const deleteTrack = useCallback(async (trackId: string): Promise<void> => {
+		mutationVersion.current++
+		const removed = tracksRef.current.find(t => t._id === trackId)
+		commit(tracksRef.current.filter(t => t._id !== trackId))
+
+		// A track that only exists in the outbox is dropped from its queued import instead
+		const queuedImport = outboxRef.current.find(e => e.operation.type === 'import' && e.operation.pendingIds.includes(trackId))
+		if (queuedImport !== undefined && queuedImport.operation.type === 'import') {
+			const index = queuedImport.operation.pendingIds.indexOf(trackId)
+			const operation = {
+				...queuedImport.operation,
+				dates: queuedImport.operation.dates.filter((_, i) => i !== index),
+				pendingIds: queuedImport.operation.pendingIds.filter((_, i) => i !== index)
+			}
+			if (operation.dates.length === 0) {
+				setOutboxEntries(outboxRef.current.filter(e => e.id !== queuedImport.id))
+				await removeEntry(queuedImport.id)
+			} else {
+				const updated = { ...queuedImport, operation }
+				setOutboxEntries(outboxRef.current.map(e => e.id === queuedImport.id ? updated : e))
+				await updateEntry(updated)
+			}
+			return
+		}
+
+		const queueDelete = async (): Promise<void> => {
+			await queue({ type: 'delete', trackId })
+		}
+
+		try {
+			if (isBrowserOnline()) {
+				await sendMutation(async () => await deleteTrackRequest(trackId))
+			} else {
+				await queueDelete()
+			}
+		} catch (error) {
+			if (!isOffline(error)) {
+				if (removed !== undefined) {
+					commit(sortTracks([...tracksRef.current, removed]))
+				}
+				throw error
+			}
+			await queueDelete()
+		}
+		if (removed !== undefined) {
+			record({ type: 'delete', tracks: [removed] })
+		}
+	}, [commit, queue, record, sendMutation, setOutboxEntries])
+
+	const updateTrack = useCallback(async (trackId: string, changes: TrackChanges): Promise<void> => {
+		mutationVersion.current++
+		const original = tracksRef.current.find(t => t._id === trackId)
+		if (original === undefined) { return }
+		commit(sortTracks(tracksRef.current.map(t => t._id === trackId ? { ...t, ...changes } : t)))
+
+		try {
+			const updated = await sendMutation(async () => await updateTrackRequest(trackId, changes))
+			commit(sortTracks(tracksRef.current.map(t => t._id === trackId ? updated : t)))
+		} catch (error) {
+			commit(sortTracks(tracksRef.current.map(t => t._id === trackId ? original : t)))
+			if (isUnsupportedEndpoint(error)) {
+				setEditingSupported(false)
+			}
+			throw error
+		}
+		record({ type: 'update', before: [original] })
+	}, [commit, record, sendMutation])
+
+	// Bulk versions commit once for the whole batch and report failures per track instead of throwing
+	const deleteTracks = useCallback(async (trackIds: string[]): Promise<BatchResult> => {
+		mutationVersion.current++
+		const ids = new Set(trackIds)
+		const removed = tracksRef.current.filter(t => ids.has(t._id))
+		commit(tracksRef.current.filter(t => !ids.has(t._id)))
+
+		if (!isBrowserOnline()) {
+			for (const track of removed) {
+				await queue({ type: 'delete', trackId: track._id })
+			}
+			return { succeeded: removed.map(t => t._id), failed: [], journalId: record({ type: 'delete', tracks: removed }) }
+		}
+
+		const results = await sendMutation(async () => await settleWithConcurrency(removed, async track => {
+			try {
+				await deleteTrackRequest(track._id)
+			} catch (error) {
+				if (!isOffline(error)) { throw error }
+				await queue({ type: 'delete', trackId: track._id })
+			}
+		}))
+		const failed = removed.filter((_, index) => results[index].status === 'rejected')
+		if (failed.length > 0) {
+			commit(sortTracks([...tracksRef.current, ...failed]))
+		}
+		const succeeded = removed.filter((_, index) => results[index].status === 'fulfilled')
+		return {
+			succeeded: succeeded.map(t => t._id),
+			failed: failed.map(t => t._id),
+			journalId: succeeded.length > 0 ? record({ type: 'delete', tracks: succeeded }) : null
+		}
+	}, [commit, queue, record, sendMutation])
+
+	// Undoing goes through here too, without adding the reversal to the journal
+	const applyUpdates = useCallback(async (updates: TrackUpdate[], journaled: boolean): Promise<BatchResult> => {
+		mutationVersion.current++
+		const changesById = new Map(updates.map(u => [u.trackId, u.changes]))
+		const originals = tracksRef.current.filter(t => changesById.has(t._id))
+		commit(sortTracks(tracksRef.current.map(t => {
+			const changes = changesById.get(t._id)
+			return changes !== undefined ? { ...t, ...changes } : t
+		})))
+
+		const results = await sendMutation(async () =>
+			await settleWithConcurrency(originals, async track => await updateTrackRequest(track._id, changesById.get(track._id) ?? {})))
+		const replacements = new Map<string, Track>()
+		results.forEach((result, index) => {
+			// Failed tracks go back to how they were, the rest take the server's copy
+			replacements.set(originals[index]._id, result.status === 'fulfilled' ? result.value : originals[index])
+		})
+		commit(sortTracks(tracksRef.current.map(t => replacements.get(t._id) ?? t)))
+		if (results.some(result => result.status === 'rejected' && isUnsupportedEndpoint(result.reason))) {
+			setEditingSupported(false)
+		}
+		const succeeded = originals.filter((_, index) => results[index].status === 'fulfilled')
+		return {
+			succeeded: succeeded.map(t => t._id),
+			// Tracks that no longer exist are skipped rather than failed, there is nothing left to update
+			failed: originals.filter((_, index) => results[index].status === 'rejected').map(t => t._id),
+			journalId: journaled && succeeded.length > 0 ? record({ type: 'update', before: succeeded }) : null
+		}
+	}, [commit, record, sendMutation])
+
+	const updateTracks = useCallback(async (updates: TrackUpdate[]): Promise<BatchResult> => {
+		return await applyUpdates(updates, true)
+	}, [applyUpdates])
+
+	const renameType = useCallback(async (oldName: string, newName: string, journaled: boolean): Promise<{ modifiedCount: number, journalId: string | null }> => {
+		mutationVersion.current++
+		const renamedIds = new Set(tracksRef.current.filter(t => t.trackName === oldName).map(t => t._id))
+		const merged = tracksRef.current.some(t => t.trackName === newName)
+		commit(tracksRef.current.map(t => renamedIds.has(t._id) ? { ...t, trackName: newName } : t))
+
+		let result: { modifiedCount: number }
+		try {
+			result = await sendMutation(async () => await bulkRenameTracks(oldName, newName))
+		} catch (error) {
+			commit(tracksRef.current.map(t => renamedIds.has(t._id) ? { ...t, trackName: oldName } : t))
+			throw error
+		}
+
+		// Offline imports of the old type would otherwise bring it back when they are replayed
+		const renamedEntries = outboxRef.current.map(entry => entry.operation.type === 'import' && entry.operation.trackName === oldName
+			? { ...entry, operation: { ...entry.operation, trackName: newName } }
+			: entry)
+		setOutboxEntries(renamedEntries)
+		await Promise.all(renamedEntries.filter(e => e.operation.type === 'import' && e.operation.trackName === newName).map(updateEntry))
+
+		if (!journaled) {
+			return { ...result, journalId: null }
+		}
+		// Queued tracks have no server ID yet, the outbox rewrite above already covers them
+		const trackIds = [...renamedIds].filter(id => !id.startsWith(PENDING_TRACK_PREFIX))
+		return { ...result, journalId: record({ type: 'rename', oldName, newName, trackIds, merged }) }
+	}, [commit, record, sendMutation, setOutboxEntries])
+
+	const renameTrackType = useCallback(async (oldName: string, newName: string): Promise<{ modifiedCount: number, journalId: string | null }> => {
+		return await renameType(oldName, newName, true)
+	}, [renameType])
+
+	const undoJournalEntry = useCallback(async (entryId: string): Promise<UndoResult> => {
+		const entry = journalRef.current.find(e => e.id === entryId)
+		if (entry === undefined) { return { restored: 0, failed: 0 } }
+		const { operation } = entry
+		let result: UndoResult
+		// What could not be put back, kept in the entry so that undoing can be retried
+		let remaining: JournalOperation
+
+		if (operation.type === 'delete') {
+			// Deleted tracks come back through the import endpoint, so they get new IDs
+			const byName = new Map<string, Track[]>()
+			operation.tracks.forEach(t => byName.set(t.trackName, [...(byName.get(t.trackName) ?? []), t]))
+			result = { restored: 0, failed: 0 }
+			const unrestored: Track[] = []
+			for (const [trackName, typeTracks] of byName) {
+				try {
+					await importTracks(trackName, typeTracks.map(t => t.date))
+					result.restored += typeTracks.length
+				} catch (error) {
+					console.error(`Failed to restore ${trackName}:`, error)
+					result.failed += typeTracks.length
+					unrestored.push(...typeTracks)
+				}
+			}
+			remaining = { ...operation, tracks: unrestored }
+		} else if (operation.type === 'rename') {
+			const { oldName, newName, trackIds } = operation
+			const known = new Set(trackIds)
+			const current = tracksRef.current.filter(t => t.trackName === newName)
+			const oldNameTaken = tracksRef.current.some(t => t.trackName === oldName)
+			if (!operation.merged && !oldNameTaken && current.every(t => known.has(t._id))) {
+				// Nothing else has joined either type since, so one bulk rename puts it back
+				const { modifiedCount } = await renameType(newName, oldName, false)
+				result = { restored: modifiedCount, failed: 0 }
+				remaining = { ...operation, trackIds: [] }
+			} else {
+				const batch = await applyUpdates(
+					current.filter(t => known.has(t._id)).map(t => ({ trackId: t._id, changes: { trackName: oldName } })),
+					false
+				)
+				// Tracks deleted or renamed again since are left out, only requests that failed are kept to retry
+				result = { restored: batch.succeeded.length, failed: batch.failed.length }
+				remaining = { ...operation, trackIds: batch.failed }
+			}
+		} else {
+			const batch = await applyUpdates(
+				operation.before.map(t => ({ trackId: t._id, changes: { trackName: t.trackName, date: t.date } })),
+				false
+			)
+			const failed = new Set(batch.failed)
+			result = { restored: batch.succeeded.length, failed: batch.failed.length }
+			remaining = { ...operation, before: operation.before.filter(t => failed.has(t._id)) }
+		}
+
+		if (result.failed === 0) {
+			setJournalEntries(journalRef.current.filter(e => e.id !== entryId))
+		} else if (result.restored > 0) {
+			setJournalEntries(journalRef.current.map(e => e.id === entryId ? { ...e, operation: remaining } : e))
+		}
+		return result
+	}, [applyUpdates, importTracks, renameType, setJournalEntries])
+
+	const clearLocalData = useCallback(async (): Promise<void> => {
+		const userId = userIdRef.current
+		await Promise.all([
+			clearServiceWorkerData(),
+			...(userId !== null ? [clearCachedTracks(userId), clearOutbox(userId), clearJournal(userId)] : [])
+		])
+	}, [])
+
+	const dismissConflict = useCallback((entryId: string) => {
+		setConflicts(prev => prev.filter(c => c.entryId !== entryId))
+	}, [])
+
+	const value = useMemo(() => ({
+		tracks,
+		status,
+		revalidating,
+		lastSyncedAt,
+		online,
+		syncing,
+		pendingChanges: outbox.length,
+		conflicts,
+		editingSupported,
+		revalidate,
+		syncNow,
+		dismissConflict,
+		importTracks,
+		deleteTrack,
+		updateTrack,
+		deleteTracks,
+		updateTracks,
+		renameTrackType,
+		journal,
+		undoJournalEntry,
+		clearLocalData
+	}), [
+		tracks,
+		status,
+		revalidating,
+		lastSyncedAt,
+		online,
+		syncing,
+		outbox.length,
+		conflicts,
+		editingSupported,
+		revalidate,
+		syncNow,
+		dismissConflict,
+		importTracks,
+		deleteTrack,
+		updateTrack,
+		deleteTracks,
+		updateTracks,
+		renameTrackType,
+		journal,
+		undoJournalEntry,
+		clearLocalData
+	])
+
+	return (
+		<TrackContext.Provider value={value}>
+			{children}
+		</TrackContext.Provider>
+	)
+}
+
+export default TrackProvider
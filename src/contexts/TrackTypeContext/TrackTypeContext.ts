@@ -0,0 +1,47 @@
+import { createContext, useContext } from 'react'
+
+import type { TrackTypeSettings } from '@/types/TrackType'
+import { getDefaultTrackColor } from '@/utils/trackTypes'
+
+export interface TrackTypeStore {
+	// Display names keyed by the stored track name
+	translations: Record<string, string>
+	settings: Record<string, TrackTypeSettings>
+	loading: boolean
+	getTranslatedName: (trackName: string) => string
+	// The chosen colour, or a stable one derived from the name
+	getTrackColor: (trackName: string) => string
+	// '' when no icon was chosen
+	getTrackIcon: (trackName: string) => string
+	isArchived: (trackName: string) => boolean
+	// Hour at which a day begins for every day-based chart, tracks before it count towards the previous day
+	dayStartHour: number
+	// Both replace the whole map, the change shows straight away and is rolled back if saving fails
+	saveTranslations: (translations: Record<string, string>) => Promise<void>
+	saveSettings: (settings: Record<string, TrackTypeSettings>) => Promise<void>
+	// Carries the display name and settings of a renamed type over to the new name
+	renameTrackTypeEntries: (oldName: string, newName: string) => Promise<void>
+	// Shows straight away and is rolled back if saving fails, like the maps above
+	saveDayStartHour: (dayStartHour: number) => Promise<void>
+}
+
+const missingProvider = async (): Promise<never> => {
+	throw new Error('TrackTypeProvider is missing')
+}
+
+export const TrackTypeContext = createContext<TrackTypeStore>({
+	translations: {},
+	settings: {},
+	loading: true,
+	getTranslatedName: trackName => trackName,
+	getTrackColor: getDefaultTrackColor,
+	getTrackIcon: () => '',
+	isArchived: () => false,
+	dayStartHour: 0,
+	saveTranslations: missingProvider,
+	saveSettings: missingProvider,
+	renameTrackTypeEntries: missingProvider,
+	saveDayStartHour: missingProvider
+})
+
+export const useTrackTypes = (): TrackTypeStore => useContext(TrackTypeContext)
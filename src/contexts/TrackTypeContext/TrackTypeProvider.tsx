@@ -0,0 +1,168 @@
+'use client'
+
+import React, { type ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+
+import { useError } from '@/contexts/ErrorContext/ErrorContext'
+import { TrackTypeContext } from '@/contexts/TrackTypeContext/TrackTypeContext'
+import type { TrackTypeSettings } from '@/types/TrackType'
+import { getCurrentUser, isCancelledRequest, updateDayStartHour, updateTrackNameTranslations, updateTrackTypeSettings } from '@/utils/api'
+import { cleanTrackTypeSettings, getDefaultTrackColor, moveTrackTypeEntry } from '@/utils/trackTypes'
+
+interface TrackTypeProviderProps {
+	children: ReactNode
+}
+
+// Where the day start is kept on this device while the backend cannot store it on the user
+const DAY_START_STORAGE_KEY = 'dayStartHour'
+
+function readStoredDayStartHour (): number | null {
+	try {
+		// eslint-disable-next-line n/no-unsupported-features/node-builtins
+		const stored = window.localStorage.getItem(DAY_START_STORAGE_KEY)
+		const hour = stored !== null ? Number(stored) : NaN
+		return Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : null
+	} catch {
+		return null
+	}
+}
+
+function storeDayStartHour (hour: number): void {
+	try {
+		// eslint-disable-next-line n/no-unsupported-features/node-builtins
+		window.localStorage.setItem(DAY_START_STORAGE_KEY, String(hour))
+	} catch (error) {
+		// Storage can be disabled, the hour then only lasts until the page is reloaded
+		console.error('Failed to store day start:', error)
+	}
+}
+
+// Loads the display names, type settings and day start once for every tab instead of each tab fetching the user
+const TrackTypeProvider: React.FC<TrackTypeProviderProps> = ({ children }) => {
+	const [translations, setTranslations] = useState<Record<string, string>>({})
+	const [settings, setSettings] = useState<Record<string, TrackTypeSettings>>({})
+	const [dayStartHour, setDayStartHour] = useState(0)
+	const [loading, setLoading] = useState(true)
+	// Saves read the latest maps from refs so quick successive edits build on each other
+	const translationsRef = useRef(translations)
+	const settingsRef = useRef(settings)
+	const dayStartHourRef = useRef(dayStartHour)
+	const { addError } = useError()
+
+	useEffect(() => {
+		const controller = new AbortController()
+		const fetchUser = async (): Promise<void> => {
+			try {
+				const user = await getCurrentUser({ signal: controller.signal })
+				translationsRef.current = user.trackNameTranslations ?? {}
+				settingsRef.current = user.trackTypeSettings ?? {}
+				setTranslations(translationsRef.current)
+				setSettings(settingsRef.current)
+				dayStartHourRef.current = user.dayStartHour ?? readStoredDayStartHour() ?? 0
+				setDayStartHour(dayStartHourRef.current)
+			} catch (error) {
+				if (isCancelledRequest(error)) { return }
+				console.error('Failed to fetch user:', error)
+				addError(error)
+			} finally {
+				if (!controller.signal.aborted) {
+					setLoading(false)
+				}
+			}
+		}
+		fetchUser().catch(console.error)
+		return () => controller.abort()
+	}, [addError])
+
+	const saveTranslations = useCallback(async (next: Record<string, string>): Promise<void> => {
+		const previous = translationsRef.current
+		translationsRef.current = next
+		setTranslations(next)
+		try {
+			await updateTrackNameTranslations(next)
+		} catch (error) {
+			translationsRef.current = previous
+			setTranslations(previous)
+			throw error
+		}
+	}, [])
+
+	const saveSettings = useCallback(async (next: Record<string, TrackTypeSettings>): Promise<void> => {
+		const cleaned = cleanTrackTypeSettings(next)
+		const previous = settingsRef.current
+		settingsRef.current = cleaned
+		setSettings(cleaned)
+		try {
+			await updateTrackTypeSettings(cleaned)
+		} catch (error) {
+			settingsRef.current = previous
+			setSettings(previous)
+			throw error
+		}
+	}, [])
+
+	const saveDayStartHour = useCallback(async (next: number): Promise<void> => {
+		const previous = dayStartHourRef.current
+		dayStartHourRef.current = next
+		setDayStartHour(next)
+		try {
+			const savedOnUser = await updateDayStartHour(next)
+			if (!savedOnUser) {
+				storeDayStartHour(next)
+			}
+		} catch (error) {
+			dayStartHourRef.current = previous
+			setDayStartHour(previous)
+			throw error
+		}
+	}, [])
+
+	const renameTrackTypeEntries = useCallback(async (oldName: string, newName: string): Promise<void> => {
+		const nextTranslations = moveTrackTypeEntry(translationsRef.current, oldName, newName)
+		const nextSettings = moveTrackTypeEntry(settingsRef.current, oldName, newName)
+		await Promise.all([
+			nextTranslations !== null ? saveTranslations(nextTranslations) : null,
+			nextSettings !== null ? saveSettings(nextSettings) : null
+		])
+	}, [saveTranslations, saveSettings])
+
+	const getTranslatedName = useCallback((trackName: string): string => translations[trackName] ?? trackName, [translations])
+	const getTrackColor = useCallback((trackName: string): string => settings[trackName]?.color ?? getDefaultTrackColor(trackName), [settings])
+	const getTrackIcon = useCallback((trackName: string): string => settings[trackName]?.icon ?? '', [settings])
+	const isArchived = useCallback((trackName: string): boolean => settings[trackName]?.archived === true, [settings])
+
+	const value = useMemo(() => ({
+		translations,
+		settings,
+		loading,
+		getTranslatedName,
+		getTrackColor,
+		getTrackIcon,
+		isArchived,
+		dayStartHour,
+		saveTranslations,
+		saveSettings,
+		renameTrackTypeEntries,
+		saveDayStartHour
+	}), [
+		translations,
+		settings,
+		loading,
+		getTranslatedName,
+		getTrackColor,
+		getTrackIcon,
+		isArchived,
+		dayStartHour,
+		saveTranslations,
+		saveSettings,
+		renameTrackTypeEntries,
+		saveDayStartHour
+	])
+
+	return (
+		<TrackTypeContext.Provider value={value}>
+			{children}
+		</TrackTypeContext.Provider>
+	)
+}
+
+export default TrackTypeProvider
@@ -0,0 +1,103 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+
+import type { Track } from '@/types/Track'
+import { countTracks, isCancelledRequest, listTrackNames, listTracks } from '@/utils/api'
+
+interface ServerTrackPageOptions {
+	// '' for every type
+	trackName: string
+	// Field name, prefixed with '-' for descending order
+	sort: string
+	page: number
+	pageSize: number
+	enabled: boolean
+	// The shared store, each change refetches the page and once loaded it overrides the server's rows
+	storeTracks: Track[]
+	storeReady: boolean
+}
+
+export interface ServerTrackPage {
+	// null while the page is loading
+	tracks: Track[] | null
+	totalCount: number
+	// false when the backend lacks the count endpoint or the page could not be fetched, the caller then pages the shared store
+	available: boolean
+}
+
+interface LoadedPage {
+	key: string
+	tracks: Track[]
+	totalCount: number
+}
+
+// One page of tracks with its total straight from the server, so the table does not wait for the full download
+export function useServerTrackPage ({ trackName, sort, page, pageSize, enabled, storeTracks, storeReady }: ServerTrackPageOptions): ServerTrackPage {
+	const [supported, setSupported] = useState(true)
+	const [loaded, setLoaded] = useState<LoadedPage | null>(null)
+	const [failedKey, setFailedKey] = useState<string | null>(null)
+	const key = JSON.stringify([trackName, sort, page, pageSize])
+
+	useEffect(() => {
+		if (!enabled || !supported) { return }
+		const controller = new AbortController()
+		const load = async (): Promise<void> => {
+			const params = { trackName: trackName === '' ? undefined : trackName }
+			const [totalCount, tracks] = await Promise.all([
+				countTracks(params, { signal: controller.signal }),
+				listTracks({ ...params, sort, limit: pageSize, skip: (page - 1) * pageSize }, { signal: controller.signal })
+			])
+			if (totalCount === null) {
+				setSupported(false)
+				return
+			}
+			setLoaded({ key, tracks, totalCount })
+			setFailedKey(null)
+		}
+		load().catch((error: unknown) => {
+			if (isCancelledRequest(error)) { return }
+			// Not worth an error banner, the shared store reports its own failures
+			console.error('Failed to fetch track page:', error)
+			setFailedKey(key)
+		})
+		return () => controller.abort()
+	}, [enabled, supported, key, trackName, sort, page, pageSize, storeTracks])
+
+	const tracks = useMemo(() => {
+		if (loaded === null || loaded.key !== key) { return null }
+		if (!storeReady) { return loaded.tracks }
+		// Deletes and edits reach the store first, the next fetch then agrees with it
+		const latest = new Map(storeTracks.map(t => [t._id, t]))
+		return loaded.tracks.flatMap(track => {
+			const current = latest.get(track._id)
+			return current !== undefined && (trackName === '' || current.trackName === trackName) ? [current] : []
+		})
+	}, [loaded, key, storeReady, storeTracks, trackName])
+
+	return {
+		tracks,
+		totalCount: loaded !== null && tracks !== null ? loaded.totalCount - (loaded.tracks.length - tracks.length) : 0,
+		available: enabled && supported && failedKey !== key
+	}
+}
+
+// The type names while the full track list is still downloading, null on older backends
+export function useServerTrackNames (enabled: boolean): string[] | null {
+	const [trackNames, setTrackNames] = useState<string[] | null>(null)
+
+	useEffect(() => {
+		if (!enabled) { return }
+		const controller = new AbortController()
+		listTrackNames({ signal: controller.signal })
+			.then(setTrackNames)
+			.catch((error: unknown) => {
+				if (isCancelledRequest(error)) { return }
+				// Not worth an error banner, the names follow once the tracks have loaded
+				console.error('Failed to fetch track names:', error)
+			})
+		return () => controller.abort()
+	}, [enabled])
+
+	return enabled ? trackNames : null
+}
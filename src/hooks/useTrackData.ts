@@ -2,103 +2,120 @@ import { useMemo } from 'react'
 
 import type { CoverageStats } from '@/types/Insights'
 import type { ProcessedTrack, Track } from '@/types/Track'
+import { clipCoverageStats, computeCoverageStats } from '@/utils/continuous/coverageAnalysis'
+import {
+	getDateRangeBounds,
+	getDayKey,
+	getDayStart,
+	getDaysBetween,
+	getZonedDay,
+	shiftDayKey,
+	type DateRange
+} from '@/utils/dayKeys'
+import { DEFAULT_SMOOTHING, getPoissonBand, smooth, type SmoothingOptions } from '@/utils/smoothing'
 
 function isInGap (date: Date, coverage?: CoverageStats): boolean {
 	if (!coverage) { return false }
 	const gapPeriods = coverage.periods.filter(p => p.isGap)
-	return gapPeriods.some(period => {
-		const endExclusive = new Date(period.endDate.getTime() + 86400000)
-		return date >= period.startDate && date < endExclusive
-	})
+	return gapPeriods.some(period => date >= period.startDate && date < period.endDate)
 }
 
-export function useProcessedTracks (tracks: Track[], coverage?: CoverageStats): ProcessedTrack[] {
-	return useMemo(() => {
-		const sorted = [...tracks]
-			.filter(track => {
-				const date = new Date(track.date)
-				return !isNaN(date.getTime())
-			})
-			.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-
-		return sorted.map((track, index) => {
-			const dateObj = new Date(track.date)
-			const prevTrack = index > 0 ? sorted[index - 1] : null
-
-			// Don't calculate delta days if either track is in a gap or if crossing a gap boundary
-			let deltaDays: number | null = null
-			if (prevTrack && !isInGap(dateObj, coverage) && !isInGap(new Date(prevTrack.date), coverage)) {
-				const deltaMs = dateObj.getTime() - new Date(prevTrack.date).getTime()
-				const days = deltaMs / (1000 * 60 * 60 * 24)
-				// Also check if there's a gap period between the two tracks
-				if (coverage) {
-					const hasGapBetween = coverage.periods.some(period => {
-						if (!period.isGap) { return false }
-						const prevDate = new Date(prevTrack.date)
-						return period.startDate > prevDate && period.endDate < dateObj
-					})
-					if (!hasGapBetween) {
-						deltaDays = days
-					}
-				} else {
+function processTracks (tracks: Track[], timeZone: string, dayStartHour: number, coverage?: CoverageStats): ProcessedTrack[] {
+	const sorted = [...tracks]
+		.filter(track => {
+			const date = new Date(track.date)
+			return !isNaN(date.getTime())
+		})
+		.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+	return sorted.map((track, index) => {
+		const dateObj = new Date(track.date)
+		const prevTrack = index > 0 ? sorted[index - 1] : null
+
+		// Don't calculate delta days if either track is in a gap or if crossing a gap boundary
+		let deltaDays: number | null = null
+		if (prevTrack && !isInGap(dateObj, coverage) && !isInGap(new Date(prevTrack.date), coverage)) {
+			const deltaMs = dateObj.getTime() - new Date(prevTrack.date).getTime()
+			const days = deltaMs / (1000 * 60 * 60 * 24)
+			// Also check if there's a gap period between the two tracks
+			if (coverage) {
+				const hasGapBetween = coverage.periods.some(period => {
+					if (!period.isGap) { return false }
+					const prevDate = new Date(prevTrack.date)
+					return period.startDate > prevDate && period.endDate <= dateObj
+				})
+				if (!hasGapBetween) {
 					deltaDays = days
 				}
+			} else {
+				deltaDays = days
 			}
+		}
 
-			return {
-				...track,
-				dateObj,
-				dayOfWeek: (dateObj.getDay() + 6) % 7 + (dateObj.getHours() + dateObj.getMinutes() / 60) / 24,
-				hourOfDay: dateObj.getHours() + dateObj.getMinutes() / 60,
-				deltaDays
-			}
-		})
-	}, [tracks, coverage])
+		const day = getZonedDay(dateObj, timeZone, dayStartHour)
+		return {
+			...track,
+			dateObj,
+			dayKey: day.key,
+			dayOfWeek: day.weekday + day.hoursIntoDay / 24,
+			hourOfDay: (day.hoursIntoDay + dayStartHour) % 24,
+			deltaDays
+		}
+	})
 }
 
-export function useCumulativeData (tracks: ProcessedTrack[], coverage?: CoverageStats): Array<{ x: Date, y: number | null }> {
+export function useProcessedTracks (tracks: Track[], timeZone: string, dayStartHour: number, coverage?: CoverageStats): ProcessedTrack[] {
+	return useMemo(() => processTracks(tracks, timeZone, dayStartHour, coverage), [tracks, timeZone, dayStartHour, coverage])
+}
+
+// Compares timestamps against the range bounds, formatting every date in the timezone would be much slower
+export function useTracksInRange (tracks: ProcessedTrack[], range: DateRange, timeZone: string, dayStartHour: number): ProcessedTrack[] {
 	return useMemo(() => {
-		if (!coverage) {
-			return tracks.map((_, index) => ({
-				x: tracks[index].dateObj,
-				y: index + 1
-			}))
-		}
+		if (range.from === '' && range.to === '') { return tracks }
+		const { start, end } = getDateRangeBounds(range, timeZone, dayStartHour)
+		return tracks.filter(t => t.dateObj.getTime() >= start && t.dateObj.getTime() < end)
+	}, [tracks, range, timeZone, dayStartHour])
+}
 
-		// Split cumulative counts by active periods, with nulls at gap boundaries
-		const activePeriods = coverage.periods.filter(p => !p.isGap)
-		const result: Array<{ x: Date, y: number | null }> = []
+function computeCumulativeData (tracks: ProcessedTrack[], coverage?: CoverageStats): Array<{ x: Date, y: number | null }> {
+	if (!coverage) {
+		return tracks.map((_, index) => ({
+			x: tracks[index].dateObj,
+			y: index + 1
+		}))
+	}
 
-		for (let periodIdx = 0; periodIdx < activePeriods.length; periodIdx++) {
-			const period = activePeriods[periodIdx]
-			const periodTracks = tracks.filter(t => {
-				const endExclusive = new Date(period.endDate.getTime() + 86400000)
-				return t.dateObj >= period.startDate && t.dateObj < endExclusive
-			})
+	// Split cumulative counts by active periods, with nulls at gap boundaries
+	const activePeriods = coverage.periods.filter(p => !p.isGap)
+	const result: Array<{ x: Date, y: number | null }> = []
 
-			// Add null point at start of gap before this period (to break the line)
-			if (periodIdx > 0) {
-				const prevPeriod = activePeriods[periodIdx - 1]
-				const gapStart = new Date(prevPeriod.endDate.getTime() + 86400000)
-				result.push({ x: gapStart, y: null })
-			}
+	for (let periodIdx = 0; periodIdx < activePeriods.length; periodIdx++) {
+		const period = activePeriods[periodIdx]
+		const periodTracks = tracks.filter(t => t.dateObj >= period.startDate && t.dateObj < period.endDate)
 
-			periodTracks.forEach((track, index) => {
-				result.push({
-					x: track.dateObj,
-					y: index + 1
-				})
+		// Add null point at start of gap before this period (to break the line)
+		if (periodIdx > 0) {
+			result.push({ x: activePeriods[periodIdx - 1].endDate, y: null })
+		}
+
+		periodTracks.forEach((track, index) => {
+			result.push({
+				x: track.dateObj,
+				y: index + 1
 			})
+		})
 
-			// Add null point at end of this period if there's a gap after
-			if (periodIdx < activePeriods.length - 1) {
-				const gapStart = new Date(period.endDate.getTime() + 86400000)
-				result.push({ x: gapStart, y: null })
-			}
+		// Add null point at end of this period if there's a gap after
+		if (periodIdx < activePeriods.length - 1) {
+			result.push({ x: period.endDate, y: null })
 		}
+	}
 
-		return result
-	}, [tracks, coverage])
+	return result
+}
+
+export function useCumulativeData (tracks: ProcessedTrack[], coverage?: CoverageStats): Array<{ x: Date, y: number | null }> {
+	return useMemo(() => computeCumulativeData(tracks, coverage), [tracks, coverage])
 }
 
 export function useDeltaDaysData (tracks: ProcessedTrack[]): { x: Date, y: number }[] {
@@ -113,146 +130,145 @@ export function useDeltaDaysData (tracks: ProcessedTrack[]): { x: Date, y: numbe
 	}, [tracks])
 }
 
-function calculateRollingAverage (values: number[], windowSize: number): number[] {
-	const halfWindow = Math.floor(windowSize / 2)
-	return values.map((_, i) => {
-		const start = Math.max(0, i - halfWindow)
-		const end = Math.min(values.length, i + halfWindow + 1)
-		const window = values.slice(start, end)
-		return window.reduce((a, b) => a + b, 0) / window.length
-	})
+type SeriesPoint = { x: Date, y: number | null }
+
+export interface FrequencyData {
+	// Smoothed tracks per day over the short and the long window of the smoothing options
+	shortTerm: SeriesPoint[]
+	longTerm: SeriesPoint[]
+	// Poisson band around longTerm for the short-term average, empty unless the options ask for it
+	bandLower: SeriesPoint[]
+	bandUpper: SeriesPoint[]
 }
 
-export function useFrequencyData (tracks: ProcessedTrack[], coverage?: CoverageStats): {
-	weeklyAvg: Array<{ x: Date, y: number | null }>
-	monthlyAvg: Array<{ x: Date, y: number | null }>
-} {
-	return useMemo(() => {
-		if (tracks.length === 0) {
-			return { weeklyAvg: [], monthlyAvg: [] }
-		}
+function smoothDailyCounts (counts: number[], options: SmoothingOptions): number[][] {
+	const shortTerm = smooth(counts, options.shortWindow, options)
+	const longTerm = smooth(counts, options.longWindow, options)
+	if (!options.showBand) {
+		return [shortTerm, longTerm, [], []]
+	}
+	const bands = longTerm.map(rate => getPoissonBand(rate, options.shortWindow))
+	return [shortTerm, longTerm, bands.map(band => band.lower), bands.map(band => band.upper)]
+}
 
-		if (!coverage) {
-			// Without coverage, use original logic
-			const dailyCounts: Record<string, number> = {}
-			tracks.forEach(t => {
-				const dateKey = t.dateObj.toISOString().split('T')[0]
-				dailyCounts[dateKey] = (dailyCounts[dateKey] || 0) + 1
-			})
+// Days are counted by dayKey and drawn at the moment they start
+function computeFrequencyData (
+	tracks: ProcessedTrack[],
+	timeZone: string,
+	dayStartHour: number,
+	coverage?: CoverageStats,
+	options: SmoothingOptions = DEFAULT_SMOOTHING
+): FrequencyData {
+	if (tracks.length === 0) {
+		return { shortTerm: [], longTerm: [], bandLower: [], bandUpper: [] }
+	}
 
-			const sortedDates = Object.keys(dailyCounts).sort()
-			const counts = sortedDates.map(d => dailyCounts[d])
+	const dailyCounts = new Map<string, number>()
+	tracks.forEach(t => {
+		dailyCounts.set(t.dayKey, (dailyCounts.get(t.dayKey) ?? 0) + 1)
+	})
 
-			const weeklyAvg = calculateRollingAverage(counts, 7)
-			const monthlyAvg = calculateRollingAverage(counts, 30)
+	if (!coverage) {
+		// Without coverage only days with tracks are smoothed
+		const sortedDays = [...dailyCounts.keys()].sort()
+		const counts = sortedDays.map(key => dailyCounts.get(key)!)
 
-			return {
-				weeklyAvg: sortedDates.map((date, i) => ({
-					x: new Date(date),
-					y: weeklyAvg[i]
-				})),
-				monthlyAvg: sortedDates.map((date, i) => ({
-					x: new Date(date),
-					y: monthlyAvg[i]
-				}))
+		const [shortTerm, longTerm, bandLower, bandUpper] = smoothDailyCounts(counts, options)
+			.map(values => values.map((y, i) => ({ x: getDayStart(sortedDays[i], timeZone, dayStartHour), y })))
+		return { shortTerm, longTerm, bandLower, bandUpper }
+	}
+
+	// With coverage: include all days (active + gap), gaps have 0 counts. Tracks are sorted, so the first and last
+	// give the span
+	const firstDay = tracks[0].dayKey
+	const days = Array.from(
+		{ length: getDaysBetween(firstDay, tracks[tracks.length - 1].dayKey) + 1 },
+		(_, i) => shiftDayKey(firstDay, i)
+	)
+	const dayStarts = days.map(key => getDayStart(key, timeZone, dayStartHour))
+	// Day keys compare chronologically as strings
+	const gapPeriods = coverage.periods.filter(p => p.isGap)
+	const counts = days.map(key => gapPeriods.some(gap => key >= gap.startDay && key <= gap.endDay) ? 0 : (dailyCounts.get(key) ?? 0))
+
+	const smoothed = smoothDailyCounts(counts, options)
+
+	// Insert null values at gap boundaries to break the line
+	const activePeriods = coverage.periods.filter(p => !p.isGap)
+	const results: SeriesPoint[][] = smoothed.map(() => [])
+	const pushAll = (x: Date, i: number | null): void => {
+		smoothed.forEach((values, seriesIdx) => {
+			// The band series are empty when not requested
+			if (values.length > 0) {
+				results[seriesIdx].push({ x, y: i !== null ? values[i] : null })
 			}
-		}
+		})
+	}
 
-		// With coverage: include all days (active + gap), gaps have 0 counts
-		const minDate = Math.min(...tracks.map(t => t.dateObj.getTime()))
-		const maxDate = Math.max(...tracks.map(t => t.dateObj.getTime()))
+	for (let periodIdx = 0; periodIdx < activePeriods.length; periodIdx++) {
+		const period = activePeriods[periodIdx]
 
-		// Build daily counts for all days in range
-		const dailyCountsArray: { date: Date, dateKey: string, count: number }[] = []
-		const dailyCounts: Record<string, number> = {}
+		// Add null point at start of gap before this period (to break the line)
+		if (periodIdx > 0) {
+			pushAll(activePeriods[periodIdx - 1].endDate, null)
+		}
 
-		// First, populate with track counts
-		tracks.forEach(t => {
-			const dateKey = t.dateObj.toISOString().split('T')[0]
-			dailyCounts[dateKey] = (dailyCounts[dateKey] || 0) + 1
+		// Add data points for this active period
+		days.forEach((key, i) => {
+			if (key >= period.startDay && key <= period.endDay) {
+				pushAll(dayStarts[i], i)
+			}
 		})
 
-		// Then fill in all days including gaps with 0
-		const currentDate = new Date(minDate)
-		const endDate = new Date(maxDate)
-		while (currentDate <= endDate) {
-			const dateKey = currentDate.toISOString().split('T')[0]
-			const isInGapPeriod = isInGap(currentDate, coverage)
-			dailyCountsArray.push({
-				date: new Date(currentDate),
-				dateKey,
-				count: isInGapPeriod ? 0 : (dailyCounts[dateKey] || 0)
-			})
-			currentDate.setDate(currentDate.getDate() + 1)
+		// Add null point at end of this period if there's a gap after
+		if (periodIdx < activePeriods.length - 1) {
+			pushAll(period.endDate, null)
 		}
+	}
 
-		const counts = dailyCountsArray.map(d => d.count)
-		const weeklyAvg = calculateRollingAverage(counts, 7)
-		const monthlyAvg = calculateRollingAverage(counts, 30)
-
-		// Insert null values at gap boundaries to break the line
-		const activePeriods = coverage.periods.filter(p => !p.isGap)
-		const weeklyResult: Array<{ x: Date, y: number | null }> = []
-		const monthlyResult: Array<{ x: Date, y: number | null }> = []
-
-		for (let periodIdx = 0; periodIdx < activePeriods.length; periodIdx++) {
-			const period = activePeriods[periodIdx]
-
-			// Add null point at start of gap before this period (to break the line)
-			if (periodIdx > 0) {
-				const prevPeriod = activePeriods[periodIdx - 1]
-				const gapStart = new Date(prevPeriod.endDate.getTime() + 86400000)
-				weeklyResult.push({ x: gapStart, y: null })
-				monthlyResult.push({ x: gapStart, y: null })
-			}
-
-			// Add data points for this active period
-			dailyCountsArray.forEach((day, i) => {
-				const endExclusive = new Date(period.endDate.getTime() + 86400000)
-				if (day.date >= period.startDate && day.date < endExclusive) {
-					weeklyResult.push({ x: day.date, y: weeklyAvg[i] })
-					monthlyResult.push({ x: day.date, y: monthlyAvg[i] })
-				}
-			})
+	const [shortTerm, longTerm, bandLower, bandUpper] = results
+	return { shortTerm, longTerm, bandLower, bandUpper }
+}
 
-			// Add null point at end of this period if there's a gap after
-			if (periodIdx < activePeriods.length - 1) {
-				const gapStart = new Date(period.endDate.getTime() + 86400000)
-				weeklyResult.push({ x: gapStart, y: null })
-				monthlyResult.push({ x: gapStart, y: null })
-			}
-		}
+export function useFrequencyData (
+	tracks: ProcessedTrack[],
+	timeZone: string,
+	dayStartHour: number,
+	coverage?: CoverageStats,
+	options: SmoothingOptions = DEFAULT_SMOOTHING
+): FrequencyData {
+	return useMemo(
+		() => computeFrequencyData(tracks, timeZone, dayStartHour, coverage, options),
+		[tracks, timeZone, dayStartHour, coverage, options]
+	)
+}
 
-		return {
-			weeklyAvg: weeklyResult,
-			monthlyAvg: monthlyResult
-		}
-	}, [tracks, coverage])
+function computeTimeOfDayData (tracks: ProcessedTrack[], coverage?: CoverageStats): { x: Date, y: number }[] {
+	// Filter out tracks in gap periods
+	const activeTracks = !coverage ? tracks : tracks.filter(t => !isInGap(t.dateObj, coverage))
+	return activeTracks.map(t => ({
+		x: t.dateObj,
+		y: t.hourOfDay
+	}))
 }
 
 export function useTimeOfDayData (tracks: ProcessedTrack[], coverage?: CoverageStats): { x: Date, y: number }[] {
-	return useMemo(() => {
-		// Filter out tracks in gap periods
-		const activeTracks = !coverage ? tracks : tracks.filter(t => !isInGap(t.dateObj, coverage))
-		return activeTracks.map(t => ({
-			x: t.dateObj,
-			y: t.hourOfDay
-		}))
-	}, [tracks, coverage])
+	return useMemo(() => computeTimeOfDayData(tracks, coverage), [tracks, coverage])
 }
 
-export function useHourlyDistribution (tracks: ProcessedTrack[]): { data: number[], labels: string[] } {
-	return useMemo(() => {
-		const hourCounts = new Array(24).fill(0)
-		tracks.forEach(t => {
-			hourCounts[Math.floor(t.hourOfDay)]++
-		})
+function computeHourlyDistribution (tracks: ProcessedTrack[]): { data: number[], labels: string[] } {
+	const hourCounts = new Array(24).fill(0)
+	tracks.forEach(t => {
+		hourCounts[Math.floor(t.hourOfDay)]++
+	})
 
-		return {
-			data: hourCounts,
-			labels: Array.from({ length: 24 }, (_, i) => `${i}:00`)
-		}
-	}, [tracks])
+	return {
+		data: hourCounts,
+		labels: Array.from({ length: 24 }, (_, i) => `${i}:00`)
+	}
+}
+
+export function useHourlyDistribution (tracks: ProcessedTrack[]): { data: number[], labels: string[] } {
+	return useMemo(() => computeHourlyDistribution(tracks), [tracks])
 }
 
 export function useWeekdayScatterData (tracks: ProcessedTrack[]): { x: number, y: number }[] {
@@ -272,8 +288,7 @@ export function useWeekdayDistribution (tracks: ProcessedTrack[]): { data: numbe
 		const days = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
 		const dayCounts = new Array(7).fill(0)
 		tracks.forEach(t => {
-			const dayIndex = (t.dateObj.getDay() + 6) % 7
-			dayCounts[dayIndex]++
+			dayCounts[Math.floor(t.dayOfWeek)]++
 		})
 
 		return {
@@ -296,7 +311,7 @@ export function useWeekdayHeatmapData (tracks: ProcessedTrack[]): {
 		const matrix: number[][] = hours.map(() => new Array(7).fill(0))
 
 		tracks.forEach(t => {
-			const dayIndex = (t.dateObj.getDay() + 6) % 7
+			const dayIndex = Math.floor(t.dayOfWeek)
 			const hourIndex = Math.floor(t.hourOfDay)
 			if (hourIndex >= 0 && hourIndex < 24) {
 				matrix[hourIndex][dayIndex]++
@@ -323,16 +338,16 @@ export function useDeltaByTimeData (tracks: ProcessedTrack[]): { x: number, y: n
 	}, [tracks])
 }
 
-export function useCalendarHeatmapData (tracks: ProcessedTrack[]): {
+// Counts per dayKey, the range spans whole days as keys
+export function useCalendarHeatmapData (tracks: ProcessedTrack[], timeZone: string, dayStartHour: number): {
 	data: Map<string, number>
 	yearRange: { start: number, end: number }
-	dateRange: { start: Date, end: Date }
+	dateRange: { start: string, end: string }
 } {
 	return useMemo(() => {
 		const data = new Map<string, number>()
-		const today = new Date()
-		today.setHours(0, 0, 0, 0)
-		const currentYear = today.getFullYear()
+		const today = getDayKey(new Date(), timeZone, dayStartHour)
+		const currentYear = Number(today.slice(0, 4))
 
 		if (tracks.length === 0) {
 			return {
@@ -342,34 +357,22 @@ export function useCalendarHeatmapData (tracks: ProcessedTrack[]): {
 			}
 		}
 
-		let minDate = new Date(tracks[0].dateObj)
-		let maxDate = new Date(tracks[0].dateObj)
-		let minYear = minDate.getFullYear()
-		let maxYear = maxDate.getFullYear()
-
 		tracks.forEach(t => {
-			const dateKey = t.dateObj.toISOString().split('T')[0]
-			data.set(dateKey, (data.get(dateKey) ?? 0) + 1)
-			const year = t.dateObj.getFullYear()
-			minYear = Math.min(minYear, year)
-			maxYear = Math.max(maxYear, year)
-
-			const trackDate = new Date(t.dateObj)
-			trackDate.setHours(0, 0, 0, 0)
-			if (trackDate < minDate) { minDate = trackDate }
-			if (trackDate > maxDate) { maxDate = trackDate }
+			data.set(t.dayKey, (data.get(t.dayKey) ?? 0) + 1)
 		})
 
-		// Cap maxDate and maxYear at today (don't show future)
-		if (maxDate > today) { maxDate = today }
-		maxYear = Math.min(maxYear, currentYear)
+		// Day keys compare chronologically as strings
+		const keys = [...data.keys()].sort()
+		const minDay = keys[0]
+		// Cap at today (don't show future)
+		const maxDay = keys[keys.length - 1] > today ? today : keys[keys.length - 1]
 
 		return {
 			data,
-			yearRange: { start: minYear, end: maxYear },
-			dateRange: { start: minDate, end: maxDate }
+			yearRange: { start: Number(minDay.slice(0, 4)), end: Number(maxDay.slice(0, 4)) },
+			dateRange: { start: minDay, end: maxDay }
 		}
-	}, [tracks])
+	}, [tracks, timeZone, dayStartHour])
 }
 
 export function useGapHistogramData (tracks: ProcessedTrack[]): {
@@ -379,32 +382,63 @@ export function useGapHistogramData (tracks: ProcessedTrack[]): {
 } {
 	return useMemo(() => {
 		// deltaDays are already filtered to exclude large coverage gaps
-		const gaps = tracks
-			.filter(t => t.deltaDays !== null && t.deltaDays > 0)
-			.map(t => t.deltaDays!)
+		const gaps = getPositiveGaps(tracks)
 
 		if (gaps.length === 0) {
 			return { bins: [], labels: [], maxGap: 0 }
 		}
 
 		const maxGap = Math.max(...gaps)
-		const binCount = Math.min(Math.ceil(maxGap), 20)
-		const binSize = maxGap / binCount
+		const { bins, labels } = binGaps([gaps], maxGap)
+		return { bins: bins[0], labels, maxGap }
+	}, [tracks])
+}
+
+function getPositiveGaps (tracks: ProcessedTrack[]): number[] {
+	return tracks
+		.filter(t => t.deltaDays !== null && t.deltaDays > 0)
+		.map(t => t.deltaDays!)
+}
 
-		const bins = new Array(binCount).fill(0)
+// Bins every list of gaps the same way, so that histograms of different tracks line up
+function binGaps (gapLists: number[][], maxGap: number): { bins: number[][], labels: string[] } {
+	const binCount = Math.min(Math.ceil(maxGap), 20)
+	const binSize = maxGap / binCount
+
+	const bins = gapLists.map(gaps => {
+		const counts = new Array<number>(binCount).fill(0)
 		gaps.forEach(gap => {
 			const binIndex = Math.min(Math.floor(gap / binSize), binCount - 1)
-			bins[binIndex]++
+			counts[binIndex]++
 		})
+		return counts
+	})
 
-		const labels = bins.map((_, i) => {
-			const start = (i * binSize).toFixed(1)
-			const end = ((i + 1) * binSize).toFixed(1)
-			return `${start}-${end}`
-		})
+	const labels = Array.from({ length: binCount }, (_, i) => {
+		const start = (i * binSize).toFixed(1)
+		const end = ((i + 1) * binSize).toFixed(1)
+		return `${start}-${end}`
+	})
 
-		return { bins, labels, maxGap }
-	}, [tracks])
+	return { bins, labels }
+}
+
+export function useGapHistogramComparison (tracks: ProcessedTrack[], compareTracks: ProcessedTrack[]): {
+	bins: number[]
+	compareBins: number[]
+	labels: string[]
+} {
+	return useMemo(() => {
+		const gaps = getPositiveGaps(tracks)
+		const compareGaps = getPositiveGaps(compareTracks)
+		if (gaps.length === 0 && compareGaps.length === 0) {
+			return { bins: [], compareBins: [], labels: [] }
+		}
+
+		const maxGap = Math.max(...gaps, ...compareGaps)
+		const { bins, labels } = binGaps([gaps, compareGaps], maxGap)
+		return { bins: bins[0], compareBins: bins[1], labels }
+	}, [tracks, compareTracks])
 }
 
 export interface BoxPlotStats {
@@ -454,8 +488,7 @@ export function useWeekdayBoxPlotData (tracks: ProcessedTrack[]): {
 
 		tracks.forEach(t => {
 			if (t.deltaDays !== null && t.deltaDays > 0) {
-				const dayIndex = (t.dateObj.getDay() + 6) % 7
-				dayGaps[dayIndex].push(t.deltaDays)
+				dayGaps[Math.floor(t.dayOfWeek)].push(t.deltaDays)
 			}
 		})
 
@@ -476,7 +509,7 @@ export function useMonthlyBoxPlotData (tracks: ProcessedTrack[]): {
 
 		tracks.forEach(t => {
 			if (t.deltaDays !== null && t.deltaDays > 0) {
-				const monthIndex = t.dateObj.getMonth()
+				const monthIndex = Number(t.dayKey.slice(5, 7)) - 1
 				monthGaps[monthIndex].push(t.deltaDays)
 			}
 		})
@@ -487,3 +520,106 @@ export function useMonthlyBoxPlotData (tracks: ProcessedTrack[]): {
 		}
 	}, [tracks])
 }
+
+export interface PeriodSummary {
+	trackCount: number
+	activeDays: number
+	// null when the period has no active days, gaps or tracks
+	ratePerActiveDay: number | null
+	medianGap: number | null
+	peakHour: number | null
+}
+
+// Headline numbers of one period, coverage should be clipped to the period's tracks
+export function usePeriodSummary (tracks: ProcessedTrack[], coverage: CoverageStats): PeriodSummary {
+	return useMemo(() => {
+		const gaps = getPositiveGaps(tracks).sort((a, b) => a - b)
+		const middle = Math.floor(gaps.length / 2)
+		const medianGap = gaps.length === 0
+			? null
+			: gaps.length % 2 === 1 ? gaps[middle] : (gaps[middle - 1] + gaps[middle]) / 2
+
+		const hourCounts = new Array<number>(24).fill(0)
+		tracks.forEach(t => {
+			hourCounts[Math.floor(t.hourOfDay)]++
+		})
+		const peakHour = tracks.length === 0 ? null : hourCounts.indexOf(Math.max(...hourCounts))
+
+		return {
+			trackCount: tracks.length,
+			activeDays: coverage.activeDays,
+			ratePerActiveDay: coverage.activeDays > 0 ? tracks.length / coverage.activeDays : null,
+			medianGap,
+			peakHour
+		}
+	}, [tracks, coverage])
+}
+
+// 'per-day' divides by the days each type was tracked, so that a type logged for years and one started last month
+// can be read on the same axis
+export type SeriesMode = 'absolute' | 'per-day'
+
+export interface TypeSeries {
+	trackName: string
+	// Running count, or in per-day mode the running rate since tracking (re)started
+	cumulative: Array<{ x: Date, y: number | null }>
+	// Tracks per long smoothing window, or in per-day mode the smoothed daily rate itself
+	frequency: Array<{ x: Date, y: number | null }>
+	timeOfDay: { x: Date, y: number }[]
+	// Tracks per hour of the day, or in per-day mode per active day
+	hourly: number[]
+}
+
+function toRunningRate (points: Array<{ x: Date, y: number | null }>): Array<{ x: Date, y: number | null }> {
+	// Cumulative counts restart after each coverage gap, which is marked by a null point
+	let periodStart: number | null = null
+	return points.map(point => {
+		if (point.y === null) {
+			periodStart = null
+			return point
+		}
+		periodStart ??= point.x.getTime()
+		const days = Math.max(1, (point.x.getTime() - periodStart) / 86400000)
+		return { x: point.x, y: point.y / days }
+	})
+}
+
+// One series per type for the overlay charts. Gaps are detected per type over its whole history before the range
+// is applied, like the single series
+export function useTypeSeries (
+	tracks: Track[],
+	trackNames: string[],
+	range: DateRange,
+	timeZone: string,
+	dayStartHour: number,
+	mode: SeriesMode,
+	smoothing: SmoothingOptions = DEFAULT_SMOOTHING
+): TypeSeries[] {
+	return useMemo(() => {
+		const tracksByName = new Map<string, Track[]>(trackNames.map(name => [name, []]))
+		tracks.forEach(track => {
+			tracksByName.get(track.trackName)?.push(track)
+		})
+		const { start, end } = getDateRangeBounds(range, timeZone, dayStartHour)
+
+		return trackNames.map(trackName => {
+			const typeTracks = tracksByName.get(trackName) ?? []
+			const typeCoverage = computeCoverageStats(typeTracks, timeZone, dayStartHour)
+			const processed = processTracks(typeTracks, timeZone, dayStartHour, typeCoverage)
+				.filter(t => t.dateObj.getTime() >= start && t.dateObj.getTime() < end)
+			const coverage = clipCoverageStats(typeCoverage, processed, timeZone, dayStartHour)
+
+			const cumulative = computeCumulativeData(processed, coverage)
+			const { longTerm } = computeFrequencyData(processed, timeZone, dayStartHour, coverage, { ...smoothing, showBand: false })
+			const hourly = computeHourlyDistribution(processed).data
+
+			return {
+				trackName,
+				cumulative: mode === 'per-day' ? toRunningRate(cumulative) : cumulative,
+				frequency: mode === 'per-day' ? longTerm : longTerm.map(point => ({ x: point.x, y: point.y !== null ? point.y * smoothing.longWindow : null })),
+				timeOfDay: computeTimeOfDayData(processed, coverage),
+				hourly: mode === 'per-day' ? hourly.map(count => coverage.activeDays > 0 ? count / coverage.activeDays : 0) : hourly
+			}
+		})
+	}, [tracks, trackNames, range, timeZone, dayStartHour, mode, smoothing])
+}
@@ -0,0 +1,59 @@
+'use client'
+
+import { useEffect, useRef, useState, type RefObject } from 'react'
+
+interface VirtualRowsOptions {
+	count: number
+	// Rows are assumed to share one height, an odd taller row only shifts the spacer below it
+	rowHeight: number
+	// Rows rendered beyond each edge of the viewport so fast scrolling does not show gaps
+	overscan?: number
+	enabled: boolean
+}
+
+export interface VirtualRows {
+	containerRef: RefObject<HTMLDivElement | null>
+	start: number
+	end: number
+	paddingTop: number
+	paddingBottom: number
+}
+
+// Windowing for a table inside a scrolling container, only the visible slice of rows is rendered
+export function useVirtualRows ({ count, rowHeight, overscan = 10, enabled }: VirtualRowsOptions): VirtualRows {
+	const containerRef = useRef<HTMLDivElement | null>(null)
+	// Stored as a row index rather than pixels so scrolling within a row does not re-render the table
+	const [firstVisibleRow, setFirstVisibleRow] = useState(0)
+	const [viewportHeight, setViewportHeight] = useState(800)
+
+	useEffect(() => {
+		const container = containerRef.current
+		if (!enabled || container === null) { return }
+
+		const handleScroll = (): void => setFirstVisibleRow(Math.floor(container.scrollTop / rowHeight))
+		const resizeObserver = new ResizeObserver(entries => {
+			setViewportHeight(entries[0].contentRect.height)
+		})
+		container.addEventListener('scroll', handleScroll, { passive: true })
+		resizeObserver.observe(container)
+		return () => {
+			container.removeEventListener('scroll', handleScroll)
+			resizeObserver.disconnect()
+		}
+	}, [enabled, rowHeight])
+
+	if (!enabled) {
+		return { containerRef, start: 0, end: count, paddingTop: 0, paddingBottom: 0 }
+	}
+
+	// The scroll position can briefly outlast a shorter list, clamp so the slice stays valid
+	const start = Math.min(count, Math.max(0, firstVisibleRow - overscan))
+	const end = Math.max(start, Math.min(count, firstVisibleRow + Math.ceil(viewportHeight / rowHeight) + 1 + overscan))
+	return {
+		containerRef,
+		start,
+		end,
+		paddingTop: start * rowHeight,
+		paddingBottom: Math.max(0, (count - end) * rowHeight)
+	}
+}
@@ -1,4 +1,8 @@
 export interface TrackingPeriod {
+	// First and last day of the period as day keys, both inclusive
+	startDay: string
+	endDay: string
+	// When startDay begins and when the day after endDay begins
 	startDate: Date
 	endDate: Date
 	dayCount: number
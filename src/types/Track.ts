@@ -9,7 +9,11 @@ export interface Track {
 
 export interface ProcessedTrack extends Track {
 	dateObj: Date
+	// YYYY-MM-DD of the day the track counts towards, in the chosen timezone and with the chosen day start
+	dayKey: string
+	// Monday-based weekday of that day plus the fraction of the day that had passed
 	dayOfWeek: number
+	// Wall-clock hour with minutes as a fraction
 	hourOfDay: number
 	deltaDays: number | null
 }
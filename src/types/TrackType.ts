@@ -0,0 +1,11 @@
+// Display settings per track name, stored on the user next to the display name translations.
+// Every field is optional, an empty entry means the defaults.
+export interface TrackTypeSettings {
+	// Hex colour such as #3b82f6
+	color?: string
+	// Usually a single emoji shown before the name
+	icon?: string
+	category?: string
+	// Hidden from pickers, the tracks still count in charts, insights and exports
+	archived?: boolean
+}
@@ -1,9 +1,14 @@
+import type { TrackTypeSettings } from '@/types/TrackType'
+
 export interface User {
 	_id: string
 	userName: string
 	email: string
 	accessToken: string
 	trackNameTranslations?: Record<string, string>
+	trackTypeSettings?: Record<string, TrackTypeSettings>
+	// Hour at which a day begins in day-based charts, midnight when missing
+	dayStartHour?: number
 	createdAt: Date
 	updatedAt: Date
 }
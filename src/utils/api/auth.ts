@@ -0,0 +1,25 @@
+import { ApiError, apiClient, type RequestOptions } from '@/utils/api/client'
+
+export interface LoginCredentials {
+	email: string
+	password: string
+	stayLoggedIn: boolean
+}
+
+export async function checkAuthenticated ({ signal }: RequestOptions = {}): Promise<boolean> {
+	try {
+		await apiClient.get('/v1/auth/is-authenticated', { signal })
+		return true
+	} catch (error) {
+		if (error instanceof ApiError && error.status === 401) { return false }
+		throw error
+	}
+}
+
+export async function login (credentials: LoginCredentials, { signal }: RequestOptions = {}): Promise<void> {
+	await apiClient.post('/v1/auth/login-local', credentials, { signal })
+}
+
+export async function logout ({ signal }: RequestOptions = {}): Promise<void> {
+	await apiClient.post('/v1/auth/logout', {}, { signal })
+}
@@ -0,0 +1,99 @@
+import axios, { type AxiosResponse } from 'axios'
+
+import { clearServiceWorkerData } from '@/utils/serviceWorker'
+
+export const API_URL = process.env.NEXT_PUBLIC_API_URL
+
+export interface RequestOptions {
+	signal?: AbortSignal
+}
+
+// 'unauthorized' is a 401 on a signed-in endpoint, 'network' means no response was received
+export type ApiErrorKind = 'cancelled' | 'unauthorized' | 'network' | 'http'
+
+export class ApiError extends Error {
+	readonly kind: ApiErrorKind
+	readonly status?: number
+	// Message sent by the backend, if any, for callers that want their own fallback text
+	readonly serverMessage?: string
+
+	constructor (kind: ApiErrorKind, message: string, status?: number, serverMessage?: string) {
+		super(message)
+		this.name = 'ApiError'
+		this.kind = kind
+		this.status = status
+		this.serverMessage = serverMessage
+	}
+}
+
+// Endpoints that are called while signed out, where a 401 is an answer rather than an expired session
+const PUBLIC_ENDPOINTS = [
+	'/v1/auth/is-authenticated',
+	'/v1/auth/login-local',
+	'/v1/users/request-password-reset-email',
+	'/v1/users/reset-password'
+]
+
+export const apiClient = axios.create({
+	baseURL: API_URL,
+	withCredentials: true
+})
+
+function getServerMessage (data: unknown): string | undefined {
+	if (typeof data !== 'object' || data === null) { return undefined }
+	const { error, message } = data as { error?: unknown, message?: unknown }
+	if (typeof error === 'string' && error !== '') { return error }
+	if (typeof message === 'string' && message !== '') { return message }
+	return undefined
+}
+
+export function normalizeApiError (error: unknown): ApiError {
+	if (error instanceof ApiError) { return error }
+
+	if (axios.isCancel(error)) {
+		return new ApiError('cancelled', 'Request was cancelled')
+	}
+
+	if (axios.isAxiosError(error)) {
+		if (error.response === undefined) {
+			return new ApiError('network', 'Could not reach the server. Check your connection and try again.')
+		}
+		const { status, data } = error.response
+		const serverMessage = getServerMessage(data)
+		const isPublic = PUBLIC_ENDPOINTS.includes(error.config?.url ?? '')
+		return new ApiError(
+			status === 401 && !isPublic ? 'unauthorized' : 'http',
+			serverMessage ?? (status === 401 ? 'Your session has expired, please sign in again' : `Request failed with status ${status}`),
+			status,
+			serverMessage
+		)
+	}
+
+	return new ApiError('network', error instanceof Error ? error.message : 'Unknown error')
+}
+
+// Older backends lack some endpoints, callers fall back to what they did before them
+export function isUnsupportedEndpoint (error: unknown): error is ApiError {
+	return error instanceof ApiError && (error.status === 404 || error.status === 405)
+}
+
+export function isCancelledRequest (error: unknown): boolean {
+	return error instanceof ApiError ? error.kind === 'cancelled' : axios.isCancel(error)
+}
+
+apiClient.interceptors.response.use(
+	(response: AxiosResponse) => response,
+	async (error: unknown) => {
+		const apiError = normalizeApiError(error)
+		if (apiError.kind === 'unauthorized' && typeof window !== 'undefined' && window.location.pathname !== '/signin') {
+			// The cached API responses belong to the expired session, whoever signs in next must not be served them
+			try {
+				await clearServiceWorkerData()
+			} catch (clearError) {
+				console.error('Failed to clear cached responses:', clearError)
+			}
+			window.location.assign('/signin')
+		}
+		throw apiError
+	}
+)
@@ -0,0 +1,24 @@
+export { API_URL, ApiError, apiClient, isCancelledRequest, isUnsupportedEndpoint, normalizeApiError, type ApiErrorKind, type RequestOptions } from './client'
+export { checkAuthenticated, login, logout, type LoginCredentials } from './auth'
+export {
+	bulkRenameTracks,
+	countTracks,
+	deleteTrack,
+	importTracks,
+	listTrackNames,
+	listTracks,
+	updateTrack,
+	type TrackChanges,
+	type TrackListParams
+} from './tracks'
+export {
+	createUser,
+	getCurrentUser,
+	requestPasswordResetEmail,
+	resetPassword,
+	updateDayStartHour,
+	updateTrackNameTranslations,
+	updateTrackTypeSettings,
+	type NewUser,
+	type PasswordReset
+} from './users'
@@ -0,0 +1,68 @@
+import type { Track } from '@/types/Track'
+import { ApiError, apiClient, isUnsupportedEndpoint, type RequestOptions } from '@/utils/api/client'
+
+export interface TrackListParams {
+	trackName?: string
+	// Field name, prefixed with '-' for descending order
+	sort?: string
+	limit?: number
+	skip?: number
+}
+
+export async function listTracks (params: TrackListParams = {}, { signal }: RequestOptions = {}): Promise<Track[]> {
+	const response = await apiClient.get<Track[]>('/v1/tracks', { params, signal })
+	return response.data
+}
+
+// Older backends lack the count and names endpoints, both then resolve to null and callers fall back to listTracks
+export async function countTracks ({ trackName }: Pick<TrackListParams, 'trackName'> = {}, { signal }: RequestOptions = {}): Promise<number | null> {
+	try {
+		const response = await apiClient.get<{ count: number }>('/v1/tracks/count', { params: { trackName }, signal })
+		return response.data.count
+	} catch (error) {
+		if (isUnsupportedEndpoint(error)) { return null }
+		throw error
+	}
+}
+
+export async function listTrackNames ({ signal }: RequestOptions = {}): Promise<string[] | null> {
+	try {
+		const response = await apiClient.get<string[]>('/v1/tracks/names', { signal })
+		return [...response.data].sort()
+	} catch (error) {
+		if (isUnsupportedEndpoint(error)) { return null }
+		throw error
+	}
+}
+
+export async function importTracks (trackName: string, dates: string[], { signal }: RequestOptions = {}): Promise<{ created: number }> {
+	const response = await apiClient.post<{ created: number }>('/v1/tracks/import', { trackName, dates }, { signal })
+	return response.data
+}
+
+export interface TrackChanges {
+	trackName?: string
+	date?: string
+}
+
+// Older backends have no edit endpoint, the error keeps the status so callers can tell it from a failed edit
+export async function updateTrack (trackId: string, changes: TrackChanges, { signal }: RequestOptions = {}): Promise<Track> {
+	try {
+		const response = await apiClient.patch<Track>(`/v1/tracks/${trackId}`, changes, { signal })
+		return response.data
+	} catch (error) {
+		if (isUnsupportedEndpoint(error)) {
+			throw new ApiError('http', 'Editing tracks is not supported by this server', error.status, error.serverMessage)
+		}
+		throw error
+	}
+}
+
+export async function deleteTrack (trackId: string, { signal }: RequestOptions = {}): Promise<void> {
+	await apiClient.delete(`/v1/tracks/${trackId}`, { data: { confirm: true }, signal })
+}
+
+export async function bulkRenameTracks (oldName: string, newName: string, { signal }: RequestOptions = {}): Promise<{ modifiedCount: number }> {
+	const response = await apiClient.patch<{ modifiedCount: number }>('/v1/tracks/bulk/rename', { oldName, newName }, { signal })
+	return response.data
+}
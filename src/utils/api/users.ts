@@ -0,0 +1,52 @@
+import type { TrackTypeSettings } from '@/types/TrackType'
+import type { User } from '@/types/User'
+import { apiClient, isUnsupportedEndpoint, type RequestOptions } from '@/utils/api/client'
+
+export interface NewUser {
+	userName: string
+	email: string
+	password: string
+	confirmPassword: string
+}
+
+export interface PasswordReset {
+	passwordResetCode: string | null
+	password: string
+	confirmPassword: string
+}
+
+export async function getCurrentUser ({ signal }: RequestOptions = {}): Promise<User> {
+	const response = await apiClient.get<User>('/v1/users/user', { signal })
+	return response.data
+}
+
+export async function updateTrackNameTranslations (translations: Record<string, string>, { signal }: RequestOptions = {}): Promise<void> {
+	await apiClient.patch('/v1/users/track-name-translations', { translations }, { signal })
+}
+
+export async function updateTrackTypeSettings (settings: Record<string, TrackTypeSettings>, { signal }: RequestOptions = {}): Promise<void> {
+	await apiClient.patch('/v1/users/track-type-settings', { settings }, { signal })
+}
+
+// false when the backend predates this endpoint and the hour could not be saved on the user
+export async function updateDayStartHour (dayStartHour: number, { signal }: RequestOptions = {}): Promise<boolean> {
+	try {
+		await apiClient.patch('/v1/users/day-start-hour', { dayStartHour }, { signal })
+		return true
+	} catch (error) {
+		if (isUnsupportedEndpoint(error)) { return false }
+		throw error
+	}
+}
+
+export async function createUser (user: NewUser, { signal }: RequestOptions = {}): Promise<void> {
+	await apiClient.post('/v1/users', user, { signal })
+}
+
+export async function requestPasswordResetEmail (email: string, { signal }: RequestOptions = {}): Promise<void> {
+	await apiClient.post('/v1/users/request-password-reset-email', { email }, { signal })
+}
+
+export async function resetPassword (reset: PasswordReset, { signal }: RequestOptions = {}): Promise<void> {
+	await apiClient.patch('/v1/users/reset-password', reset, { signal })
+}
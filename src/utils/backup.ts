@@ -0,0 +1,203 @@
+import type { Track } from '@/types/Track'
+import type { TrackTypeSettings } from '@/types/TrackType'
+import { cleanTrackTypeSettings } from '@/utils/trackTypes'
+
+export const BACKUP_FORMAT = 'life-tracker-backup'
+// Version 2 added the type settings and the day start hour, version 1 backups still restore without them
+export const BACKUP_VERSION = 2
+
+export interface BackupTrack {
+	trackName: string
+	date: string
+}
+
+export interface TrackBackup {
+	format: typeof BACKUP_FORMAT
+	version: number
+	exportedAt: string
+	tracks: BackupTrack[]
+	trackNameTranslations: Record<string, string>
+	trackTypeSettings: Record<string, TrackTypeSettings>
+	// null for version 1 backups, which predate it
+	dayStartHour: number | null
+}
+
+export type BackupParseResult =
+	| { ok: true; backup: TrackBackup }
+	| { ok: false; error: string }
+
+export interface RestoreGroupPlan {
+	trackName: string
+	inBackup: number
+	// Already stored on the account
+	duplicates: number
+	// Listed more than once in the backup itself
+	inFileDuplicates: number
+	toCreate: string[]
+}
+
+export interface RestorePlan {
+	groups: RestoreGroupPlan[]
+	translationsAdded: string[]
+	translationsChanged: string[]
+	mergedTranslations: Record<string, string>
+	settingsAdded: string[]
+	settingsChanged: string[]
+	mergedSettings: Record<string, TrackTypeSettings>
+	// null when the backup has none or it matches the current one
+	dayStartHour: number | null
+}
+
+export function createBackup (
+	tracks: Track[],
+	translations: Record<string, string>,
+	settings: Record<string, TrackTypeSettings>,
+	dayStartHour: number
+): TrackBackup {
+	return {
+		format: BACKUP_FORMAT,
+		version: BACKUP_VERSION,
+		exportedAt: new Date().toISOString(),
+		tracks: [...tracks]
+			.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+			.map(t => ({ trackName: t.trackName, date: t.date })),
+		trackNameTranslations: { ...translations },
+		trackTypeSettings: { ...settings },
+		dayStartHour
+	}
+}
+
+function isRecord (value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isTrackTypeSettings (value: unknown): value is TrackTypeSettings {
+	return isRecord(value) &&
+		['color', 'icon', 'category'].every(field => value[field] === undefined || typeof value[field] === 'string') &&
+		(value.archived === undefined || typeof value.archived === 'boolean')
+}
+
+export function parseBackup (text: string): BackupParseResult {
+	let data: unknown
+	try {
+		data = JSON.parse(text)
+	} catch {
+		return { ok: false, error: 'File is not valid JSON' }
+	}
+
+	if (!isRecord(data) || data.format !== BACKUP_FORMAT) {
+		return { ok: false, error: 'File is not a Life Tracker backup' }
+	}
+
+	if (typeof data.version !== 'number') {
+		return { ok: false, error: 'Backup has no schema version' }
+	}
+	if (data.version > BACKUP_VERSION) {
+		return { ok: false, error: `Backup version ${data.version} is newer than this app supports (version ${BACKUP_VERSION})` }
+	}
+	if (!Number.isInteger(data.version) || data.version < 1) {
+		return { ok: false, error: `Unsupported backup version ${data.version}` }
+	}
+
+	if (!Array.isArray(data.tracks)) {
+		return { ok: false, error: 'Backup is missing the tracks list' }
+	}
+
+	const tracks: BackupTrack[] = []
+	for (const [index, entry] of data.tracks.entries()) {
+		if (!isRecord(entry) || typeof entry.trackName !== 'string' || entry.trackName.trim() === '' || typeof entry.date !== 'string') {
+			return { ok: false, error: `Track #${index + 1} is missing a track name or date` }
+		}
+		if (isNaN(new Date(entry.date).getTime())) {
+			return { ok: false, error: `Track #${index + 1} has an invalid date: ${entry.date}` }
+		}
+		tracks.push({ trackName: entry.trackName, date: entry.date })
+	}
+
+	const translations = data.trackNameTranslations ?? {}
+	if (!isRecord(translations) || Object.values(translations).some(v => typeof v !== 'string')) {
+		return { ok: false, error: 'Backup translations must map track names to strings' }
+	}
+
+	const settings = data.trackTypeSettings ?? {}
+	if (!isRecord(settings) || !Object.values(settings).every(isTrackTypeSettings)) {
+		return { ok: false, error: 'Backup type settings must map track names to settings' }
+	}
+
+	const dayStartHour = data.dayStartHour ?? null
+	if (dayStartHour !== null && (!Number.isInteger(dayStartHour) || (dayStartHour as number) < 0 || (dayStartHour as number) > 23)) {
+		return { ok: false, error: `Backup has an invalid day start hour: ${String(dayStartHour)}` }
+	}
+
+	return {
+		ok: true,
+		backup: {
+			format: BACKUP_FORMAT,
+			version: data.version,
+			exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+			tracks,
+			trackNameTranslations: translations as Record<string, string>,
+			trackTypeSettings: cleanTrackTypeSettings(settings as Record<string, TrackTypeSettings>),
+			dayStartHour: dayStartHour as number | null
+		}
+	}
+}
+
+export function planRestore (
+	backup: TrackBackup,
+	existingTracks: Track[],
+	existingTranslations: Record<string, string>,
+	existingSettings: Record<string, TrackTypeSettings>,
+	existingDayStartHour: number
+): RestorePlan {
+	const existingKeys = new Set(existingTracks.map(t => `${t.trackName}\u0000${new Date(t.date).getTime()}`))
+	const backupKeys = new Set<string>()
+
+	const grouped = new Map<string, RestoreGroupPlan>()
+	for (const track of backup.tracks) {
+		const group = grouped.get(track.trackName) ?? { trackName: track.trackName, inBackup: 0, duplicates: 0, inFileDuplicates: 0, toCreate: [] }
+		group.inBackup++
+
+		const key = `${track.trackName}\u0000${new Date(track.date).getTime()}`
+		if (backupKeys.has(key)) {
+			group.inFileDuplicates++
+		} else if (existingKeys.has(key)) {
+			group.duplicates++
+		} else {
+			group.toCreate.push(new Date(track.date).toISOString())
+		}
+		backupKeys.add(key)
+		grouped.set(track.trackName, group)
+	}
+
+	const translationsAdded: string[] = []
+	const translationsChanged: string[] = []
+	for (const [trackName, displayName] of Object.entries(backup.trackNameTranslations)) {
+		if (existingTranslations[trackName] === undefined) {
+			translationsAdded.push(trackName)
+		} else if (existingTranslations[trackName] !== displayName) {
+			translationsChanged.push(trackName)
+		}
+	}
+
+	const settingsAdded: string[] = []
+	const settingsChanged: string[] = []
+	for (const [trackName, entry] of Object.entries(backup.trackTypeSettings)) {
+		if (existingSettings[trackName] === undefined) {
+			settingsAdded.push(trackName)
+		} else if (JSON.stringify(cleanTrackTypeSettings({ [trackName]: existingSettings[trackName] })) !== JSON.stringify({ [trackName]: entry })) {
+			settingsChanged.push(trackName)
+		}
+	}
+
+	return {
+		groups: [...grouped.values()].sort((a, b) => a.trackName.localeCompare(b.trackName)),
+		translationsAdded,
+		translationsChanged,
+		mergedTranslations: { ...existingTranslations, ...backup.trackNameTranslations },
+		settingsAdded,
+		settingsChanged,
+		mergedSettings: { ...existingSettings, ...backup.trackTypeSettings },
+		dayStartHour: backup.dayStartHour !== null && backup.dayStartHour !== existingDayStartHour ? backup.dayStartHour : null
+	}
+}
@@ -0,0 +1,82 @@
+import type { TrackUpdate } from '@/contexts/TrackContext/TrackContext'
+import type { Track } from '@/types/Track'
+
+export type BulkAction =
+	| { type: 'delete' }
+	| { type: 'move', trackName: string }
+	| { type: 'shift', offsetMs: number }
+
+export interface SelectionSummary {
+	count: number
+	trackNames: string[]
+	first: Date | null
+	last: Date | null
+	invalidDates: number
+}
+
+const MINUTE_MS = 60 * 1000
+
+function isValidDate (track: Track): boolean {
+	return !isNaN(new Date(track.date).getTime())
+}
+
+export function summarizeSelection (tracks: Track[]): SelectionSummary {
+	let first = Infinity
+	let last = -Infinity
+	let invalidDates = 0
+	for (const track of tracks) {
+		if (!isValidDate(track)) {
+			invalidDates++
+			continue
+		}
+		const time = new Date(track.date).getTime()
+		first = Math.min(first, time)
+		last = Math.max(last, time)
+	}
+	return {
+		count: tracks.length,
+		trackNames: [...new Set(tracks.map(t => t.trackName))].sort(),
+		first: isFinite(first) ? new Date(first) : null,
+		last: isFinite(last) ? new Date(last) : null,
+		invalidDates
+	}
+}
+
+export function formatShift (offsetMs: number): string {
+	const sign = offsetMs < 0 ? '-' : '+'
+	const totalMinutes = Math.round(Math.abs(offsetMs) / MINUTE_MS)
+	const hours = Math.floor(totalMinutes / 60)
+	const minutes = totalMinutes % 60
+	if (hours === 0) { return `${sign}${minutes}m` }
+	return minutes === 0 ? `${sign}${hours}h` : `${sign}${hours}h ${minutes}m`
+}
+
+// Imperative for the confirmation ("Delete 3 tracks"), past tense once applied ("Deleted 3 tracks")
+export function describeBulkAction (
+	action: BulkAction,
+	count: number,
+	getLabel: (trackName: string) => string = name => name,
+	applied = false
+): string {
+	const tracks = `${count} track${count !== 1 ? 's' : ''}`
+	switch (action.type) {
+		case 'delete':
+			return `${applied ? 'Deleted' : 'Delete'} ${tracks}`
+		case 'move':
+			return `${applied ? 'Moved' : 'Move'} ${tracks} to "${getLabel(action.trackName)}"`
+		case 'shift':
+			return `${applied ? 'Shifted' : 'Shift'} ${tracks} by ${formatShift(action.offsetMs)}`
+	}
+}
+
+// Tracks the action would leave unchanged are left out, e.g. invalid dates cannot be shifted
+export function planUpdates (tracks: Track[], action: Exclude<BulkAction, { type: 'delete' }>): TrackUpdate[] {
+	if (action.type === 'move') {
+		return tracks
+			.filter(t => t.trackName !== action.trackName)
+			.map(t => ({ trackId: t._id, changes: { trackName: action.trackName } }))
+	}
+	return tracks
+		.filter(t => isValidDate(t) && action.offsetMs !== 0)
+		.map(t => ({ trackId: t._id, changes: { date: new Date(new Date(t.date).getTime() + action.offsetMs).toISOString() } }))
+}
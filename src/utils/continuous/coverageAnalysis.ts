@@ -1,5 +1,6 @@
 import type { CoverageStats, TrackingPeriod } from '../../types/Insights'
-import type { Track } from '../../types/Track'
+import type { ProcessedTrack, Track } from '../../types/Track'
+import { getDayKey, getDayStart, getDaysBetween, shiftDayKey } from '../dayKeys'
 
 function computeDeltaStatistics (sortedTracks: Track[]): { mean: number, stdDev: number, q95: number } {
 	if (sortedTracks.length < 2) {
@@ -31,34 +32,49 @@ function computeDeltaStatistics (sortedTracks: Track[]): { mean: number, stdDev:
 	return { mean, stdDev, q95 }
 }
 
-export function computeCoverageStats (tracks: Track[]): CoverageStats {
-	if (tracks.length === 0) {
-		return {
-			totalDays: 0,
-			activeDays: 0,
-			gapDays: 0,
-			coveragePercent: 0,
-			periods: []
-		}
+const EMPTY_COVERAGE: CoverageStats = {
+	totalDays: 0,
+	activeDays: 0,
+	gapDays: 0,
+	coveragePercent: 0,
+	periods: []
+}
+
+function createPeriod (startDay: string, endDay: string, eventCount: number, isGap: boolean, timeZone: string, dayStartHour: number): TrackingPeriod {
+	return {
+		startDay,
+		endDay,
+		startDate: getDayStart(startDay, timeZone, dayStartHour),
+		endDate: getDayStart(shiftDayKey(endDay, 1), timeZone, dayStartHour),
+		dayCount: getDaysBetween(startDay, endDay) + 1,
+		eventCount,
+		isGap
 	}
+}
 
-	const validTracks = tracks.filter(t => !isNaN(new Date(t.date).getTime()))
-	if (validTracks.length === 0) {
-		return {
-			totalDays: 0,
-			activeDays: 0,
-			gapDays: 0,
-			coveragePercent: 0,
-			periods: []
-		}
+function summarizePeriods (periods: TrackingPeriod[]): CoverageStats {
+	if (periods.length === 0) { return EMPTY_COVERAGE }
+	const totalDays = getDaysBetween(periods[0].startDay, periods[periods.length - 1].endDay) + 1
+	const activeDays = periods.filter(p => !p.isGap).reduce((sum, p) => sum + p.dayCount, 0)
+	const gapDays = periods.filter(p => p.isGap).reduce((sum, p) => sum + p.dayCount, 0)
+
+	return {
+		totalDays,
+		activeDays,
+		gapDays,
+		coveragePercent: totalDays > 0 ? (activeDays / totalDays) * 100 : 0,
+		periods
 	}
+}
 
-	const sortedTracks = [...validTracks].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-	const dates = sortedTracks.map(t => new Date(t.date))
-	const minTs = dates[0].getTime()
-	const maxTs = dates[dates.length - 1].getTime()
+// Periods are whole days, bucketed with the same day keys as the charts
+export function computeCoverageStats (tracks: Track[], timeZone: string, dayStartHour = 0): CoverageStats {
+	const sortedTracks = tracks
+		.filter(t => !isNaN(new Date(t.date).getTime()))
+		.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+	if (sortedTracks.length === 0) { return EMPTY_COVERAGE }
 
-	const totalDays = Math.floor((maxTs - minTs) / 86400000) + 1
+	const days = sortedTracks.map(t => getDayKey(new Date(t.date), timeZone, dayStartHour))
 
 	// Compute statistical outlier threshold for this track type
 	const stats = computeDeltaStatistics(sortedTracks)
@@ -67,102 +83,20 @@ export function computeCoverageStats (tracks: Track[]): CoverageStats {
 	// Also enforce a minimum of 7 days to avoid false positives on daily tracking
 	const outlierThreshold = Math.max(7, Math.min(stats.mean + 7 * stats.stdDev, stats.q95 * 5))
 
-	// Identify gap periods based on extreme delta outliers
+	// Identify gap periods based on extreme delta outliers, each gap covers the whole days between two tracks
 	const periods: TrackingPeriod[] = []
-
-	for (let i = 0; i < sortedTracks.length; i++) {
-		const trackDate = new Date(sortedTracks[i].date)
-
-		if (i === 0) {
-			// First track starts an active period
-			continue
-		}
-
-		const prevDate = new Date(sortedTracks[i - 1].date)
-		const deltaDays = (trackDate.getTime() - prevDate.getTime()) / (1000 * 60 * 60 * 24)
-
-		// If this delta is an extreme outlier, mark the gap
+	let activeStart = 0
+	for (let i = 1; i < sortedTracks.length; i++) {
+		const deltaDays = (new Date(sortedTracks[i].date).getTime() - new Date(sortedTracks[i - 1].date).getTime()) / (1000 * 60 * 60 * 24)
 		if (deltaDays > outlierThreshold) {
-			// Add active period before the gap (if not already added)
-			if (periods.length === 0 || periods[periods.length - 1].isGap) {
-				const activePeriodStart = periods.length === 0 ? dates[0] : new Date(periods[periods.length - 1].endDate.getTime() + 86400000)
-				periods.push({
-					startDate: activePeriodStart,
-					endDate: prevDate,
-					dayCount: Math.floor((prevDate.getTime() - activePeriodStart.getTime()) / 86400000) + 1,
-					eventCount: sortedTracks.filter(t => {
-						const d = new Date(t.date)
-						return d >= activePeriodStart && d <= prevDate
-					}).length,
-					isGap: false
-				})
-			} else {
-				// Update the end date of the last active period
-				periods[periods.length - 1].endDate = prevDate
-				periods[periods.length - 1].dayCount = Math.floor((prevDate.getTime() - periods[periods.length - 1].startDate.getTime()) / 86400000) + 1
-				periods[periods.length - 1].eventCount = sortedTracks.filter(t => {
-					const d = new Date(t.date)
-					return d >= periods[periods.length - 1].startDate && d <= prevDate
-				}).length
-			}
-
-			// Add the gap period
-			const gapStart = new Date(prevDate.getTime() + 86400000)
-			const gapEnd = new Date(trackDate.getTime() - 86400000)
-			periods.push({
-				startDate: gapStart,
-				endDate: gapEnd,
-				dayCount: Math.floor((gapEnd.getTime() - gapStart.getTime()) / 86400000) + 1,
-				eventCount: 0,
-				isGap: true
-			})
+			periods.push(createPeriod(days[activeStart], days[i - 1], i - activeStart, false, timeZone, dayStartHour))
+			periods.push(createPeriod(shiftDayKey(days[i - 1], 1), shiftDayKey(days[i], -1), 0, true, timeZone, dayStartHour))
+			activeStart = i
 		}
 	}
+	periods.push(createPeriod(days[activeStart], days[days.length - 1], days.length - activeStart, false, timeZone, dayStartHour))
 
-	// Add final active period
-	if (periods.length === 0) {
-		// No gaps detected - entire range is active
-		periods.push({
-			startDate: dates[0],
-			endDate: dates[dates.length - 1],
-			dayCount: totalDays,
-			eventCount: sortedTracks.length,
-			isGap: false
-		})
-	} else if (periods[periods.length - 1].isGap) {
-		// Last period was a gap, add final active period
-		const lastGapEnd = periods[periods.length - 1].endDate
-		const finalStart = new Date(lastGapEnd.getTime() + 86400000)
-		periods.push({
-			startDate: finalStart,
-			endDate: dates[dates.length - 1],
-			dayCount: Math.floor((dates[dates.length - 1].getTime() - finalStart.getTime()) / 86400000) + 1,
-			eventCount: sortedTracks.filter(t => {
-				const d = new Date(t.date)
-				return d >= finalStart
-			}).length,
-			isGap: false
-		})
-	} else {
-		// Extend last active period to the end
-		periods[periods.length - 1].endDate = dates[dates.length - 1]
-		periods[periods.length - 1].dayCount = Math.floor((dates[dates.length - 1].getTime() - periods[periods.length - 1].startDate.getTime()) / 86400000) + 1
-		periods[periods.length - 1].eventCount = sortedTracks.filter(t => {
-			const d = new Date(t.date)
-			return d >= periods[periods.length - 1].startDate
-		}).length
-	}
-
-	const activeDays = periods.filter(p => !p.isGap).reduce((sum, p) => sum + p.dayCount, 0)
-	const gapDays = periods.filter(p => p.isGap).reduce((sum, p) => sum + p.dayCount, 0)
-
-	return {
-		totalDays,
-		activeDays,
-		gapDays,
-		coveragePercent: totalDays > 0 ? (activeDays / totalDays) * 100 : 0,
-		periods
-	}
+	return summarizePeriods(periods)
 }
 
 export function getActivePeriodTracks (tracks: Track[], coverage: CoverageStats): Track[] {
@@ -172,9 +106,27 @@ export function getActivePeriodTracks (tracks: Track[], coverage: CoverageStats)
 		const date = new Date(track.date)
 		if (isNaN(date.getTime())) { return false }
 
-		return activePeriods.some(period => {
-			const endExclusive = new Date(period.endDate.getTime() + 86400000)
-			return date >= period.startDate && date < endExclusive
-		})
+		return activePeriods.some(period => date >= period.startDate && date < period.endDate)
 	})
 }
+
+// Restricts the periods to the days of a subset of the tracks, e.g. a zoomed date range, so that gaps outside
+// the subset do not stretch the time axes of the charts
+export function clipCoverageStats (coverage: CoverageStats, tracks: ProcessedTrack[], timeZone: string, dayStartHour = 0): CoverageStats {
+	if (tracks.length === 0) { return EMPTY_COVERAGE }
+
+	// Day keys are zero-padded, so string comparison orders them chronologically
+	const dayKeys = tracks.map(t => t.dayKey)
+	const firstDay = dayKeys.reduce((a, b) => a < b ? a : b)
+	const lastDay = dayKeys.reduce((a, b) => a > b ? a : b)
+	const periods = coverage.periods
+		.filter(period => period.startDay <= lastDay && period.endDay >= firstDay)
+		.map(period => {
+			const startDay = period.startDay > firstDay ? period.startDay : firstDay
+			const endDay = period.endDay < lastDay ? period.endDay : lastDay
+			const eventCount = period.isGap ? 0 : dayKeys.filter(key => key >= startDay && key <= endDay).length
+			return createPeriod(startDay, endDay, eventCount, period.isGap, timeZone, dayStartHour)
+		})
+
+	return summarizePeriods(periods)
+}
@@ -1,5 +1,6 @@
 import type { CoverageStats } from '../../types/Insights'
 import type { Track } from '../../types/Track'
+import { getBrowserTimeZone } from '../timezone'
 
 import { computeCoverageStats } from './coverageAnalysis'
 import { timeRescalingDiagnostic } from './diagnostics'
@@ -35,6 +36,8 @@ export async function computeContinuousInsights (
 		minStrength?: number
 		maxInsights?: number
 		translations?: Record<string, string>
+		timeZone?: string
+		dayStartHour?: number
 	} = {},
 	onProgress?: ProgressCallback
 ): Promise<ContinuousInsightsResult> {
@@ -45,12 +48,14 @@ export async function computeContinuousInsights (
 		lambda1 = 0.01,
 		lambda2 = 0.001,
 		minStrength = 0.1,
-		maxInsights = 20
+		maxInsights = 20,
+		timeZone = getBrowserTimeZone(),
+		dayStartHour = 0
 	} = options
 
 	onProgress?.('Analyzing coverage', 5, 'Computing observation windows')
 
-	const coverage = computeCoverageStats(tracks)
+	const coverage = computeCoverageStats(tracks, timeZone, dayStartHour)
 	const windows = coverageToWindows(coverage)
 
 	if (windows.length === 0) {
@@ -1,4 +1,5 @@
 import type { Track } from '../../types/Track'
+import { getBrowserTimeZone } from '../timezone'
 
 import { computeCoverageStats } from './coverageAnalysis'
 import { timeRescalingDiagnostic } from './diagnostics'
@@ -43,12 +44,14 @@ async function runAnalysis (tracks: Track[], options: WorkerOptions): Promise<vo
 			lambda1 = 0.01,
 			lambda2 = 0.001,
 			minStrength = 0.1,
-			maxInsights = 20
+			maxInsights = 20,
+			timeZone = getBrowserTimeZone(),
+			dayStartHour = 0
 		} = options
 
 		postProgress('Analyzing coverage', 5, 'Computing observation windows')
 
-		const coverage = computeCoverageStats(tracks)
+		const coverage = computeCoverageStats(tracks, timeZone, dayStartHour)
 		const windows = coverageToWindows(coverage)
 
 		if (windows.length === 0) {
@@ -18,7 +18,7 @@ export function coverageToWindows (coverage: CoverageStats, minGapMs: number = 6
 
 	const raw: ObservationWindow[] = activePeriods.map(p => ({
 		startMs: p.startDate.getTime(),
-		endMs: p.endDate.getTime() + 24 * 60 * 60 * 1000
+		endMs: p.endDate.getTime()
 	}))
 
 	raw.sort((a, b) => a.startMs - b.startMs)
@@ -65,6 +65,9 @@ export interface WorkerOptions {
 	minStrength?: number
 	maxInsights?: number
 	translations?: Record<string, string>
+	// Coverage periods are bucketed into days like the charts
+	timeZone?: string
+	dayStartHour?: number
 }
 
 export type WorkerRequestMessage =
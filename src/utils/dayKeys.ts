@@ -0,0 +1,88 @@
+import { getZonedParts, zonedWallClockToDate } from '@/utils/timezone'
+
+// Inclusive calendar days as YYYY-MM-DD in the chosen timezone, '' leaves that side open
+export interface DateRange {
+	from: string
+	to: string
+}
+
+export function toDayKey (year: number, month: number, day: number): string {
+	// Date.UTC normalises overflowing months and days, e.g. month 0 or day 0
+	const date = new Date(Date.UTC(year, month - 1, day))
+	return `${date.getUTCFullYear().toString().padStart(4, '0')}-${(date.getUTCMonth() + 1).toString().padStart(2, '0')}-${date.getUTCDate().toString().padStart(2, '0')}`
+}
+
+export function parseDayKey (key: string): { year: number, month: number, day: number } {
+	const [year, month, day] = key.split('-').map(Number)
+	return { year, month, day }
+}
+
+export function shiftDayKey (key: string, days: number): string {
+	const { year, month, day } = parseDayKey(key)
+	return toDayKey(year, month, day + days)
+}
+
+// Whole calendar days from one key to another, negative when to is earlier
+export function getDaysBetween (from: string, to: string): number {
+	const a = parseDayKey(from)
+	const b = parseDayKey(to)
+	return Math.round((Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / 86400000)
+}
+
+// Monday-based like getZonedParts
+export function getDayKeyWeekday (key: string): number {
+	const { year, month, day } = parseDayKey(key)
+	return (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7
+}
+
+// Formats the calendar day itself, a time zone would move some keys to the day before
+export function formatDayKey (key: string, locale?: string, options: Intl.DateTimeFormatOptions = {}): string {
+	const { year, month, day } = parseDayKey(key)
+	return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString(locale, { ...options, timeZone: 'UTC' })
+}
+
+export interface ZonedDay {
+	key: string
+	// Monday-based weekday of the day in key
+	weekday: number
+	// Since the start of that day, 0 up to 24 with minutes as a fraction
+	hoursIntoDay: number
+}
+
+// The day a moment counts towards. Before dayStartHour it still belongs to the previous calendar day, so that a
+// track at 02:00 lands on the evening it ends for someone whose day starts at 04:00
+export function getZonedDay (date: Date, timeZone: string, dayStartHour = 0): ZonedDay {
+	const parts = getZonedParts(date, timeZone)
+	const beforeStart = parts.hour < dayStartHour
+	return {
+		key: toDayKey(parts.year, parts.month, beforeStart ? parts.day - 1 : parts.day),
+		weekday: beforeStart ? (parts.weekday + 6) % 7 : parts.weekday,
+		hoursIntoDay: parts.hour + parts.minute / 60 - dayStartHour + (beforeStart ? 24 : 0)
+	}
+}
+
+export function getDayKey (date: Date, timeZone: string, dayStartHour = 0): string {
+	return getZonedDay(date, timeZone, dayStartHour).key
+}
+
+// The moment the day in key begins
+export function getDayStart (key: string, timeZone: string, dayStartHour = 0): Date {
+	return zonedWallClockToDate({ ...parseDayKey(key), hour: dayStartHour, minute: 0, second: 0 }, timeZone).date
+}
+
+export function isInDateRange (date: Date, range: DateRange, timeZone: string, dayStartHour = 0): boolean {
+	if (range.from === '' && range.to === '') { return true }
+	// Day keys are zero-padded, so string comparison orders them chronologically
+	const key = getDayKey(date, timeZone, dayStartHour)
+	return (range.from === '' || key >= range.from) && (range.to === '' || key <= range.to)
+}
+
+// Start and exclusive end in epoch milliseconds, open sides are infinite. Comparing timestamps is much cheaper
+// than isInDateRange when filtering many tracks, which formats every date in the timezone
+export function getDateRangeBounds (range: DateRange, timeZone: string, dayStartHour = 0): { start: number, end: number } {
+	return {
+		start: range.from !== '' ? getDayStart(range.from, timeZone, dayStartHour).getTime() : -Infinity,
+		end: range.to !== '' ? getDayStart(shiftDayKey(range.to, 1), timeZone, dayStartHour).getTime() : Infinity
+	}
+}
+
@@ -0,0 +1,158 @@
+import type { Track } from '@/types/Track'
+import { computeCoverageStats } from '@/utils/continuous/coverageAnalysis'
+import { getDayKey, isInDateRange, shiftDayKey, type DateRange } from '@/utils/dayKeys'
+import { escapeCsvField } from '@/utils/export/formats'
+
+export type AggregationPeriod = 'day' | 'week' | 'month'
+
+export const AGGREGATION_PERIODS: Array<{ value: AggregationPeriod, label: string }> = [
+	{ value: 'day', label: 'Day' },
+	{ value: 'week', label: 'ISO Week' },
+	{ value: 'month', label: 'Month' }
+]
+
+export interface PivotRow {
+	period: string
+	startDay: string
+	endDay: string
+	// null marks a period that falls inside a coverage gap for that type
+	counts: Array<number | null>
+}
+
+export interface PivotTable {
+	period: AggregationPeriod
+	trackNames: string[]
+	rows: PivotRow[]
+}
+
+const DAY_MS = 86400000
+
+function dayKeyToUtc (dayKey: string): number {
+	const [year, month, day] = dayKey.split('-').map(Number)
+	return Date.UTC(year, month - 1, day)
+}
+
+function utcToDayKey (time: number): string {
+	return new Date(time).toISOString().slice(0, 10)
+}
+
+function getIsoWeek (time: number): { year: number, week: number } {
+	const date = new Date(time)
+	const weekday = (date.getUTCDay() + 6) % 7
+	// The ISO week belongs to the year containing its Thursday
+	const thursday = new Date(time + (3 - weekday) * DAY_MS)
+	const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1)
+	return {
+		year: thursday.getUTCFullYear(),
+		week: Math.floor((thursday.getTime() - yearStart) / DAY_MS / 7) + 1
+	}
+}
+
+function getPeriodBounds (dayKey: string, period: AggregationPeriod): { period: string, startDay: string, endDay: string } {
+	const time = dayKeyToUtc(dayKey)
+	if (period === 'day') {
+		return { period: dayKey, startDay: dayKey, endDay: dayKey }
+	}
+	if (period === 'week') {
+		const weekday = (new Date(time).getUTCDay() + 6) % 7
+		const { year, week } = getIsoWeek(time)
+		return {
+			period: `${year}-W${week.toString().padStart(2, '0')}`,
+			startDay: utcToDayKey(time - weekday * DAY_MS),
+			endDay: utcToDayKey(time + (6 - weekday) * DAY_MS)
+		}
+	}
+	const date = new Date(time)
+	return {
+		period: dayKey.slice(0, 7),
+		startDay: utcToDayKey(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+		endDay: utcToDayKey(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0))
+	}
+}
+
+// Day ranges per type that were not tracked: detected gaps plus everything before the first event
+function getUntrackedRanges (tracks: Track[], timeZone: string, dayStartHour: number): Array<{ from: string, to: string }> {
+	const coverage = computeCoverageStats(tracks, timeZone, dayStartHour)
+	if (coverage.periods.length === 0) { return [] }
+
+	const ranges = [{ from: '0000-01-01', to: shiftDayKey(coverage.periods[0].startDay, -1) }]
+	for (const period of coverage.periods) {
+		if (period.isGap) {
+			ranges.push({ from: period.startDay, to: period.endDay })
+		}
+	}
+	return ranges
+}
+
+export function buildPivotTable (
+	tracks: Track[],
+	trackNames: string[],
+	{ period, timeZone, dayStartHour, range }: { period: AggregationPeriod, timeZone: string, dayStartHour: number, range: DateRange }
+): PivotTable {
+	// Days are bucketed as in the charts, so the exported daily counts match them
+	const inRange = tracks.filter(t => trackNames.includes(t.trackName) && isInDateRange(new Date(t.date), range, timeZone, dayStartHour))
+	const dayKeys = inRange.map(t => getDayKey(new Date(t.date), timeZone, dayStartHour)).sort()
+
+	const firstDay = range.from !== '' ? range.from : dayKeys[0]
+	const lastDay = range.to !== '' ? range.to : dayKeys[dayKeys.length - 1]
+	if (firstDay === undefined || lastDay === undefined) {
+		return { period, trackNames, rows: [] }
+	}
+
+	const counts = new Map<string, number[]>()
+	for (const track of inRange) {
+		const key = getPeriodBounds(getDayKey(new Date(track.date), timeZone, dayStartHour), period).period
+		const row = counts.get(key) ?? trackNames.map(() => 0)
+		row[trackNames.indexOf(track.trackName)]++
+		counts.set(key, row)
+	}
+
+	// Coverage is judged on each type's full history so range edges do not look like gaps
+	const untracked = trackNames.map(name => getUntrackedRanges(tracks.filter(t => t.trackName === name), timeZone, dayStartHour))
+
+	const rows: PivotRow[] = []
+	let cursor = firstDay
+	while (cursor <= lastDay) {
+		const bounds = getPeriodBounds(cursor, period)
+		// Partial periods at the edges of the range only count the days inside it
+		const startDay = bounds.startDay < firstDay ? firstDay : bounds.startDay
+		const endDay = bounds.endDay > lastDay ? lastDay : bounds.endDay
+		const periodCounts = counts.get(bounds.period) ?? trackNames.map(() => 0)
+
+		rows.push({
+			period: bounds.period,
+			startDay,
+			endDay,
+			counts: periodCounts.map((count, index) =>
+				count === 0 && untracked[index].some(r => r.from <= startDay && endDay <= r.to) ? null : count
+			)
+		})
+		cursor = utcToDayKey(dayKeyToUtc(bounds.endDay) + DAY_MS)
+	}
+
+	return { period, trackNames, rows }
+}
+
+export function pivotToCsv (pivot: PivotTable, getLabel: (trackName: string) => string = name => name): string {
+	const header = ['period', 'start', 'end', ...pivot.trackNames.map(getLabel)].map(escapeCsvField).join(',')
+	const lines = pivot.rows.map(row => [
+		row.period,
+		row.startDay,
+		row.endDay,
+		...row.counts.map(count => count === null ? '' : count.toString())
+	].join(','))
+	return [header, ...lines].join('\r\n')
+}
+
+export function pivotToJson (pivot: PivotTable, getLabel: (trackName: string) => string = name => name): string {
+	return JSON.stringify({
+		period: pivot.period,
+		columns: pivot.trackNames.map(getLabel),
+		rows: pivot.rows.map(row => ({
+			period: row.period,
+			start: row.startDay,
+			end: row.endDay,
+			counts: Object.fromEntries(pivot.trackNames.map((name, index) => [getLabel(name), row.counts[index]]))
+		}))
+	}, null, '\t')
+}
@@ -0,0 +1,62 @@
+import { getDayKey, parseDayKey, toDayKey, type DateRange } from '@/utils/dayKeys'
+
+export type DateRangePresetId =
+	| 'all'
+	| 'last-7-days'
+	| 'last-30-days'
+	| 'last-90-days'
+	| 'this-month'
+	| 'last-month'
+	| 'this-quarter'
+	| 'last-quarter'
+	| 'this-year'
+	| 'last-year'
+
+export const DATE_RANGE_PRESETS: Array<{ id: DateRangePresetId, label: string }> = [
+	{ id: 'all', label: 'All time' },
+	{ id: 'last-7-days', label: 'Last 7 days' },
+	{ id: 'last-30-days', label: 'Last 30 days' },
+	{ id: 'last-90-days', label: 'Last 90 days' },
+	{ id: 'this-month', label: 'This month' },
+	{ id: 'last-month', label: 'Last month' },
+	{ id: 'this-quarter', label: 'This quarter' },
+	{ id: 'last-quarter', label: 'Last quarter' },
+	{ id: 'this-year', label: 'This year' },
+	{ id: 'last-year', label: 'Last year' }
+]
+
+// Before the day start hour it is still the previous day, the presets end on the day that is still running
+export function getPresetRange (preset: DateRangePresetId, now: Date, timeZone: string, dayStartHour = 0): DateRange {
+	const today = getDayKey(now, timeZone, dayStartHour)
+	const { year, month, day } = parseDayKey(today)
+	const quarterStart = Math.floor((month - 1) / 3) * 3 + 1
+
+	switch (preset) {
+		case 'all':
+			return { from: '', to: '' }
+		case 'last-7-days':
+			return { from: toDayKey(year, month, day - 6), to: today }
+		case 'last-30-days':
+			return { from: toDayKey(year, month, day - 29), to: today }
+		case 'last-90-days':
+			return { from: toDayKey(year, month, day - 89), to: today }
+		case 'this-month':
+			return { from: toDayKey(year, month, 1), to: today }
+		case 'last-month':
+			return { from: toDayKey(year, month - 1, 1), to: toDayKey(year, month, 0) }
+		case 'this-quarter':
+			return { from: toDayKey(year, quarterStart, 1), to: today }
+		case 'last-quarter':
+			return { from: toDayKey(year, quarterStart - 3, 1), to: toDayKey(year, quarterStart, 0) }
+		case 'this-year':
+			return { from: toDayKey(year, 1, 1), to: today }
+		case 'last-year':
+			return { from: toDayKey(year - 1, 1, 1), to: toDayKey(year - 1, 12, 31) }
+	}
+}
+
+export function describeDateRange (range: DateRange): string {
+	if (range.from === '' && range.to === '') { return 'all-time' }
+	if (range.from === range.to) { return range.from }
+	return `${range.from !== '' ? range.from : 'start'}_to_${range.to !== '' ? range.to : 'now'}`
+}
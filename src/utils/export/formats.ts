@@ -0,0 +1,109 @@
+import type { Track } from '@/types/Track'
+import { getZonedParts } from '@/utils/timezone'
+
+export interface ExportOptions {
+	timeZone: string
+	// When set, a display name column/field is added alongside the raw track name
+	translations?: Record<string, string>
+}
+
+const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+
+function pad (value: number, length = 2): string {
+	return value.toString().padStart(length, '0')
+}
+
+export function escapeCsvField (value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function toCsv (tracks: Track[], { timeZone, translations }: ExportOptions): string {
+	const headers = ['trackName']
+	if (translations !== undefined) { headers.push('displayName') }
+	headers.push('date', 'localDate', 'localTime', 'weekday')
+
+	const lines = tracks.map(track => {
+		const parts = getZonedParts(new Date(track.date), timeZone)
+		const fields = [track.trackName]
+		if (translations !== undefined) { fields.push(translations[track.trackName] ?? track.trackName) }
+		fields.push(
+			new Date(track.date).toISOString(),
+			`${pad(parts.year, 4)}-${pad(parts.month)}-${pad(parts.day)}`,
+			`${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}`,
+			WEEKDAY_NAMES[parts.weekday]
+		)
+		return fields.map(escapeCsvField).join(',')
+	})
+
+	return [headers.join(','), ...lines].join('\r\n')
+}
+
+export function toNdjson (tracks: Track[], { translations }: ExportOptions): string {
+	return tracks
+		.map(track => JSON.stringify(translations !== undefined
+			? { ...track, displayName: translations[track.trackName] ?? track.trackName }
+			: track))
+		.join('\n')
+}
+
+function formatICalendarDate (date: Date): string {
+	return `${pad(date.getUTCFullYear(), 4)}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+}
+
+function escapeICalendarText (value: string): string {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\;')
+		.replace(/,/g, '\\,')
+		.replace(/\r?\n/g, '\\n')
+}
+
+// RFC 5545 limits content lines to 75 octets, continuations start with a space
+function foldLine (line: string): string {
+	const encoder = new TextEncoder()
+	const chunks: string[] = []
+	let current = ''
+	let currentBytes = 0
+	for (const char of line) {
+		const bytes = encoder.encode(char).length
+		const limit = chunks.length === 0 ? 75 : 74
+		if (currentBytes + bytes > limit) {
+			chunks.push(current)
+			current = ''
+			currentBytes = 0
+		}
+		current += char
+		currentBytes += bytes
+	}
+	chunks.push(current)
+	return chunks.join('\r\n ')
+}
+
+export function toICalendar (tracks: Track[], { translations }: ExportOptions): string {
+	const stamp = formatICalendarDate(new Date())
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		'PRODID:-//Life Tracker//Track Export//EN',
+		'CALSCALE:GREGORIAN'
+	]
+
+	for (const track of tracks) {
+		const start = formatICalendarDate(new Date(track.date))
+		const summary = translations?.[track.trackName] ?? track.trackName
+		lines.push(
+			'BEGIN:VEVENT',
+			`UID:${track._id}@life-tracker`,
+			`DTSTAMP:${stamp}`,
+			`DTSTART:${start}`,
+			`DTEND:${start}`,
+			`SUMMARY:${escapeICalendarText(summary)}`,
+			`CATEGORIES:${escapeICalendarText(track.trackName)}`,
+			'TRANSP:TRANSPARENT',
+			'END:VEVENT'
+		)
+	}
+
+	lines.push('END:VCALENDAR')
+	return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,88 @@
+export type Delimiter = ',' | ';' | '\t'
+
+export interface DelimitedTable {
+	delimiter: Delimiter
+	headers: string[]
+	rows: string[][]
+}
+
+const CANDIDATE_DELIMITERS: Delimiter[] = ['\t', ',', ';']
+
+function splitRecords (text: string, delimiter: Delimiter): string[][] {
+	const records: string[][] = []
+	let record: string[] = []
+	let field = ''
+	let inQuotes = false
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i]
+
+		if (inQuotes) {
+			if (char === '"') {
+				if (text[i + 1] === '"') {
+					field += '"'
+					i++
+				} else {
+					inQuotes = false
+				}
+			} else {
+				field += char
+			}
+			continue
+		}
+
+		if (char === '"' && field === '') {
+			inQuotes = true
+		} else if (char === delimiter) {
+			record.push(field)
+			field = ''
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') { i++ }
+			record.push(field)
+			records.push(record)
+			record = []
+			field = ''
+		} else {
+			field += char
+		}
+	}
+
+	if (field !== '' || record.length > 0) {
+		record.push(field)
+		records.push(record)
+	}
+
+	return records.filter(r => r.some(value => value.trim() !== ''))
+}
+
+export function detectDelimiter (text: string, fileName?: string): Delimiter {
+	if (fileName?.toLowerCase().endsWith('.tsv') === true) { return '\t' }
+
+	const firstLine = text.split(/\r?\n/).find(line => line.trim() !== '') ?? ''
+	let best: Delimiter = ','
+	let bestCount = 0
+	for (const delimiter of CANDIDATE_DELIMITERS) {
+		const count = firstLine.split(delimiter).length - 1
+		if (count > bestCount) {
+			best = delimiter
+			bestCount = count
+		}
+	}
+	return best
+}
+
+export function parseDelimited (text: string, delimiter: Delimiter = detectDelimiter(text)): DelimitedTable {
+	const records = splitRecords(text.replace(/^\uFEFF/, ''), delimiter)
+	if (records.length === 0) {
+		return { delimiter, headers: [], rows: [] }
+	}
+
+	const [headerRow, ...rows] = records
+	const headers = headerRow.map((header, index) => header.trim() || `Column ${index + 1}`)
+
+	return {
+		delimiter,
+		headers,
+		rows: rows.map(row => headers.map((_, index) => (row[index] ?? '').trim()))
+	}
+}
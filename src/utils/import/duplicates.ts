@@ -0,0 +1,61 @@
+export interface DuplicateMatch {
+	index: number
+	incoming: Date
+	existing: Date
+	deltaMs: number
+}
+
+export const DUPLICATE_TOLERANCES: Array<{ label: string, ms: number }> = [
+	{ label: 'Exact match', ms: 0 },
+	{ label: '± 1 second', ms: 1000 },
+	{ label: '± 1 minute', ms: 60 * 1000 },
+	{ label: '± 5 minutes', ms: 5 * 60 * 1000 },
+	{ label: '± 15 minutes', ms: 15 * 60 * 1000 },
+	{ label: '± 1 hour', ms: 60 * 60 * 1000 }
+]
+
+function nearestIndex (sorted: number[], target: number): number {
+	let lo = 0
+	let hi = sorted.length - 1
+	while (lo < hi) {
+		const mid = (lo + hi) >> 1
+		if (sorted[mid] < target) {
+			lo = mid + 1
+		} else {
+			hi = mid
+		}
+	}
+	if (lo > 0 && Math.abs(sorted[lo - 1] - target) <= Math.abs(sorted[lo] - target)) {
+		return lo - 1
+	}
+	return lo
+}
+
+// Pairs each incoming timestamp with the closest existing one inside the tolerance
+export function findDuplicates (incoming: Date[], existing: Date[], toleranceMs: number): DuplicateMatch[] {
+	const sortedExisting = existing
+		.map(d => d.getTime())
+		.filter(t => !isNaN(t))
+		.sort((a, b) => a - b)
+	if (sortedExisting.length === 0) { return [] }
+
+	const matches: DuplicateMatch[] = []
+	incoming.forEach((date, index) => {
+		const time = date.getTime()
+		const nearest = sortedExisting[nearestIndex(sortedExisting, time)]
+		const deltaMs = time - nearest
+		if (Math.abs(deltaMs) <= toleranceMs) {
+			matches.push({ index, incoming: date, existing: new Date(nearest), deltaMs })
+		}
+	})
+	return matches
+}
+
+export function formatDelta (deltaMs: number): string {
+	if (deltaMs === 0) { return 'identical' }
+	const sign = deltaMs > 0 ? '+' : '−'
+	const abs = Math.abs(deltaMs)
+	if (abs < 60 * 1000) { return `${sign}${Math.round(abs / 1000)}s` }
+	if (abs < 60 * 60 * 1000) { return `${sign}${Math.round(abs / 60000)}min` }
+	return `${sign}${(abs / 3600000).toFixed(1)}h`
+}
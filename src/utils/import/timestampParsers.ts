@@ -0,0 +1,288 @@
+import { zonedWallClockToDate, type WallClockParts, type ZonedConversion } from '@/utils/timezone'
+
+export type { WallClockParts }
+
+// Wall-clock readings still need a timezone, instants are already absolute
+export type ParsedTimestamp =
+	| { kind: 'wall'; parts: WallClockParts; clock: '24h' | '12h' | 'none' }
+	| { kind: 'instant'; date: Date }
+
+export interface TimestampParser {
+	id: string
+	label: string
+	example: string
+	parse: (input: string) => ParsedTimestamp | null
+}
+
+export interface TimestampCandidate {
+	parser: TimestampParser
+	parsed: ParsedTimestamp
+}
+
+export interface LineDetection {
+	line: string
+	candidates: TimestampCandidate[]
+	chosen: TimestampCandidate | null
+	ambiguous: boolean
+}
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*([AaPp])\.?[Mm]\.?)?$/
+
+function parseTimeOfDay (input: string | undefined): { hour: number, minute: number, second: number, clock: '24h' | '12h' | 'none' } | null {
+	if (input === undefined || input.trim() === '') {
+		return { hour: 0, minute: 0, second: 0, clock: 'none' }
+	}
+
+	const match = input.trim().match(TIME_PATTERN)
+	if (!match) {
+		return null
+	}
+
+	const [, hours, minutes, seconds, meridiem] = match
+	let hour = parseInt(hours)
+	const minute = parseInt(minutes)
+	const second = seconds !== undefined ? parseInt(seconds) : 0
+
+	if (minute > 59 || second > 59) {
+		return null
+	}
+
+	if (meridiem !== undefined) {
+		if (hour < 1 || hour > 12) {
+			return null
+		}
+		const isPm = meridiem.toLowerCase() === 'p'
+		hour = hour % 12 + (isPm ? 12 : 0)
+		return { hour, minute, second, clock: '12h' }
+	}
+
+	if (hour > 23) {
+		return null
+	}
+
+	return { hour, minute, second, clock: '24h' }
+}
+
+function isValidCalendarDate (year: number, month: number, day: number): boolean {
+	if (month < 1 || month > 12 || day < 1) {
+		return false
+	}
+	const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+	return day <= daysInMonth
+}
+
+function buildWallClock (year: number, month: number, day: number, time: string | undefined): ParsedTimestamp | null {
+	if (!isValidCalendarDate(year, month, day)) {
+		return null
+	}
+	const timeOfDay = parseTimeOfDay(time)
+	if (timeOfDay === null) {
+		return null
+	}
+	return {
+		kind: 'wall',
+		parts: { year, month, day, hour: timeOfDay.hour, minute: timeOfDay.minute, second: timeOfDay.second },
+		clock: timeOfDay.clock
+	}
+}
+
+const SLASH_DATE_PATTERN = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[\s,]+(.+))?$/
+
+const iso8601Parser: TimestampParser = {
+	id: 'iso8601',
+	label: 'ISO 8601',
+	example: '2021-01-12T08:51:00Z',
+	parse: (input) => {
+		const match = input.trim().match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/)
+		if (!match) {
+			return null
+		}
+
+		const [, year, month, day, hours, minutes, seconds, offset] = match
+		if (offset === undefined) {
+			return buildWallClock(parseInt(year), parseInt(month), parseInt(day), `${hours}:${minutes}:${seconds ?? '00'}`)
+		}
+
+		const date = new Date(input.trim())
+		if (isNaN(date.getTime())) {
+			return null
+		}
+		return { kind: 'instant', date }
+	}
+}
+
+const unixSecondsParser: TimestampParser = {
+	id: 'unix-seconds',
+	label: 'Unix seconds',
+	example: '1610441460',
+	parse: (input) => {
+		const match = input.trim().match(/^\d{9,11}(?:\.\d+)?$/)
+		if (!match) {
+			return null
+		}
+		return { kind: 'instant', date: new Date(Math.round(parseFloat(input.trim()) * 1000)) }
+	}
+}
+
+const unixMillisParser: TimestampParser = {
+	id: 'unix-millis',
+	label: 'Unix milliseconds',
+	example: '1610441460000',
+	parse: (input) => {
+		const match = input.trim().match(/^\d{12,14}$/)
+		if (!match) {
+			return null
+		}
+		return { kind: 'instant', date: new Date(parseInt(input.trim())) }
+	}
+}
+
+const dayFirstParser: TimestampParser = {
+	id: 'dmy',
+	label: 'DD/MM/YYYY',
+	example: '12/01/2021 08:51:00',
+	parse: (input) => {
+		const match = input.trim().match(SLASH_DATE_PATTERN)
+		if (!match) {
+			return null
+		}
+		const [, day, month, year, time] = match
+		return buildWallClock(parseInt(year), parseInt(month), parseInt(day), time)
+	}
+}
+
+const monthFirstParser: TimestampParser = {
+	id: 'mdy',
+	label: 'MM/DD/YYYY',
+	example: '01/12/2021 8:51 AM',
+	parse: (input) => {
+		const match = input.trim().match(SLASH_DATE_PATTERN)
+		if (!match) {
+			return null
+		}
+		const [, month, day, year, time] = match
+		return buildWallClock(parseInt(year), parseInt(month), parseInt(day), time)
+	}
+}
+
+const yearFirstParser: TimestampParser = {
+	id: 'ymd',
+	label: 'YYYY-MM-DD',
+	example: '2021-01-12 08:51',
+	parse: (input) => {
+		const match = input.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[\s,]+(.+))?$/)
+		if (!match) {
+			return null
+		}
+		const [, year, month, day, time] = match
+		return buildWallClock(parseInt(year), parseInt(month), parseInt(day), time)
+	}
+}
+
+// Order matters: when a line stays ambiguous, the earliest parser wins
+const registry: TimestampParser[] = [
+	iso8601Parser,
+	unixMillisParser,
+	unixSecondsParser,
+	yearFirstParser,
+	dayFirstParser,
+	monthFirstParser
+]
+
+export function registerTimestampParser (parser: TimestampParser): void {
+	const existing = registry.findIndex(p => p.id === parser.id)
+	if (existing !== -1) {
+		registry[existing] = parser
+	} else {
+		registry.push(parser)
+	}
+}
+
+export function getTimestampParsers (): TimestampParser[] {
+	return [...registry]
+}
+
+export function getTimestampParser (id: string): TimestampParser | undefined {
+	return registry.find(p => p.id === id)
+}
+
+export function describeCandidate (candidate: TimestampCandidate): string {
+	if (candidate.parsed.kind === 'wall') {
+		if (candidate.parsed.clock === '12h') { return `${candidate.parser.label} (12-hour)` }
+		if (candidate.parsed.clock === 'none') { return `${candidate.parser.label} (date only)` }
+	}
+	return candidate.parser.label
+}
+
+export function wallClockToLocalDate (parts: WallClockParts): Date {
+	return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+}
+
+// Without a timezone, wall-clock readings fall back to the browser's local zone
+export function resolveTimestamp (parsed: ParsedTimestamp, timeZone?: string): ZonedConversion {
+	if (parsed.kind === 'instant') {
+		return { date: parsed.date, issue: null }
+	}
+	if (timeZone === undefined) {
+		return { date: wallClockToLocalDate(parsed.parts), issue: null }
+	}
+	return zonedWallClockToDate(parsed.parts, timeZone)
+}
+
+export function parsedTimestampToDate (parsed: ParsedTimestamp, timeZone?: string): Date {
+	return resolveTimestamp(parsed, timeZone).date
+}
+
+function sameResult (a: ParsedTimestamp, b: ParsedTimestamp): boolean {
+	return parsedTimestampToDate(a).getTime() === parsedTimestampToDate(b).getTime()
+}
+
+function findCandidates (line: string, parsers: TimestampParser[]): { candidates: TimestampCandidate[], matchCount: number } {
+	const candidates: TimestampCandidate[] = []
+	let matchCount = 0
+	for (const parser of parsers) {
+		const parsed = parser.parse(line)
+		if (parsed === null) { continue }
+		matchCount++
+		if (!candidates.some(c => sameResult(c.parsed, parsed))) {
+			candidates.push({ parser, parsed })
+		}
+	}
+	return { candidates, matchCount }
+}
+
+// Ambiguous lines (e.g. 03/04 day-first vs month-first) follow the format the
+// unambiguous lines agree on, unless the user overrides them individually
+export function detectTimestamps (
+	lines: string[],
+	options: { format?: string, overrides?: Record<number, string> } = {}
+): LineDetection[] {
+	const { format = 'auto', overrides = {} } = options
+	const forced = format === 'auto' ? undefined : getTimestampParser(format)
+	const parsers = forced !== undefined ? [forced] : registry
+
+	const matches = lines.map(line => findCandidates(line, parsers))
+
+	// Only lines that a single format can read count as evidence (03/03 fits both orders)
+	const evidence = new Map<string, number>()
+	for (const { candidates, matchCount } of matches) {
+		if (matchCount === 1) {
+			const id = candidates[0].parser.id
+			evidence.set(id, (evidence.get(id) ?? 0) + 1)
+		}
+	}
+
+	return lines.map((line, index) => {
+		const { candidates } = matches[index]
+		const ambiguous = candidates.length > 1
+
+		let chosen: TimestampCandidate | null = candidates[0] ?? null
+		if (ambiguous) {
+			const override = candidates.find(c => c.parser.id === overrides[index])
+			const preferred = [...candidates].sort((a, b) => (evidence.get(b.parser.id) ?? 0) - (evidence.get(a.parser.id) ?? 0))[0]
+			chosen = override ?? preferred
+		}
+
+		return { line, candidates, chosen, ambiguous }
+	})
+}
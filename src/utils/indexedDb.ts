@@ -0,0 +1,73 @@
+const DB_NAME = 'life-tracker'
+const DB_VERSION = 2
+
+export const CACHE_STORE = 'cache'
+export const OUTBOX_STORE = 'outbox'
+
+let databasePromise: Promise<IDBDatabase | null> | null = null
+
+// Resolves to null where IndexedDB is unavailable (server rendering, some private browsing modes)
+function openDatabase (): Promise<IDBDatabase | null> {
+	if (databasePromise !== null) { return databasePromise }
+
+	databasePromise = new Promise(resolve => {
+		if (typeof indexedDB === 'undefined') {
+			resolve(null)
+			return
+		}
+		const request = indexedDB.open(DB_NAME, DB_VERSION)
+		request.onupgradeneeded = () => {
+			const db = request.result
+			if (!db.objectStoreNames.contains(CACHE_STORE)) {
+				db.createObjectStore(CACHE_STORE)
+			}
+			if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+				db.createObjectStore(OUTBOX_STORE)
+			}
+		}
+		request.onsuccess = () => resolve(request.result)
+		request.onerror = () => {
+			console.error('Failed to open IndexedDB:', request.error)
+			resolve(null)
+		}
+	})
+	return databasePromise
+}
+
+function promisify<T> (request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result)
+		request.onerror = () => reject(request.error)
+	})
+}
+
+export async function readValue<T> (storeName: string, key: IDBValidKey): Promise<T | undefined> {
+	const db = await openDatabase()
+	if (db === null) { return undefined }
+	return await promisify<T | undefined>(db.transaction(storeName, 'readonly').objectStore(storeName).get(key))
+}
+
+// Values come back in key order
+export async function readAllValues<T> (storeName: string): Promise<T[]> {
+	const db = await openDatabase()
+	if (db === null) { return [] }
+	return await promisify<T[]>(db.transaction(storeName, 'readonly').objectStore(storeName).getAll())
+}
+
+export async function writeValue (storeName: string, key: IDBValidKey, value: unknown): Promise<void> {
+	const db = await openDatabase()
+	if (db === null) { return }
+	await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value, key))
+}
+
+export async function deleteValue (storeName: string, key: IDBValidKey): Promise<void> {
+	const db = await openDatabase()
+	if (db === null) { return }
+	await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key))
+}
+
+export async function clearStore (storeName: string): Promise<void> {
+	const db = await openDatabase()
+	if (db === null) { return }
+	await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).clear())
+}
@@ -0,0 +1,72 @@
+import type { Track } from '@/types/Track'
+import { CACHE_STORE, deleteValue, readValue, writeValue } from '@/utils/indexedDb'
+
+// Kept per account like the track cache
+function journalKey (userId: string): string {
+	return `journal:${userId}`
+}
+// Older entries are dropped, the journal is for recent mistakes rather than a full audit log
+const JOURNAL_LIMIT = 50
+
+// Each operation keeps what is needed to put the tracks back the way they were
+export type JournalOperation =
+	| { type: 'delete', tracks: Track[] }
+	// merged is set when newName already existed, only the recorded IDs can then be separated again
+	| { type: 'rename', oldName: string, newName: string, trackIds: string[], merged: boolean }
+	// Edits, moves and time shifts, with each track as it was before
+	| { type: 'update', before: Track[] }
+
+export interface JournalEntry {
+	id: string
+	recordedAt: number
+	operation: JournalOperation
+}
+
+let sequence = 0
+
+export function createJournalEntry (operation: JournalOperation): JournalEntry {
+	sequence = (sequence + 1) % 1000000
+	return { id: `${Date.now()}-${sequence}`, recordedAt: Date.now(), operation }
+}
+
+export async function loadJournal (userId: string): Promise<JournalEntry[]> {
+	try {
+		const entries = await readValue<JournalEntry[]>(CACHE_STORE, journalKey(userId))
+		return Array.isArray(entries) ? entries : []
+	} catch (error) {
+		console.error('Failed to read journal:', error)
+		return []
+	}
+}
+
+// Entries are kept newest first
+export async function saveJournal (userId: string, entries: JournalEntry[]): Promise<void> {
+	await writeValue(CACHE_STORE, journalKey(userId), entries.slice(0, JOURNAL_LIMIT))
+}
+
+// Called on logout together with the track cache
+export async function clearJournal (userId: string): Promise<void> {
+	await deleteValue(CACHE_STORE, journalKey(userId))
+}
+
+export function appendToJournal (entries: JournalEntry[], entry: JournalEntry): JournalEntry[] {
+	return [entry, ...entries].slice(0, JOURNAL_LIMIT)
+}
+
+export function describeJournalEntry ({ operation }: JournalEntry, getLabel: (trackName: string) => string = name => name): string {
+	switch (operation.type) {
+		case 'delete': {
+			const names = [...new Set(operation.tracks.map(t => getLabel(t.trackName)))]
+			const count = operation.tracks.length
+			return `Deleted ${count} track${count !== 1 ? 's' : ''} (${names.join(', ')})`
+		}
+		case 'rename':
+			return operation.merged
+				? `Merged "${getLabel(operation.oldName)}" into "${getLabel(operation.newName)}"`
+				: `Renamed "${getLabel(operation.oldName)}" to "${getLabel(operation.newName)}"`
+		case 'update': {
+			const count = operation.before.length
+			return `Edited ${count} track${count !== 1 ? 's' : ''}`
+		}
+	}
+}
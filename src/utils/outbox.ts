@@ -0,0 +1,106 @@
+import { ApiError, deleteTrack, importTracks } from '@/utils/api'
+import { deleteValue, OUTBOX_STORE, readAllValues, writeValue } from '@/utils/indexedDb'
+
+export type OutboxOperation =
+	| { type: 'import', trackName: string, dates: string[], pendingIds: string[] }
+	| { type: 'delete', trackId: string }
+
+export interface OutboxEntry {
+	// Zero-padded so IndexedDB key order is queue order
+	id: string
+	// Account that queued it, entries are only ever replayed under that account's session
+	userId: string
+	queuedAt: number
+	operation: OutboxOperation
+}
+
+export interface SyncConflict {
+	entryId: string
+	message: string
+}
+
+let sequence = 0
+
+function createEntryId (): string {
+	sequence = (sequence + 1) % 1000000
+	return `${Date.now().toString().padStart(15, '0')}-${sequence.toString().padStart(6, '0')}`
+}
+
+async function readUserEntries (userId: string): Promise<OutboxEntry[]> {
+	const entries = await readAllValues<OutboxEntry>(OUTBOX_STORE)
+	return entries.filter(entry => entry.userId === userId)
+}
+
+export async function loadOutbox (userId: string): Promise<OutboxEntry[]> {
+	try {
+		return await readUserEntries(userId)
+	} catch (error) {
+		console.error('Failed to read outbox:', error)
+		return []
+	}
+}
+
+export async function enqueue (userId: string, operation: OutboxOperation): Promise<OutboxEntry> {
+	const entry: OutboxEntry = { id: createEntryId(), userId, queuedAt: Date.now(), operation }
+	await writeValue(OUTBOX_STORE, entry.id, entry)
+	return entry
+}
+
+export async function updateEntry (entry: OutboxEntry): Promise<void> {
+	await writeValue(OUTBOX_STORE, entry.id, entry)
+}
+
+export async function removeEntry (entryId: string): Promise<void> {
+	await deleteValue(OUTBOX_STORE, entryId)
+}
+
+// Called on logout together with the track cache, other accounts on this device keep their queued changes
+export async function clearOutbox (userId: string): Promise<void> {
+	const entries = await readUserEntries(userId)
+	await Promise.all(entries.map(async entry => await deleteValue(OUTBOX_STORE, entry.id)))
+}
+
+// Kept in the queue: no response, an expired session (the entry waits for its account to sign in again) or a
+// server fault. Anything else the server answered is final
+export function isRetryable (error: unknown): boolean {
+	return error instanceof ApiError
+		? error.kind === 'network' || error.kind === 'unauthorized' || (error.status ?? 0) >= 500
+		: false
+}
+
+// Sends one queued operation and describes anything the server did differently from what was queued
+export async function replayEntry ({ id, operation }: OutboxEntry): Promise<SyncConflict | null> {
+	if (operation.type === 'import') {
+		try {
+			const { created } = await importTracks(operation.trackName, operation.dates)
+			if (created < operation.dates.length) {
+				const skipped = operation.dates.length - created
+				return {
+					entryId: id,
+					message: `${skipped} of ${operation.dates.length} offline "${operation.trackName}" track${operation.dates.length !== 1 ? 's were' : ' was'} already on the server and skipped`
+				}
+			}
+			return null
+		} catch (error) {
+			if (isRetryable(error)) { throw error }
+			return {
+				entryId: id,
+				message: `Could not save ${operation.dates.length} offline "${operation.trackName}" track${operation.dates.length !== 1 ? 's' : ''}: ${error instanceof Error ? error.message : 'Unknown error'}`
+			}
+		}
+	}
+
+	try {
+		await deleteTrack(operation.trackId)
+		return null
+	} catch (error) {
+		if (isRetryable(error)) { throw error }
+		if (error instanceof ApiError && error.status === 404) {
+			return { entryId: id, message: 'A track deleted offline had already been removed on another device' }
+		}
+		return {
+			entryId: id,
+			message: `Could not delete a track offline: ${error instanceof Error ? error.message : 'Unknown error'}`
+		}
+	}
+}
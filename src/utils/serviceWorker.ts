@@ -0,0 +1,23 @@
+function getServiceWorkers (): ServiceWorkerContainer | null {
+	// eslint-disable-next-line n/no-unsupported-features/node-builtins
+	return typeof window !== 'undefined' && 'serviceWorker' in navigator ? navigator.serviceWorker : null
+}
+
+// Rendering on the server counts as online, requests fail on their own when they cannot get through
+export function isBrowserOnline (): boolean {
+	// eslint-disable-next-line n/no-unsupported-features/node-builtins
+	return typeof window === 'undefined' || navigator.onLine
+}
+
+export async function registerServiceWorker (): Promise<void> {
+	const serviceWorkers = getServiceWorkers()
+	// Cached bundles would hide changes during development
+	if (process.env.NODE_ENV !== 'production' || serviceWorkers === null) { return }
+	await serviceWorkers.register('/sw.js')
+}
+
+// Drops the cached API responses so the next account on this device never sees them, on logout and on an expired session
+export async function clearServiceWorkerData (): Promise<void> {
+	const registration = await getServiceWorkers()?.getRegistration()
+	registration?.active?.postMessage({ type: 'clear-user-data' })
+}
@@ -0,0 +1,125 @@
+export type SmoothingMethod = 'moving-average' | 'ewma' | 'loess'
+
+// 'centred' looks at both sides of each day, 'trailing' only at the days up to it, as a running figure would
+export type WindowAlignment = 'centred' | 'trailing'
+
+export interface SmoothingOptions {
+	method: SmoothingMethod
+	// Days in each window, for EWMA the span, i.e. alpha = 2 / (span + 1)
+	shortWindow: number
+	longWindow: number
+	alignment: WindowAlignment
+	// Band around the long-term average that the short-term average stays in 95% of the time if nothing changed
+	showBand: boolean
+}
+
+export const DEFAULT_SMOOTHING: SmoothingOptions = {
+	method: 'moving-average',
+	shortWindow: 7,
+	longWindow: 30,
+	alignment: 'centred',
+	showBand: false
+}
+
+export const SMOOTHING_METHODS: Array<{ id: SmoothingMethod, label: string }> = [
+	{ id: 'moving-average', label: 'Moving average' },
+	{ id: 'ewma', label: 'Exponential (EWMA)' },
+	{ id: 'loess', label: 'LOESS' }
+]
+
+export const SMOOTHING_WINDOWS = [3, 7, 14, 30, 60, 90, 180, 365]
+
+// z for a two-sided 95% interval
+const Z_95 = 1.96
+
+function getWindowBounds (index: number, length: number, window: number, alignment: WindowAlignment): [number, number] {
+	if (alignment === 'trailing') {
+		return [Math.max(0, index - window + 1), index]
+	}
+	const halfWindow = Math.floor(window / 2)
+	return [Math.max(0, index - halfWindow), Math.min(length - 1, index + halfWindow)]
+}
+
+function movingAverage (values: number[], window: number, alignment: WindowAlignment): number[] {
+	// Prefix sums keep long windows over years of days cheap
+	const prefix = [0]
+	values.forEach(value => prefix.push(prefix[prefix.length - 1] + value))
+	return values.map((_, i) => {
+		const [start, end] = getWindowBounds(i, values.length, window, alignment)
+		return (prefix[end + 1] - prefix[start]) / (end - start + 1)
+	})
+}
+
+function ewmaPass (values: number[], alpha: number): number[] {
+	const result: number[] = []
+	values.forEach((value, i) => {
+		result.push(i === 0 ? value : alpha * value + (1 - alpha) * result[i - 1])
+	})
+	return result
+}
+
+// Centred alignment averages a forward and a backward pass, which removes the lag of a single pass
+function exponentialAverage (values: number[], span: number, alignment: WindowAlignment): number[] {
+	const alpha = 2 / (span + 1)
+	const forward = ewmaPass(values, alpha)
+	if (alignment === 'trailing') { return forward }
+	const backward = ewmaPass([...values].reverse(), alpha).reverse()
+	return forward.map((value, i) => (value + backward[i]) / 2)
+}
+
+// Local linear regression with tricube weights over the window around each day. Follows trends and turning points
+// more closely than a moving average of the same width
+function loess (values: number[], window: number, alignment: WindowAlignment): number[] {
+	return values.map((_, i) => {
+		const [start, end] = getWindowBounds(i, values.length, window, alignment)
+		// One past the furthest neighbour, so that every point in the window keeps some weight
+		const maxDistance = Math.max(i - start, end - i) + 1
+
+		let sumW = 0
+		let sumWX = 0
+		let sumWY = 0
+		let sumWXX = 0
+		let sumWXY = 0
+		for (let j = start; j <= end; j++) {
+			const x = j - i
+			const w = Math.pow(1 - Math.pow(Math.abs(x) / maxDistance, 3), 3)
+			sumW += w
+			sumWX += w * x
+			sumWY += w * values[j]
+			sumWXX += w * x * x
+			sumWXY += w * x * values[j]
+		}
+
+		const denominator = sumW * sumWXX - sumWX * sumWX
+		// A single point or a flat design has no slope, its weighted mean is the fit
+		const fitted = Math.abs(denominator) < 1e-12
+			? sumWY / sumW
+			: (sumWY * sumWXX - sumWX * sumWXY) / denominator
+		// Rates cannot go below zero, a steep drop can make the line overshoot
+		return Math.max(0, fitted)
+	})
+}
+
+export function smooth (values: number[], window: number, options: SmoothingOptions): number[] {
+	switch (options.method) {
+		case 'moving-average':
+			return movingAverage(values, window, options.alignment)
+		case 'ewma':
+			return exponentialAverage(values, window, options.alignment)
+		case 'loess':
+			return loess(values, window, options.alignment)
+	}
+}
+
+// Legend name of one smoothed line, e.g. "30-day EWMA"
+export function getSmoothingLabel (method: SmoothingMethod, window: number): string {
+	const name = method === 'moving-average' ? 'average' : method === 'ewma' ? 'EWMA' : 'LOESS'
+	return `${window}-day ${name}`
+}
+
+// Range the average of `days` Poisson-distributed daily counts falls in 95% of the time when the true rate is `rate`.
+// A trailing EWMA with span n has the same variance as an n-day mean, the other methods are close enough to share the band
+export function getPoissonBand (rate: number, days: number): { lower: number, upper: number } {
+	const margin = Z_95 * Math.sqrt(rate / Math.max(1, days))
+	return { lower: Math.max(0, rate - margin), upper: rate + margin }
+}
@@ -0,0 +1,58 @@
+import type { Track } from '@/types/Track'
+import { isInDateRange, type DateRange } from '@/utils/dayKeys'
+import { getZonedParts } from '@/utils/timezone'
+
+export type SplitRule =
+	| { type: 'dateRange', range: DateRange }
+	// Start hour inclusive, end hour exclusive; a start after the end wraps past midnight
+	| { type: 'hours', from: number, to: number }
+	// Monday is 0, as in getZonedParts
+	| { type: 'weekdays', days: number[] }
+	| { type: 'selection', trackIds: ReadonlySet<string> }
+
+export type SplitRuleType = SplitRule['type']
+
+export const SPLIT_RULE_TYPES: Array<{ value: SplitRuleType, label: string }> = [
+	{ value: 'dateRange', label: 'Date Range' },
+	{ value: 'hours', label: 'Hour of Day' },
+	{ value: 'weekdays', label: 'Weekdays' },
+	{ value: 'selection', label: 'Selected Rows' }
+]
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+export function matchesSplitRule (track: Track, rule: SplitRule, timeZone: string): boolean {
+	if (rule.type === 'selection') {
+		return rule.trackIds.has(track._id)
+	}
+
+	const date = new Date(track.date)
+	// Only an explicit selection can pick up tracks whose date does not parse
+	if (isNaN(date.getTime())) { return false }
+
+	switch (rule.type) {
+		case 'dateRange':
+			return isInDateRange(date, rule.range, timeZone)
+		case 'hours': {
+			const { hour } = getZonedParts(date, timeZone)
+			return rule.from <= rule.to
+				? hour >= rule.from && hour < rule.to
+				: hour >= rule.from || hour < rule.to
+		}
+		case 'weekdays':
+			return rule.days.includes(getZonedParts(date, timeZone).weekday)
+	}
+}
+
+export function describeSplitRule (rule: SplitRule): string {
+	switch (rule.type) {
+		case 'dateRange':
+			return `from ${rule.range.from !== '' ? rule.range.from : 'the start'} to ${rule.range.to !== '' ? rule.range.to : 'now'}`
+		case 'hours':
+			return `between ${rule.from.toString().padStart(2, '0')}:00 and ${rule.to.toString().padStart(2, '0')}:00`
+		case 'weekdays':
+			return `on ${[...rule.days].sort().map(day => WEEKDAY_LABELS[day]).join(', ')}`
+		case 'selection':
+			return `in the ${rule.trackIds.size} selected row${rule.trackIds.size !== 1 ? 's' : ''}`
+	}
+}
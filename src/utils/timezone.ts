@@ -0,0 +1,143 @@
+export interface WallClockParts {
+	year: number
+	month: number
+	day: number
+	hour: number
+	minute: number
+	second: number
+}
+
+// 'gap': the wall-clock time is skipped by a DST jump and was shifted forward
+// 'overlap': the wall-clock time happens twice and the first occurrence was used
+export type DstIssue = 'gap' | 'overlap' | null
+
+export interface ZonedConversion {
+	date: Date
+	issue: DstIssue
+}
+
+const FALLBACK_TIME_ZONES = [
+	'UTC',
+	'Europe/London',
+	'Europe/Copenhagen',
+	'Europe/Berlin',
+	'Europe/Helsinki',
+	'America/New_York',
+	'America/Chicago',
+	'America/Denver',
+	'America/Los_Angeles',
+	'Asia/Tokyo',
+	'Asia/Shanghai',
+	'Asia/Kolkata',
+	'Australia/Sydney'
+]
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter (timeZone: string): Intl.DateTimeFormat {
+	let formatter = formatterCache.get(timeZone)
+	if (formatter === undefined) {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			second: '2-digit',
+			weekday: 'short'
+		})
+		formatterCache.set(timeZone, formatter)
+	}
+	return formatter
+}
+
+export function getBrowserTimeZone (): string {
+	return Intl.DateTimeFormat().resolvedOptions().timeZone ?? 'UTC'
+}
+
+export function getTimeZones (): string[] {
+	const supported = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone')
+	const zones = supported !== undefined && supported.length > 0 ? [...supported] : [...FALLBACK_TIME_ZONES]
+	if (!zones.includes('UTC')) { zones.unshift('UTC') }
+	return zones
+}
+
+export function isValidTimeZone (timeZone: string): boolean {
+	try {
+		getFormatter(timeZone)
+		return true
+	} catch {
+		return false
+	}
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+// weekday is Monday-based (0 = Monday) to match the rest of the app
+export function getZonedParts (date: Date, timeZone: string): WallClockParts & { weekday: number } {
+	const values: Record<string, string> = {}
+	for (const part of getFormatter(timeZone).formatToParts(date)) {
+		values[part.type] = part.value
+	}
+	return {
+		year: parseInt(values.year),
+		month: parseInt(values.month),
+		day: parseInt(values.day),
+		hour: parseInt(values.hour) % 24,
+		minute: parseInt(values.minute),
+		second: parseInt(values.second),
+		weekday: WEEKDAYS.indexOf(values.weekday)
+	}
+}
+
+function wallClockAsUtc (parts: WallClockParts): number {
+	const utc = new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second))
+	// Date.UTC maps years 0-99 to 1900-1999
+	utc.setUTCFullYear(parts.year)
+	return utc.getTime()
+}
+
+export function getTimeZoneOffsetMs (date: Date, timeZone: string): number {
+	const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000
+	return wallClockAsUtc(getZonedParts(new Date(wholeSeconds), timeZone)) - wholeSeconds
+}
+
+function sameWallClock (a: WallClockParts, b: WallClockParts): boolean {
+	return a.year === b.year && a.month === b.month && a.day === b.day &&
+		a.hour === b.hour && a.minute === b.minute && a.second === b.second
+}
+
+export function zonedWallClockToDate (parts: WallClockParts, timeZone: string): ZonedConversion {
+	const asUtc = wallClockAsUtc(parts)
+	const halfDay = 12 * 60 * 60 * 1000
+	const offsetBefore = getTimeZoneOffsetMs(new Date(asUtc - halfDay), timeZone)
+	const offsetAfter = getTimeZoneOffsetMs(new Date(asUtc + halfDay), timeZone)
+
+	const candidates = [...new Set([asUtc - offsetBefore, asUtc - offsetAfter])]
+		.filter(t => sameWallClock(getZonedParts(new Date(t), timeZone), parts))
+		.sort((a, b) => a - b)
+
+	if (candidates.length === 0) {
+		// Skipped by a forward jump: keep the pre-transition offset, which lands after the jump
+		return { date: new Date(asUtc - offsetBefore), issue: 'gap' }
+	}
+
+	return { date: new Date(candidates[0]), issue: candidates.length > 1 ? 'overlap' : null }
+}
+
+export function isAmbiguousInTimeZone (date: Date, timeZone: string): boolean {
+	return zonedWallClockToDate(getZonedParts(date, timeZone), timeZone).issue === 'overlap'
+}
+
+export function formatInTimeZone (date: Date, timeZone: string, options: Intl.DateTimeFormatOptions = {}): string {
+	return date.toLocaleString('en-GB', { ...options, timeZone })
+}
+
+export function formatOffset (date: Date, timeZone: string): string {
+	const offsetMinutes = Math.round(getTimeZoneOffsetMs(date, timeZone) / 60000)
+	const sign = offsetMinutes < 0 ? '-' : '+'
+	const abs = Math.abs(offsetMinutes)
+	return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`
+}
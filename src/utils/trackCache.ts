@@ -0,0 +1,30 @@
+import type { Track } from '@/types/Track'
+import { CACHE_STORE, deleteValue, readValue, writeValue } from '@/utils/indexedDb'
+
+// Kept per account, so whoever signs in next on this device never sees another account's tracks
+function tracksKey (userId: string): string {
+	return `tracks:${userId}`
+}
+
+export interface CachedTracks {
+	tracks: Track[]
+	savedAt: number
+}
+
+export async function loadCachedTracks (userId: string): Promise<CachedTracks | null> {
+	try {
+		const cached = await readValue<CachedTracks>(CACHE_STORE, tracksKey(userId))
+		return cached !== undefined && Array.isArray(cached.tracks) ? cached : null
+	} catch (error) {
+		console.error('Failed to read cached tracks:', error)
+		return null
+	}
+}
+
+export async function saveCachedTracks (userId: string, tracks: Track[]): Promise<void> {
+	await writeValue(CACHE_STORE, tracksKey(userId), { tracks, savedAt: Date.now() } satisfies CachedTracks)
+}
+
+export async function clearCachedTracks (userId: string): Promise<void> {
+	await deleteValue(CACHE_STORE, tracksKey(userId))
+}
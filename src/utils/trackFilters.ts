@@ -0,0 +1,165 @@
+import type { Track } from '@/types/Track'
+import { isInDateRange, type DateRange } from '@/utils/dayKeys'
+import { WEEKDAY_LABELS } from '@/utils/splitRules'
+import { getZonedParts } from '@/utils/timezone'
+
+export interface TrackFilters {
+	// Fuzzy search over raw and translated track names
+	query: string
+	// '' shows every type
+	trackName: string
+	dateRange: DateRange
+	// HH:MM in the browser timezone, both ends inclusive, '' leaves that side open; a start after the end wraps past midnight
+	timeFrom: string
+	timeTo: string
+	// Monday is 0, as in getZonedParts
+	weekdays: number[]
+}
+
+export const EMPTY_TRACK_FILTERS: TrackFilters = {
+	query: '',
+	trackName: '',
+	dateRange: { from: '', to: '' },
+	timeFrom: '',
+	timeTo: '',
+	weekdays: []
+}
+
+// Short names keep shared links readable
+const PARAMS = {
+	query: 'q',
+	trackName: 'type',
+	from: 'from',
+	to: 'to',
+	timeFrom: 'after',
+	timeTo: 'before',
+	weekdays: 'days'
+} as const
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+function readPattern (value: string | null, pattern: RegExp): string {
+	return value !== null && pattern.test(value) ? value : ''
+}
+
+// Invalid values are dropped rather than reported, a hand-edited link still opens the tab
+export function parseTrackFilters (params: { get: (name: string) => string | null }): TrackFilters {
+	const days = params.get(PARAMS.weekdays) ?? ''
+	const weekdays = days.split(',')
+		.map(day => WEEKDAY_LABELS.findIndex(label => label.toLowerCase() === day.trim().toLowerCase()))
+		.filter((day, index, all) => day !== -1 && all.indexOf(day) === index)
+		.sort((a, b) => a - b)
+
+	return {
+		query: params.get(PARAMS.query) ?? '',
+		trackName: params.get(PARAMS.trackName) ?? '',
+		dateRange: {
+			from: readPattern(params.get(PARAMS.from), DAY_PATTERN),
+			to: readPattern(params.get(PARAMS.to), DAY_PATTERN)
+		},
+		timeFrom: readPattern(params.get(PARAMS.timeFrom), TIME_PATTERN),
+		timeTo: readPattern(params.get(PARAMS.timeTo), TIME_PATTERN),
+		weekdays
+	}
+}
+
+// Returns a copy of params with the filter keys set, params that belong to other views are kept
+export function writeTrackFilters (filters: TrackFilters, params: URLSearchParams): URLSearchParams {
+	const next = new URLSearchParams(params)
+	const values: Array<[string, string]> = [
+		[PARAMS.query, filters.query.trim()],
+		[PARAMS.trackName, filters.trackName],
+		[PARAMS.from, filters.dateRange.from],
+		[PARAMS.to, filters.dateRange.to],
+		[PARAMS.timeFrom, filters.timeFrom],
+		[PARAMS.timeTo, filters.timeTo],
+		[PARAMS.weekdays, [...filters.weekdays].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day].toLowerCase()).join(',')]
+	]
+	for (const [key, value] of values) {
+		if (value === '') {
+			next.delete(key)
+		} else {
+			next.set(key, value)
+		}
+	}
+	return next
+}
+
+// The type buttons are not counted, they have their own "All" option
+export function hasActiveFilters (filters: TrackFilters): boolean {
+	return filters.query.trim() !== '' ||
+		filters.dateRange.from !== '' ||
+		filters.dateRange.to !== '' ||
+		filters.timeFrom !== '' ||
+		filters.timeTo !== '' ||
+		filters.weekdays.length > 0
+}
+
+function normalizeText (text: string): string {
+	// Strips accents so "cafe" finds "Café"
+	return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+}
+
+function isSubsequence (needle: string, haystack: string): boolean {
+	let index = 0
+	for (const char of haystack) {
+		if (char === needle[index]) { index++ }
+		if (index === needle.length) { return true }
+	}
+	return index === needle.length
+}
+
+// Every word of the query must appear in order in the text, with gaps allowed, e.g. "cof" and "cfe" both find "Coffee"
+export function fuzzyMatches (query: string, text: string): boolean {
+	const haystack = normalizeText(text)
+	return normalizeText(query).split(/\s+/).filter(word => word !== '').every(word => isSubsequence(word, haystack))
+}
+
+function toMinutes (time: string): number {
+	const [hours, minutes] = time.split(':').map(Number)
+	return hours * 60 + minutes
+}
+
+function isInTimeRange (minutes: number, from: string, to: string): boolean {
+	const start = from !== '' ? toMinutes(from) : null
+	const end = to !== '' ? toMinutes(to) : null
+	if (start !== null && end !== null && start > end) {
+		return minutes >= start || minutes <= end
+	}
+	return (start === null || minutes >= start) && (end === null || minutes <= end)
+}
+
+// Builds the predicate once per filter change, name matches are cached since many tracks share a name
+export function createTrackFilter (filters: TrackFilters, timeZone: string, getLabel: (trackName: string) => string): (track: Track) => boolean {
+	const query = filters.query.trim()
+	const nameMatches = new Map<string, boolean>()
+	const hasDateRange = filters.dateRange.from !== '' || filters.dateRange.to !== ''
+	const hasTimeRange = filters.timeFrom !== '' || filters.timeTo !== ''
+	const hasWeekdays = filters.weekdays.length > 0
+
+	return (track: Track): boolean => {
+		if (filters.trackName !== '' && track.trackName !== filters.trackName) { return false }
+
+		if (query !== '') {
+			let matches = nameMatches.get(track.trackName)
+			if (matches === undefined) {
+				matches = fuzzyMatches(query, getLabel(track.trackName)) || fuzzyMatches(query, track.trackName)
+				nameMatches.set(track.trackName, matches)
+			}
+			if (!matches) { return false }
+		}
+
+		if (!hasDateRange && !hasTimeRange && !hasWeekdays) { return true }
+
+		const date = new Date(track.date)
+		// A date that does not parse cannot be placed in any range
+		if (isNaN(date.getTime())) { return false }
+		if (hasDateRange && !isInDateRange(date, filters.dateRange, timeZone)) { return false }
+		if (!hasTimeRange && !hasWeekdays) { return true }
+
+		const parts = getZonedParts(date, timeZone)
+		if (hasTimeRange && !isInTimeRange(parts.hour * 60 + parts.minute, filters.timeFrom, filters.timeTo)) { return false }
+		return !hasWeekdays || filters.weekdays.includes(parts.weekday)
+	}
+}
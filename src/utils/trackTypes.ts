@@ -0,0 +1,124 @@
+import type { TrackTypeSettings } from '@/types/TrackType'
+
+// Series colour of the charts when no single type is selected
+export const DEFAULT_CHART_COLOR = '#3b82f6'
+
+// Second series when two periods are compared
+export const COMPARISON_CHART_COLOR = '#f59e0b'
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{6})$/i
+
+export function isHexColor (value: string): boolean {
+	return HEX_COLOR_PATTERN.test(value)
+}
+
+function hslToHex (hue: number, saturation: number, lightness: number): string {
+	const s = saturation / 100
+	const l = lightness / 100
+	const a = s * Math.min(l, 1 - l)
+	const channel = (n: number): string => {
+		const k = (n + hue / 30) % 12
+		const value = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+		return Math.round(value * 255).toString(16).padStart(2, '0')
+	}
+	return `#${channel(0)}${channel(8)}${channel(4)}`
+}
+
+// Stable colour from the name, the same hash the calendar used before colours could be chosen
+export function getDefaultTrackColor (trackName: string): string {
+	let hash = 0
+	for (let i = 0; i < trackName.length; i++) {
+		hash = trackName.charCodeAt(i) + ((hash << 5) - hash)
+	}
+	return hslToHex(Math.abs(hash % 360), 70, 50)
+}
+
+function parseHexColor (color: string): { r: number, g: number, b: number } | null {
+	const match = HEX_COLOR_PATTERN.exec(color)
+	if (match === null) { return null }
+	const value = parseInt(match[1], 16)
+	return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 }
+}
+
+export function withAlpha (color: string, alpha: number): string {
+	const rgb = parseHexColor(color) ?? parseHexColor(DEFAULT_CHART_COLOR)!
+	return `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${alpha})`
+}
+
+// Hue and saturation for the heatmaps, which vary the lightness to show intensity
+export function getHueAndSaturation (color: string): { hue: number, saturation: number } {
+	const rgb = parseHexColor(color) ?? parseHexColor(DEFAULT_CHART_COLOR)!
+	const r = rgb.r / 255
+	const g = rgb.g / 255
+	const b = rgb.b / 255
+	const max = Math.max(r, g, b)
+	const min = Math.min(r, g, b)
+	const delta = max - min
+	if (delta === 0) { return { hue: 0, saturation: 0 } }
+
+	const lightness = (max + min) / 2
+	const saturation = delta / (1 - Math.abs(2 * lightness - 1))
+	const hue = max === r
+		? ((g - b) / delta + 6) % 6
+		: max === g
+			? (b - r) / delta + 2
+			: (r - g) / delta + 4
+	return { hue: Math.round(hue * 60), saturation: Math.round(saturation * 100) }
+}
+
+// Drops empty fields and entries so the stored settings only hold what was actually chosen
+export function cleanTrackTypeSettings (settings: Record<string, TrackTypeSettings>): Record<string, TrackTypeSettings> {
+	const cleaned: Record<string, TrackTypeSettings> = {}
+	for (const [trackName, entry] of Object.entries(settings)) {
+		const next: TrackTypeSettings = {}
+		if (entry.color !== undefined && isHexColor(entry.color)) { next.color = entry.color.toLowerCase() }
+		if (entry.icon !== undefined && entry.icon.trim() !== '') { next.icon = entry.icon.trim() }
+		if (entry.category !== undefined && entry.category.trim() !== '') { next.category = entry.category.trim() }
+		if (entry.archived === true) { next.archived = true }
+		if (Object.keys(next).length > 0) { cleaned[trackName] = next }
+	}
+	return cleaned
+}
+
+// Carries the display name or settings of a renamed type over to the new name, null when there is nothing to move.
+// An existing entry for the new name wins, so merging into a type keeps that type's look.
+export function moveTrackTypeEntry<T> (entries: Record<string, T>, oldName: string, newName: string): Record<string, T> | null {
+	if (!(oldName in entries)) { return null }
+	const next = { ...entries }
+	if (!(newName in next)) {
+		next[newName] = next[oldName]
+	}
+	delete next[oldName]
+	return next
+}
+
+export interface TrackTypeGroup {
+	// null collects the types without a category
+	category: string | null
+	trackNames: string[]
+}
+
+export function getCategories (settings: Record<string, TrackTypeSettings>): string[] {
+	return [...new Set(Object.values(settings).map(entry => entry.category).filter((category): category is string => category !== undefined))].sort()
+}
+
+// Groups keep the order of trackNames, named categories come first alphabetically and uncategorised types last
+export function groupByCategory (trackNames: string[], settings: Record<string, TrackTypeSettings>): TrackTypeGroup[] {
+	const groups = new Map<string | null, string[]>()
+	for (const trackName of trackNames) {
+		const category = settings[trackName]?.category ?? null
+		const names = groups.get(category)
+		if (names === undefined) {
+			groups.set(category, [trackName])
+		} else {
+			names.push(trackName)
+		}
+	}
+	return [...groups.entries()]
+		.map(([category, names]) => ({ category, trackNames: names }))
+		.sort((a, b) => a.category === null ? 1 : b.category === null ? -1 : a.category.localeCompare(b.category))
+}
+
+export function getCategoryTrackNames (category: string, trackNames: string[], settings: Record<string, TrackTypeSettings>): string[] {
+	return trackNames.filter(trackName => settings[trackName]?.category === category)
+}